@@ -18,6 +18,7 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { supabase } from '@/lib/supabase';
+import { StorefrontStatusCards } from '@/components/storefront-status-cards';
 import { toast } from '@/components/ui/use-toast';
 
 interface DashboardStats {
@@ -161,6 +162,8 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      <StorefrontStatusCards />
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card className="col-span-1">
           <CardHeader>
@@ -0,0 +1,402 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { productToFormValues } from '../productFormValues';
+
+// Revisions listed; older ones are kept but not shown
+const REVISIONS_LIMIT = 50;
+
+// Bookkeeping and raw related tables (compared through their form fields)
+const IGNORED_FIELDS = new Set([
+  'products_id',
+  'created_at',
+  'updated_at',
+  'rating_average',
+  'rating_count',
+  'product_features',
+  'product_variants',
+  'product_images',
+  'product_testimonial_videos',
+  'product_tags',
+  'product_faqs',
+]);
+
+interface ProductRevisionSummary {
+  id: number;
+  created_at: string;
+  author_email: string | null;
+  restored_from: number | null;
+  saved_at: string | null; // `updated_at` of the product in the snapshot
+}
+
+export interface ProductRevision {
+  id: number;
+  snapshot: Record<string, any>;
+}
+
+interface ProductHistoryTabProps {
+  productId: number;
+  currentUpdatedAt: string | null; // `updated_at` of the product as loaded
+  refreshKey: number; // Changes after every save, to list the new revision
+  onRestore: (revision: ProductRevision) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Row IDs change when a restore brings deleted rows back, so they are left
+// out of the comparison
+function withoutIds(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutIds);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== 'id')
+        .map(([key, nested]) => [key, withoutIds(nested)])
+    );
+  }
+  return value;
+}
+
+function revisionFields(snapshot: Record<string, any>) {
+  const values: Record<string, unknown> = productToFormValues(
+    structuredClone(snapshot)
+  );
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([field]) => !IGNORED_FIELDS.has(field))
+      .map(([field, value]) => [field, withoutIds(value)])
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// The revision holding the product as it is saved now, if any; a save that
+// bypassed the API has none
+function isCurrentRevision(
+  revision: ProductRevisionSummary,
+  currentUpdatedAt: string | null
+): boolean {
+  return (
+    !!revision.saved_at &&
+    !!currentUpdatedAt &&
+    new Date(revision.saved_at).getTime() ===
+      new Date(currentUpdatedAt).getTime()
+  );
+}
+
+function revisionLabel(revision: ProductRevisionSummary): string {
+  return `#${revision.id} · ${format(new Date(revision.created_at), 'yyyy-MM-dd HH:mm')}`;
+}
+
+// History tab of the product edit page: the saved revisions of the product,
+// a side-by-side comparison of any two, and restoring one through the normal
+// save (which records the restore as a new revision).
+export function ProductHistoryTab({
+  productId,
+  currentUpdatedAt,
+  refreshKey,
+  onRestore,
+  disabled,
+}: ProductHistoryTabProps) {
+  const [revisions, setRevisions] = useState<ProductRevisionSummary[]>([]);
+  const [snapshots, setSnapshots] = useState<
+    Record<number, Record<string, any>>
+  >({});
+  const [leftId, setLeftId] = useState<number | null>(null);
+  const [rightId, setRightId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoreId, setRestoreId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchRevisions() {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('product_revisions')
+        .select(
+          'id, created_at, author_email, restored_from, saved_at:snapshot->>updated_at'
+        )
+        .eq('products_id', productId)
+        .order('created_at', { ascending: false })
+        .limit(REVISIONS_LIMIT);
+
+      if (error) {
+        console.error('[ProductHistoryTab] Error fetching revisions:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Error loading history',
+          description: error.message,
+        });
+      } else {
+        const list = (data || []) as ProductRevisionSummary[];
+        setRevisions(list);
+        // Latest revision against the one before it
+        setRightId(list[0]?.id ?? null);
+        setLeftId(list[1]?.id ?? list[0]?.id ?? null);
+      }
+      setIsLoading(false);
+    }
+
+    fetchRevisions();
+  }, [productId, refreshKey, toast]);
+
+  // Snapshots are large, so only the compared ones are loaded
+  useEffect(() => {
+    const missing = [leftId, rightId].filter(
+      (id): id is number => id !== null && !snapshots[id]
+    );
+    if (missing.length === 0) return;
+    loadSnapshots(missing);
+  }, [leftId, rightId]);
+
+  async function loadSnapshots(ids: number[]) {
+    const { data, error } = await supabase
+      .from('product_revisions')
+      .select('id, snapshot')
+      .in('id', ids);
+
+    if (error) {
+      console.error('[ProductHistoryTab] Error fetching snapshots:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error loading revision',
+        description: error.message,
+      });
+      return {};
+    }
+    const loaded = Object.fromEntries(
+      ((data || []) as ProductRevision[]).map((revision) => [
+        revision.id,
+        revision.snapshot,
+      ])
+    );
+    setSnapshots((current) => ({ ...current, ...loaded }));
+    return loaded;
+  }
+
+  const changes = useMemo(() => {
+    const left = leftId !== null ? snapshots[leftId] : undefined;
+    const right = rightId !== null ? snapshots[rightId] : undefined;
+    if (!left || !right) return null;
+
+    const leftFields = revisionFields(left);
+    const rightFields = revisionFields(right);
+    return Array.from(
+      new Set([...Object.keys(leftFields), ...Object.keys(rightFields)])
+    )
+      .filter(
+        (field) =>
+          JSON.stringify(leftFields[field] ?? null) !==
+          JSON.stringify(rightFields[field] ?? null)
+      )
+      .map((field) => ({
+        field,
+        from: leftFields[field],
+        to: rightFields[field],
+      }));
+  }, [leftId, rightId, snapshots]);
+
+  async function handleRestore(id: number) {
+    setRestoring(true);
+    try {
+      const snapshot = snapshots[id] ?? (await loadSnapshots([id]))[id];
+      if (snapshot) await onRestore({ id, snapshot });
+    } finally {
+      setRestoring(false);
+      setRestoreId(null);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Revisions</CardTitle>
+          <CardDescription>
+            Every save of this product, newest first. Restoring a revision saves
+            it as the current version and refreshes the storefronts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {revisions.length === 0 && (
+            <p className="text-muted-foreground">
+              No revisions yet. One is stored with every save.
+            </p>
+          )}
+          {revisions.map((revision) => {
+            const isCurrent = isCurrentRevision(revision, currentUpdatedAt);
+            return (
+              <div
+                key={revision.id}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{revisionLabel(revision)}</span>
+                  <span className="text-muted-foreground">
+                    {revision.author_email || 'Unknown author'}
+                  </span>
+                  {isCurrent && <Badge variant="secondary">Current</Badge>}
+                  {revision.restored_from && (
+                    <Badge variant="outline">
+                      Restored from #{revision.restored_from}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRestoreId(revision.id)}
+                  disabled={disabled || restoring || isCurrent}
+                >
+                  <History className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {revisions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare revisions</CardTitle>
+            <CardDescription>
+              Fields that differ between the two revisions.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { label: 'From', value: leftId, onChange: setLeftId },
+                { label: 'To', value: rightId, onChange: setRightId },
+              ].map((side) => (
+                <div key={side.label} className="space-y-2">
+                  <Label>{side.label}</Label>
+                  <Select
+                    value={side.value?.toString()}
+                    onValueChange={(value) => side.onChange(Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a revision" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem
+                          key={revision.id}
+                          value={revision.id.toString()}
+                        >
+                          {revisionLabel(revision)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {!changes ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : changes.length === 0 ? (
+              <p className="text-muted-foreground">
+                The two revisions are identical.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {changes.map((change) => (
+                  <div key={change.field} className="space-y-1">
+                    <h4 className="font-medium">{change.field}</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md bg-destructive/10 p-3 text-xs">
+                        {formatValue(change.from)}
+                      </pre>
+                      <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md bg-primary/10 p-3 text-xs">
+                        {formatValue(change.to)}
+                      </pre>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog
+        open={restoreId !== null}
+        onOpenChange={(open) => {
+          if (!open && !restoring) setRestoreId(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore revision #{restoreId}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The product, its variants, images and other related data are saved
+              as they were in this revision. The current version stays in the
+              history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                if (restoreId !== null) handleRestore(restoreId);
+              }}
+              disabled={restoring}
+            >
+              {restoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
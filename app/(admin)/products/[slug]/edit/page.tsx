@@ -5,12 +5,16 @@ import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Loader2, Save, ArrowLeft } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
+import { getAdminAuthHeaders, supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Form } from '@/components/ui/form';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 import { Separator } from '@/components/ui/separator';
+import { ChangePreviewPanel } from '@/components/change-preview-panel';
+import { EditConflictDialog } from '@/components/edit-conflict-dialog';
+import type { EditConflict } from '@/lib/editConflicts';
 import {
   productFormSchema,
   ProductFormValues,
@@ -32,11 +36,11 @@ import { ProductTestimonialVideoForm } from '../../create/components/ProductTest
 import { ProductCustomerTestimonialsForm } from '../../create/components/ProductCustomerTestimonialsForm';
 import { ProductFaqForm } from '../../create/components/ProductFaqForm';
 import { UseFormReturn, Control, UseFormWatch } from 'react-hook-form';
-
-// Define the type for tags fetched from Supabase
-interface ProductTag {
-  tag_text: string;
-}
+import { productToFormValues } from './productFormValues';
+import {
+  ProductHistoryTab,
+  type ProductRevision,
+} from './components/ProductHistoryTab';
 
 // Define type for Variant Feature with icon
 interface VariantFeatureWithIcon {
@@ -70,6 +74,51 @@ interface EditProductPageProps {
   params: Promise<{ slug: string }>;
 }
 
+// The product fields of an /api/products/update body, from form values
+function formValuesToUpdate(values: ProductFormValues) {
+  // Prepare payload, ensuring correct types
+  const payload = {
+    ...values,
+    price: Number(values.price) || 0,
+    compare_at_price: values.compare_at_price
+      ? Number(values.compare_at_price)
+      : null,
+    cost_price: values.cost_price ? Number(values.cost_price) : null,
+    initial_stock: values.initial_stock ? Number(values.initial_stock) : null,
+    quantity: Number(values.quantity) || 0,
+    low_stock_threshold: values.low_stock_threshold
+      ? Number(values.low_stock_threshold)
+      : null,
+    reserved_quantity: values.reserved_quantity
+      ? Number(values.reserved_quantity)
+      : null,
+    max_stock: values.max_stock ? Number(values.max_stock) : null,
+    weight: values.weight ? Number(values.weight) : null,
+    dimensions_length: values.dimensions_length
+      ? Number(values.dimensions_length)
+      : null,
+    dimensions_width: values.dimensions_width
+      ? Number(values.dimensions_width)
+      : null,
+    dimensions_height: values.dimensions_height
+      ? Number(values.dimensions_height)
+      : null,
+    category_id: values.category_id ? parseInt(values.category_id, 10) : null,
+    subcategory_id: values.subcategory_id
+      ? parseInt(values.subcategory_id, 10)
+      : null,
+    brand_id: values.brand_id ? parseInt(values.brand_id, 10) : null,
+    // Remove fields not meant for direct update or calculated fields
+  };
+
+  // Remove fields that shouldn't be sent in the update
+  delete payload.rating_average;
+  delete payload.rating_count;
+  // Add any other fields that are managed separately or read-only
+
+  return payload;
+}
+
 export default function EditProductPage({ params }: EditProductPageProps) {
   const resolvedParams = use(params);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -81,6 +130,22 @@ export default function EditProductPage({ params }: EditProductPageProps) {
   const [brands, setBrands] = useState<Brand[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [productId, setProductId] = useState<number | null>(null);
+  // Bumped after a save to reload the product, so rows added in the form
+  // get their database IDs and are not inserted again on the next save
+  const [reloadCount, setReloadCount] = useState(0);
+  // Kept across reloads, so a restore from the History tab stays there
+  const [activeTab, setActiveTab] = useState('general');
+  // The version the form was loaded from; the update route refuses to save
+  // over a newer one and answers with the conflicting fields
+  const [loadedUpdatedAt, setLoadedUpdatedAt] = useState<string | null>(null);
+  const [loadedValues, setLoadedValues] = useState<ProductFormValues | null>(
+    null
+  );
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const [conflictPayload, setConflictPayload] = useState<Record<
+    string,
+    unknown
+  > | null>(null);
   const router = useRouter();
   const { toast } = useToast();
 
@@ -127,6 +192,7 @@ export default function EditProductPage({ params }: EditProductPageProps) {
       testimonial_videos: [],
       customer_testimonials: [],
       tags: [],
+      published_locales: null,
       faqs: [],
     },
   });
@@ -331,103 +397,9 @@ export default function EditProductPage({ params }: EditProductPageProps) {
           throw new Error('Product ID not found');
         }
         setProductId(productId);
+        setLoadedUpdatedAt(productData.updated_at ?? null);
 
-        // Fetch tags separately if needed or rely on the joined data
-        const fetchedTags: string[] =
-          productData.product_tags?.map((tag: ProductTag) => tag.tag_text) ||
-          [];
-
-        const formData = {
-          ...productData,
-          category_id: productData.category_id?.toString() || undefined,
-          subcategory_id: productData.subcategory_id?.toString() || undefined,
-          brand_id: productData.brand_id?.toString() || undefined,
-          mark: productData.mark ?? null,
-          seo_keywords: productData.seo_keywords?.join(', ') || '',
-          initial_stock: productData.initial_stock ?? undefined,
-          rating_average: productData.rating_average ?? undefined,
-          rating_count: productData.rating_count ?? undefined,
-          // Handle shipping fields based on shipping_required
-          shipping_class: productData.shipping_required
-            ? productData.shipping_class
-            : null,
-          weight: productData.shipping_required ? productData.weight : null,
-          weight_unit: productData.shipping_required
-            ? productData.weight_unit
-            : null,
-          dimensions_length: productData.shipping_required
-            ? productData.dimensions_length
-            : null,
-          dimensions_width: productData.shipping_required
-            ? productData.dimensions_width
-            : null,
-          dimensions_height: productData.shipping_required
-            ? productData.dimensions_height
-            : null,
-          dimensions_unit: productData.shipping_required
-            ? productData.dimensions_unit
-            : null,
-          images:
-            productData.product_images
-              ?.sort(
-                (a: { sort_order?: number }, b: { sort_order?: number }) =>
-                  (a.sort_order ?? 0) - (b.sort_order ?? 0)
-              )
-              .map((img: { url: string }) => img.url) || [],
-          features:
-            productData.product_features?.map(
-              (f: { id: number; feature_text: string }) => ({
-                id: f.id,
-                feature_text: f.feature_text,
-              })
-            ) || [],
-          variants:
-            productData.product_variants?.map((v: any) => ({
-              id: v.id,
-              name: v.name || '',
-              price: v.price ?? undefined,
-              compare_at_price: v.compare_at_price ?? undefined,
-              sku: v.sku ?? undefined,
-              quantity: v.quantity ?? undefined,
-              image_url: v.image_url ?? null,
-              icon_url: v.icon_url ?? null,
-              attributes:
-                v.variant_attributes?.map((attr: any) => ({
-                  id: attr.id,
-                  name: attr.name || '',
-                  value: attr.value || '',
-                })) || [],
-              variant_features:
-                v.variant_features?.map((feat: any) => ({
-                  id: feat.id,
-                  feature_text: feat.feature_text || '',
-                  icon_url: feat.icon_url ?? null,
-                })) || [],
-            })) || [],
-          testimonial_videos:
-            productData.product_testimonial_videos?.map((video: any) => ({
-              id: video.id,
-              video_url: video.video_url,
-              title: video.title || '',
-              description: video.description || '',
-              uploader_name: video.uploader_name || '',
-            })) || [],
-          customer_testimonials:
-            productData.customer_testimonials?.map((test: any) => ({
-              id: test.id,
-              customer_name: test.customer_name || '',
-              testimonial_text: test.testimonial_text || '',
-              rating: test.rating ?? null,
-              customer_image_url: test.customer_image_url || null,
-            })) || [],
-          tags: fetchedTags,
-          faqs:
-            productData.product_faqs?.map((faq: any) => ({
-              id: faq.faq_id,
-              question: faq.question || '',
-              answer: faq.answer || '',
-            })) || [],
-        };
+        const formData = productToFormValues(productData);
 
         console.log(
           '[EditProductPage:useEffect:FetchProduct] Form data prepared:',
@@ -435,6 +407,7 @@ export default function EditProductPage({ params }: EditProductPageProps) {
         );
 
         form.reset(formData);
+        setLoadedValues(formData);
 
         if (formData.category_id) {
           const categoryIdNum = parseInt(formData.category_id);
@@ -487,6 +460,7 @@ export default function EditProductPage({ params }: EditProductPageProps) {
     router,
     toast,
     supabase,
+    reloadCount,
   ]);
 
   useEffect(() => {
@@ -537,32 +511,21 @@ export default function EditProductPage({ params }: EditProductPageProps) {
     }
   }, [form.watch('name')]);
 
-  // Function to ensure slug uniqueness
-  const ensureUniqueSlug = async (
-    baseSlug: string,
-    currentProductId?: number
-  ) => {
-    let slug = baseSlug;
-    let counter = 1;
-    let isUnique = false;
-
-    while (!isUnique) {
-      const { data: existingProduct } = await supabase
-        .from('products')
-        .select('products_id')
-        .eq('slug', slug)
-        .neq('products_id', currentProductId || 0)
-        .maybeSingle();
-
-      if (!existingProduct) {
-        isUnique = true;
-      } else {
-        slug = `${baseSlug}-${counter}`;
-        counter++;
-      }
-    }
-
-    return slug;
+  // Builds the /api/products/update body, shared by saving and the change preview
+  const buildUpdatePayload = (values: ProductFormValues, id: number) => {
+    // The server regenerates the slug from a changed name, so the slug is
+    // only sent when the editor typed one (a cleared slug is regenerated too)
+    const { dirtyFields } = form.formState;
+
+    return {
+      ...formValuesToUpdate(values),
+      name: dirtyFields.name || dirtyFields.slug ? values.name : undefined,
+      slug: dirtyFields.slug ? values.slug : undefined,
+      products_id: id, // Include the product ID
+      updated_at: loadedUpdatedAt,
+      // The form as loaded, so a conflict only flags fields both editors changed
+      base: loadedValues ? formValuesToUpdate(loadedValues) : undefined,
+    };
   };
 
   const onSubmit = async (values: ProductFormValues) => {
@@ -575,68 +538,45 @@ export default function EditProductPage({ params }: EditProductPageProps) {
       return;
     }
 
-    setIsSubmitting(true);
-
-    // Apply generateSlug to ensure the slug is correctly formatted if name changed
-    if (form.formState.dirtyFields.name) {
-      values.slug = generateSlug(values.name);
-    } else {
-      values.slug = form.getValues('slug'); // Keep original slug if name didn't change
-    }
+    await saveProduct(buildUpdatePayload(values, productId));
+  };
 
-    // Prepare payload, ensuring correct types and including product ID
-    const payload = {
-      ...values,
-      products_id: productId, // Include the product ID
-      price: Number(values.price) || 0,
-      compare_at_price: values.compare_at_price
-        ? Number(values.compare_at_price)
-        : null,
-      cost_price: values.cost_price ? Number(values.cost_price) : null,
-      initial_stock: values.initial_stock ? Number(values.initial_stock) : null,
-      quantity: Number(values.quantity) || 0,
-      low_stock_threshold: values.low_stock_threshold
-        ? Number(values.low_stock_threshold)
-        : null,
-      reserved_quantity: values.reserved_quantity
-        ? Number(values.reserved_quantity)
-        : null,
-      max_stock: values.max_stock ? Number(values.max_stock) : null,
-      weight: values.weight ? Number(values.weight) : null,
-      dimensions_length: values.dimensions_length
-        ? Number(values.dimensions_length)
-        : null,
-      dimensions_width: values.dimensions_width
-        ? Number(values.dimensions_width)
-        : null,
-      dimensions_height: values.dimensions_height
-        ? Number(values.dimensions_height)
-        : null,
-      category_id: values.category_id ? parseInt(values.category_id, 10) : null,
-      subcategory_id: values.subcategory_id
-        ? parseInt(values.subcategory_id, 10)
-        : null,
-      brand_id: values.brand_id ? parseInt(values.brand_id, 10) : null,
-      // Remove fields not meant for direct update or calculated fields
-    };
+  // Saves a revision from the History tab as the current version, through
+  // the same update (and revalidation) as the Save button
+  const restoreRevision = async (revision: ProductRevision) => {
+    if (!productId) return;
+    const values = productToFormValues(revision.snapshot);
+    form.reset(values);
+    await saveProduct({
+      ...buildUpdatePayload(values, productId),
+      // Restored as they were, not regenerated
+      name: values.name,
+      slug: values.slug,
+      restored_from: revision.id,
+    });
+  };
 
-    // Remove fields that shouldn't be sent in the update
-    delete payload.rating_average;
-    delete payload.rating_count;
-    // Add any other fields that are managed separately or read-only
+  // Posts an update; a 409 opens the conflict dialog instead of failing
+  const saveProduct = async (payload: Record<string, any>) => {
+    setIsSubmitting(true);
 
     try {
       // Call the internal API endpoint
       const response = await fetch('/api/products/update', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        // The signed-in admin is recorded as the revision's author
+        headers: await getAdminAuthHeaders(),
         body: JSON.stringify(payload),
       });
 
       const result = await response.json();
 
+      if (response.status === 409 && result.conflict) {
+        setConflictPayload(payload);
+        setConflict(result.conflict);
+        return;
+      }
+
       if (!response.ok) {
         const errorMessage = result.error || 'Failed to update product';
         const errorDetails = result.details
@@ -647,16 +587,24 @@ export default function EditProductPage({ params }: EditProductPageProps) {
 
       toast({
         title: 'Product updated successfully',
-        description: `Product "${values.name}" has been updated.`,
+        description: `Product "${result.updatedProduct?.name || form.getValues('name')}" has been updated.`,
       });
 
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
+
       // If the slug changed, we might need to redirect to the new slug URL
-      const updatedSlug = result.updatedProduct?.slug || values.slug;
+      const updatedSlug = result.updatedProduct?.slug || payload.slug;
       if (resolvedParams.slug !== updatedSlug) {
         router.push(`/products/${updatedSlug}/edit`);
       } else {
-        // Optionally refresh data if staying on the same page
-        // router.refresh();
+        setReloadCount((count) => count + 1);
       }
     } catch (error: any) {
       console.error(
@@ -701,7 +649,11 @@ export default function EditProductPage({ params }: EditProductPageProps) {
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-          <Tabs defaultValue="general" className="space-y-6">
+          <Tabs
+            value={activeTab}
+            onValueChange={setActiveTab}
+            className="space-y-6"
+          >
             <TabsList>
               <TabsTrigger value="general">General</TabsTrigger>
               <TabsTrigger value="variants">Variants</TabsTrigger>
@@ -717,6 +669,7 @@ export default function EditProductPage({ params }: EditProductPageProps) {
               </TabsTrigger>
               <TabsTrigger value="seo">SEO</TabsTrigger>
               <TabsTrigger value="faq">FAQ</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
 
             <TabsContent value="general" className="space-y-6">
@@ -766,8 +719,30 @@ export default function EditProductPage({ params }: EditProductPageProps) {
             <TabsContent value="faq" className="space-y-6">
               <ProductFaqForm form={form} />
             </TabsContent>
+
+            <TabsContent value="history" className="space-y-6">
+              {productId && (
+                <ProductHistoryTab
+                  productId={productId}
+                  currentUpdatedAt={loadedUpdatedAt}
+                  refreshKey={reloadCount}
+                  onRestore={restoreRevision}
+                  disabled={isSubmitting || isLoading}
+                />
+              )}
+            </TabsContent>
           </Tabs>
 
+          <ChangePreviewPanel
+            endpoint="/api/products/update"
+            getPayload={() =>
+              productId
+                ? buildUpdatePayload({ ...form.getValues() }, productId)
+                : null
+            }
+            disabled={isSubmitting || isLoading}
+          />
+
           <div className="flex justify-end">
             <Button type="submit" disabled={isSubmitting || isLoading}>
               {isSubmitting ? (
@@ -780,6 +755,21 @@ export default function EditProductPage({ params }: EditProductPageProps) {
           </div>
         </form>
       </Form>
+
+      <EditConflictDialog
+        conflict={conflict}
+        payload={conflictPayload}
+        saving={isSubmitting}
+        onSave={(merged) => {
+          setConflict(null);
+          saveProduct(merged);
+        }}
+        onReload={() => {
+          setConflict(null);
+          setReloadCount((count) => count + 1);
+        }}
+        onCancel={() => setConflict(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,110 @@
+// Maps a product loaded with its related tables (the edit page's query, or
+// a revision snapshot, see lib/productRevisions.ts) to edit form values.
+
+// Define the type for tags fetched from Supabase
+interface ProductTag {
+  tag_text: string;
+}
+
+/**
+ * Turns a product row with its related tables embedded into the values of
+ * the product edit form.
+ *
+ * @param productData - The product with `product_images`, `product_variants`, etc.
+ * @returns The form values, ready for `form.reset`.
+ */
+export function productToFormValues(productData: any) {
+  // Fetch tags separately if needed or rely on the joined data
+  const fetchedTags: string[] =
+    productData.product_tags?.map((tag: ProductTag) => tag.tag_text) || [];
+
+  return {
+    ...productData,
+    category_id: productData.category_id?.toString() || undefined,
+    subcategory_id: productData.subcategory_id?.toString() || undefined,
+    brand_id: productData.brand_id?.toString() || undefined,
+    mark: productData.mark ?? null,
+    seo_keywords: productData.seo_keywords?.join(', ') || '',
+    initial_stock: productData.initial_stock ?? undefined,
+    rating_average: productData.rating_average ?? undefined,
+    rating_count: productData.rating_count ?? undefined,
+    // Handle shipping fields based on shipping_required
+    shipping_class: productData.shipping_required
+      ? productData.shipping_class
+      : null,
+    weight: productData.shipping_required ? productData.weight : null,
+    weight_unit: productData.shipping_required ? productData.weight_unit : null,
+    dimensions_length: productData.shipping_required
+      ? productData.dimensions_length
+      : null,
+    dimensions_width: productData.shipping_required
+      ? productData.dimensions_width
+      : null,
+    dimensions_height: productData.shipping_required
+      ? productData.dimensions_height
+      : null,
+    dimensions_unit: productData.shipping_required
+      ? productData.dimensions_unit
+      : null,
+    images:
+      productData.product_images
+        ?.sort(
+          (a: { sort_order?: number }, b: { sort_order?: number }) =>
+            (a.sort_order ?? 0) - (b.sort_order ?? 0)
+        )
+        .map((img: { url: string }) => img.url) || [],
+    features:
+      productData.product_features?.map(
+        (f: { id: number; feature_text: string }) => ({
+          id: f.id,
+          feature_text: f.feature_text,
+        })
+      ) || [],
+    variants:
+      productData.product_variants?.map((v: any) => ({
+        id: v.id,
+        name: v.name || '',
+        price: v.price ?? undefined,
+        compare_at_price: v.compare_at_price ?? undefined,
+        sku: v.sku ?? undefined,
+        quantity: v.quantity ?? undefined,
+        image_url: v.image_url ?? null,
+        icon_url: v.icon_url ?? null,
+        attributes:
+          v.variant_attributes?.map((attr: any) => ({
+            id: attr.id,
+            name: attr.name || '',
+            value: attr.value || '',
+          })) || [],
+        variant_features:
+          v.variant_features?.map((feat: any) => ({
+            id: feat.id,
+            feature_text: feat.feature_text || '',
+            icon_url: feat.icon_url ?? null,
+          })) || [],
+      })) || [],
+    testimonial_videos:
+      productData.product_testimonial_videos?.map((video: any) => ({
+        id: video.id,
+        video_url: video.video_url,
+        title: video.title || '',
+        description: video.description || '',
+        uploader_name: video.uploader_name || '',
+      })) || [],
+    customer_testimonials:
+      productData.customer_testimonials?.map((test: any) => ({
+        id: test.id,
+        customer_name: test.customer_name || '',
+        testimonial_text: test.testimonial_text || '',
+        rating: test.rating ?? null,
+        customer_image_url: test.customer_image_url || null,
+      })) || [],
+    tags: fetchedTags,
+    faqs:
+      productData.product_faqs?.map((faq: any) => ({
+        id: faq.faq_id,
+        question: faq.question || '',
+        answer: faq.answer || '',
+      })) || [],
+  };
+}
@@ -433,6 +433,38 @@ export function ProductGeneralForm({
               </FormItem>
             )}
           />
+
+          <FormField
+            control={control}
+            name="published_locales"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Published Locales</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="All locales"
+                    defaultValue={field.value ? field.value.join(', ') : ''}
+                    onChange={(e) => {
+                      const locales = e.target.value
+                        .split(',')
+                        .map((locale) => locale.trim())
+                        .filter((locale) => locale !== '');
+                      field.onChange(locales.length > 0 ? locales : null);
+                    }}
+                    name={field.name}
+                    onBlur={field.onBlur}
+                    ref={field.ref}
+                    disabled={field.disabled}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Comma-separated locale codes, e.g. en, fr. Leave empty to
+                  publish in every locale the storefronts serve.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
       </CardContent>
     </Card>
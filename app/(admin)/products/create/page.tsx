@@ -6,7 +6,7 @@ import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Loader2, Save, ArrowLeft } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
+import { getAdminAuthHeaders, supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -31,6 +31,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { ImageUploader } from '@/components/image-uploader';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 import { Separator } from '@/components/ui/separator';
 import { UseFormReturn, Control, UseFormWatch } from 'react-hook-form';
 import { ProductGeneralForm } from './components/ProductGeneralForm';
@@ -110,6 +111,7 @@ export default function CreateProductPage() {
       customer_testimonials: [],
       featured_in_collection_slug: null,
       tags: [],
+      published_locales: null,
       faqs: [],
     },
   });
@@ -207,13 +209,12 @@ export default function CreateProductPage() {
   const onSubmit = async (values: ProductFormValues) => {
     setIsSubmitting(true);
 
-    // Basic client-side validation or transformations can remain if needed
-    const formattedSlug = generateSlug(values.name);
-    values.slug = formattedSlug;
-
     // Ensure numeric fields that can be null/undefined are handled
     const payload = {
       ...values,
+      // The slug filled in from the name is only a preview; the server builds
+      // it from the name unless the editor typed one
+      slug: form.formState.dirtyFields.slug ? values.slug : undefined,
       price: Number(values.price) || 0,
       compare_at_price: values.compare_at_price
         ? Number(values.compare_at_price)
@@ -255,9 +256,8 @@ export default function CreateProductPage() {
       // Call the internal API endpoint
       const response = await fetch('/api/products/create', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        // The signed-in admin is recorded as the revision's author
+        headers: await getAdminAuthHeaders(),
         body: JSON.stringify(payload),
       });
 
@@ -277,6 +277,15 @@ export default function CreateProductPage() {
         description: `Product "${values.name}" has been added.`,
       });
 
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
+
       // Optionally redirect to the new product's edit page or the product list
       // Using the slug returned from the API if needed
       const newProductSlug = result.product?.slug || values.slug;
@@ -26,6 +26,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -150,9 +151,10 @@ export default function ProductsPage() {
         body: JSON.stringify({ id }),
       });
 
+      const result = await response.json();
+
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete product');
+        throw new Error(result.error || 'Failed to delete product');
       }
 
       // Remove the product from the local state
@@ -162,6 +164,15 @@ export default function ProductsPage() {
         title: 'Product deleted',
         description: 'The product has been deleted successfully.',
       });
+
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
     } catch (error: any) {
       toast({
         variant: 'destructive',
@@ -186,6 +186,8 @@ export const productFormSchema = z
       .default([]),
     featured_in_collection_slug: z.string().optional().nullable(),
     tags: z.array(z.string().trim().min(1)).optional(),
+    // Locales the product is published in; null publishes it in all of them
+    published_locales: z.array(z.string().trim().min(1)).nullable().optional(),
     // Add the faqs array field
     faqs: z.array(faqItemSchema).optional(),
   })
@@ -0,0 +1,419 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, CheckCircle2, Eye, Loader2, XCircle } from 'lucide-react';
+import { getAdminAuthHeaders, supabase } from '@/lib/supabase';
+import type {
+  PlannedRevalidationDelivery,
+  RevalidationTargetResult,
+} from '@/lib/revalidateCustomerApp';
+import { RevalidationJobsCard } from '@/components/revalidation-jobs-card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+
+type EntityType = 'product' | 'category' | 'brand';
+
+interface EntityOption {
+  id: number;
+  name: string;
+}
+
+// Where the picker loads each entity type from
+const ENTITY_SOURCES: Record<
+  EntityType,
+  { table: 'products' | 'categories' | 'brands'; idColumn: string }
+> = {
+  product: { table: 'products', idColumn: 'products_id' },
+  category: { table: 'categories', idColumn: 'categories_id' },
+  brand: { table: 'brands', idColumn: 'brands_id' },
+};
+
+type TargetRun =
+  | { state: 'pending' }
+  | { state: 'done'; result: RevalidationTargetResult }
+  | { state: 'error'; error: string };
+
+export default function RevalidationConsolePage() {
+  const [mode, setMode] = useState<'paths' | 'entity'>('paths');
+  const [pathsInput, setPathsInput] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [entityType, setEntityType] = useState<EntityType>('product');
+  const [entityOptions, setEntityOptions] = useState<EntityOption[]>([]);
+  const [entityId, setEntityId] = useState<string>('');
+  const [previewing, setPreviewing] = useState(false);
+  const [deliveries, setDeliveries] = useState<PlannedRevalidationDelivery[]>(
+    []
+  );
+  const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
+  const [runs, setRuns] = useState<Record<string, TargetRun>>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEntityOptions(entityType);
+  }, [entityType]);
+
+  async function fetchEntityOptions(type: EntityType) {
+    const { table, idColumn } = ENTITY_SOURCES[type];
+    const { data, error } = await supabase
+      .from(table)
+      .select(`${idColumn}, name`)
+      .order('name', { ascending: true });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: `Error fetching ${table}`,
+        description: error.message,
+      });
+      return;
+    }
+
+    setEntityId('');
+    setEntityOptions(
+      (data || []).map((row: any) => ({ id: row[idColumn], name: row.name }))
+    );
+  }
+
+  function buildRequestBody() {
+    const tags = tagsInput
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
+    if (mode === 'entity') {
+      return { entity: { type: entityType, id: Number(entityId) }, tags };
+    }
+    return {
+      paths: pathsInput
+        .split('\n')
+        .map((path) => path.trim())
+        .filter(Boolean),
+      tags,
+    };
+  }
+
+  async function handlePreview() {
+    if (mode === 'entity' && !entityId) {
+      toast({
+        variant: 'destructive',
+        title: 'Nothing selected',
+        description: `Pick a ${entityType} to revalidate.`,
+      });
+      return;
+    }
+
+    setPreviewing(true);
+    setRuns({});
+    try {
+      const response = await fetch('/api/revalidate', {
+        method: 'POST',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify({ ...buildRequestBody(), preview: true }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const fieldErrors = result.details?.formErrors?.join(' ');
+        throw new Error(
+          fieldErrors || result.error || 'Failed to preview revalidation'
+        );
+      }
+
+      const planned: PlannedRevalidationDelivery[] = result.deliveries || [];
+      setDeliveries(planned);
+      const skipped: RevalidationTargetResult[] = result.skipped || [];
+      if (skipped.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Some storefronts cannot be revalidated',
+          description: skipped.map((target) => target.error).join(' '),
+        });
+      }
+      setSelectedTargets(
+        planned
+          .filter((delivery) => delivery.payload.paths || delivery.payload.tags)
+          .map((delivery) => delivery.targetUrl)
+      );
+    } catch (error: any) {
+      console.error('[handlePreview:CatchBlock] Error previewing:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error Previewing Revalidation',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  // One request per target, so each result shows up as soon as it arrives
+  async function revalidateTarget(targetUrl: string) {
+    setRuns((current) => ({ ...current, [targetUrl]: { state: 'pending' } }));
+    try {
+      const response = await fetch('/api/revalidate', {
+        method: 'POST',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify({ ...buildRequestBody(), targets: [targetUrl] }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revalidate');
+      }
+
+      const [targetResult] = result.revalidation?.targets || [];
+      setRuns((current) => ({
+        ...current,
+        [targetUrl]: targetResult
+          ? { state: 'done', result: targetResult }
+          : {
+              state: 'error',
+              error: result.revalidation?.error || 'Nothing was sent',
+            },
+      }));
+    } catch (error: any) {
+      setRuns((current) => ({
+        ...current,
+        [targetUrl]: { state: 'error', error: error.message },
+      }));
+    }
+  }
+
+  function handleRevalidate() {
+    selectedTargets.forEach((targetUrl) => revalidateTarget(targetUrl));
+  }
+
+  const isRunning = Object.values(runs).some((run) => run.state === 'pending');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Manual Revalidation
+          </h1>
+          <p className="text-muted-foreground">
+            Refresh storefront pages that went stale outside the admin
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/revalidation">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            History
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>What to revalidate</CardTitle>
+          <CardDescription>
+            Enter storefront paths, or pick an entity to revalidate every page
+            that shows it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs
+            value={mode}
+            onValueChange={(value) => setMode(value as 'paths' | 'entity')}
+          >
+            <TabsList>
+              <TabsTrigger value="paths">Paths</TabsTrigger>
+              <TabsTrigger value="entity">Entity</TabsTrigger>
+            </TabsList>
+            <TabsContent value="paths" className="space-y-2">
+              <Label htmlFor="paths">Paths (one per line)</Label>
+              <Textarea
+                id="paths"
+                rows={5}
+                placeholder={'/\n/products/some-product'}
+                value={pathsInput}
+                onChange={(event) => setPathsInput(event.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Paths are sent as-is to every storefront that receives paths.
+              </p>
+            </TabsContent>
+            <TabsContent value="entity" className="flex flex-wrap gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={entityType}
+                  onValueChange={(value) => setEntityType(value as EntityType)}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="product">Product</SelectItem>
+                    <SelectItem value="category">Category</SelectItem>
+                    <SelectItem value="brand">Brand</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{`Select ${entityType}`}</Label>
+                <Select value={entityId} onValueChange={setEntityId}>
+                  <SelectTrigger className="w-[320px]">
+                    <SelectValue placeholder={`Choose a ${entityType}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entityOptions.map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="tags">Extra cache tags (comma-separated)</Label>
+            <Input
+              id="tags"
+              placeholder="e.g. product:123, brands"
+              value={tagsInput}
+              onChange={(event) => setTagsInput(event.target.value)}
+            />
+          </div>
+
+          <Button onClick={handlePreview} disabled={previewing}>
+            {previewing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Eye className="mr-2 h-4 w-4" />
+            )}
+            Preview
+          </Button>
+        </CardContent>
+      </Card>
+
+      {deliveries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Storefronts</CardTitle>
+            <CardDescription>
+              What each storefront will be sent. Untick a storefront to skip it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {deliveries.map((delivery) => {
+              const paths = delivery.payload.paths || [];
+              const tags = delivery.payload.tags || [];
+              const isEmpty = paths.length === 0 && tags.length === 0;
+              const run = runs[delivery.targetUrl];
+
+              return (
+                <div
+                  key={delivery.targetUrl}
+                  className="space-y-2 rounded-md border p-4"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={delivery.targetUrl}
+                        disabled={isEmpty}
+                        checked={selectedTargets.includes(delivery.targetUrl)}
+                        onCheckedChange={(checked) =>
+                          setSelectedTargets((current) =>
+                            checked
+                              ? [...current, delivery.targetUrl]
+                              : current.filter(
+                                  (url) => url !== delivery.targetUrl
+                                )
+                          )
+                        }
+                      />
+                      <Label
+                        htmlFor={delivery.targetUrl}
+                        className="font-medium"
+                      >
+                        {delivery.targetUrl}
+                      </Label>
+                      <Badge variant="secondary">
+                        {delivery.revalidationMode}
+                      </Badge>
+                    </div>
+                    {run?.state === 'pending' && (
+                      <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                    )}
+                    {run?.state === 'done' && run.result.ok && (
+                      <span className="flex items-center text-sm text-green-600">
+                        <CheckCircle2 className="mr-1 h-4 w-4" />
+                        {run.result.status ?? 'OK'} · {run.result.latencyMs} ms
+                      </span>
+                    )}
+                    {run?.state === 'done' && !run.result.ok && (
+                      <span className="flex items-center text-sm text-destructive">
+                        <XCircle className="mr-1 h-4 w-4" />
+                        {run.result.status
+                          ? `HTTP ${run.result.status}`
+                          : 'No response'}
+                        {run.result.retryScheduled && ' · retry scheduled'}
+                      </span>
+                    )}
+                    {run?.state === 'error' && (
+                      <span className="flex items-center text-sm text-destructive">
+                        <XCircle className="mr-1 h-4 w-4" />
+                        {run.error}
+                      </span>
+                    )}
+                  </div>
+                  {isEmpty ? (
+                    <p className="text-sm text-muted-foreground">
+                      Nothing to send to this storefront.
+                    </p>
+                  ) : (
+                    <pre className="max-h-40 overflow-auto rounded-md bg-muted p-3 text-xs">
+                      {[...paths, ...tags.map((tag) => `tag: ${tag}`)].join(
+                        '\n'
+                      )}
+                    </pre>
+                  )}
+                  {run?.state === 'done' && run.result.error && (
+                    <p className="text-xs text-destructive">
+                      {run.result.error}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+
+            <Button
+              onClick={handleRevalidate}
+              disabled={selectedTargets.length === 0 || isRunning}
+            >
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Revalidate {selectedTargets.length} storefront(s)
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <RevalidationJobsCard />
+    </div>
+  );
+}
@@ -0,0 +1,577 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { ColumnDef } from '@tanstack/react-table';
+import { format } from 'date-fns';
+import { Loader2, RefreshCw, RotateCcw, Send } from 'lucide-react';
+import { getAdminAuthHeaders, supabase } from '@/lib/supabase';
+import type { RevalidationLogEntry } from '@/lib/revalidationLog';
+import type { RevalidationCircuitBreaker } from '@/lib/revalidationCircuitBreaker';
+import type { RevalidationWarmup } from '@/lib/revalidationWarmup';
+import type {
+  RevalidationPayload,
+  RevalidationTrigger,
+} from '@/lib/revalidateCustomerApp';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
+import { DataTable } from '@/components/data-table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+const ENTITY_FILTERS = [
+  { value: 'all', label: 'All entities' },
+  { value: 'product', label: 'Products' },
+  { value: 'category', label: 'Categories' },
+  { value: 'subcategory', label: 'Subcategories' },
+  { value: 'brand', label: 'Brands' },
+  { value: 'testimonial', label: 'Testimonials' },
+];
+
+// The newest entries are what people look for; older ones are in the table
+const HISTORY_LIMIT = 500;
+// Broken pages found by the warm-up crawl that are shown above the history
+const BROKEN_PAGES_LIMIT = 20;
+
+function getTriggers(entry: RevalidationLogEntry): RevalidationTrigger[] {
+  return Array.isArray(entry.triggers)
+    ? (entry.triggers as unknown as RevalidationTrigger[])
+    : [];
+}
+
+function getPayload(entry: RevalidationLogEntry): RevalidationPayload {
+  return (entry.payload as RevalidationPayload) || {};
+}
+
+function BreakerStateBadge({
+  breaker,
+}: {
+  breaker: RevalidationCircuitBreaker;
+}) {
+  if (breaker.state === 'open') {
+    return (
+      <Badge variant="destructive">
+        Paused
+        {breaker.open_until &&
+          ` until ${format(new Date(breaker.open_until), 'HH:mm:ss')}`}
+      </Badge>
+    );
+  }
+  if (breaker.state === 'half_open') {
+    return <Badge variant="secondary">Testing</Badge>;
+  }
+  return <Badge>Healthy</Badge>;
+}
+
+export default function RevalidationHistoryPage() {
+  const [entries, setEntries] = useState<RevalidationLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [entityFilter, setEntityFilter] = useState('all');
+  const [targetFilter, setTargetFilter] = useState('');
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [resendingId, setResendingId] = useState<number | null>(null);
+  const [breakers, setBreakers] = useState<RevalidationCircuitBreaker[]>([]);
+  const [resettingTarget, setResettingTarget] = useState<string | null>(null);
+  const [brokenPages, setBrokenPages] = useState<RevalidationWarmup[]>([]);
+  const [selectedEntry, setSelectedEntry] =
+    useState<RevalidationLogEntry | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchHistory();
+  }, [entityFilter, failedOnly]);
+
+  useEffect(() => {
+    fetchBreakers();
+    fetchBrokenPages();
+  }, []);
+
+  async function fetchBreakers() {
+    const { data, error } = await supabase
+      .from('revalidation_circuit_breakers')
+      .select('*')
+      .order('target_url', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching circuit breakers:', error);
+      return;
+    }
+    setBreakers(data || []);
+  }
+
+  async function fetchBrokenPages() {
+    const { data, error } = await supabase
+      .from('revalidation_warmups')
+      .select('*')
+      .eq('flagged', true)
+      .order('created_at', { ascending: false })
+      .limit(BROKEN_PAGES_LIMIT);
+
+    if (error) {
+      console.error('Error fetching warm-up results:', error);
+      return;
+    }
+    setBrokenPages(data || []);
+  }
+
+  async function handleResetBreaker(targetUrl: string) {
+    setResettingTarget(targetUrl);
+    try {
+      const response = await fetch('/api/revalidation/circuit-breakers/reset', {
+        method: 'POST',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify({ targetUrl }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to reset circuit breaker');
+      }
+
+      toast({
+        title: 'Storefront resumed',
+        description: `Postponed revalidations for ${targetUrl} will be sent on the next outbox run.`,
+      });
+      fetchBreakers();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error Resetting Circuit Breaker',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setResettingTarget(null);
+    }
+  }
+
+  async function fetchHistory() {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('revalidation_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (entityFilter !== 'all') {
+        query = query.contains('triggers', [{ entity: entityFilter }]);
+      }
+      if (targetFilter.trim()) {
+        query = query.ilike('target_url', `%${targetFilter.trim()}%`);
+      }
+      if (failedOnly) {
+        query = query.eq('ok', false);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      setEntries(data || []);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error fetching revalidation history',
+        description: error.message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleResend(entry: RevalidationLogEntry) {
+    setResendingId(entry.id);
+    try {
+      const response = await fetch('/api/revalidation/history/resend', {
+        method: 'POST',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify({ id: entry.id }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to re-send revalidation');
+      }
+
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      } else {
+        toast({
+          title: 'Revalidation re-sent',
+          description: `${entry.target_url} accepted the request.`,
+        });
+      }
+
+      fetchHistory();
+    } catch (error: any) {
+      console.error(
+        '[handleResend:CatchBlock] Error re-sending revalidation:',
+        error
+      );
+      toast({
+        variant: 'destructive',
+        title: 'Error Re-sending Revalidation',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setResendingId(null);
+    }
+  }
+
+  const columns: ColumnDef<RevalidationLogEntry>[] = [
+    {
+      accessorKey: 'created_at',
+      header: 'Time',
+      cell: ({ row }) =>
+        format(new Date(row.original.created_at), 'yyyy-MM-dd HH:mm:ss'),
+    },
+    {
+      accessorKey: 'target_url',
+      header: 'Target',
+      cell: ({ row }) => (
+        <div className="max-w-[220px] truncate font-medium">
+          {row.original.target_url}
+        </div>
+      ),
+    },
+    {
+      id: 'trigger',
+      header: 'Trigger',
+      cell: ({ row }) => {
+        const triggers = getTriggers(row.original);
+        if (triggers.length === 0) {
+          return <span className="text-muted-foreground">Unknown</span>;
+        }
+        const [first] = triggers;
+        return (
+          <div className="text-sm">
+            <div>
+              {first.entity
+                ? `${first.entity} #${first.entityId ?? '?'}`
+                : first.source}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {first.source}
+              {triggers.length > 1 && ` (+${triggers.length - 1} more)`}
+            </div>
+          </div>
+        );
+      },
+    },
+    {
+      id: 'payload',
+      header: 'Paths / Tags',
+      cell: ({ row }) => {
+        const payload = getPayload(row.original);
+        const paths = payload.paths || (payload.path ? [payload.path] : []);
+        const tags = payload.tags || [];
+        return (
+          <div className="max-w-[260px] truncate text-sm">
+            {[...paths, ...tags].join(', ') || '—'}
+          </div>
+        );
+      },
+    },
+    {
+      accessorKey: 'ok',
+      header: 'Status',
+      cell: ({ row }) => {
+        const { ok, status_code } = row.original;
+        return (
+          <Badge variant={ok ? 'default' : 'destructive'}>
+            {status_code ?? (ok ? 'OK' : 'No response')}
+          </Badge>
+        );
+      },
+    },
+    {
+      accessorKey: 'duration_ms',
+      header: 'Duration',
+      cell: ({ row }) => `${row.original.duration_ms} ms`,
+    },
+    {
+      id: 'actions',
+      cell: ({ row }) => {
+        const entry = row.original;
+        return (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelectedEntry(entry)}
+            >
+              Details
+            </Button>
+            {!entry.ok && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={resendingId === entry.id}
+                onClick={() => handleResend(entry)}
+              >
+                {resendingId === entry.id ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                )}
+                Resend
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Revalidation History
+          </h1>
+          <p className="text-muted-foreground">
+            Every revalidation request sent to the storefronts
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              fetchHistory();
+              fetchBreakers();
+              fetchBrokenPages();
+            }}
+            disabled={loading}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button asChild>
+            <Link href="/revalidation/console">
+              <Send className="mr-2 h-4 w-4" />
+              Manual Revalidation
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {breakers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Storefronts</CardTitle>
+            <CardDescription>
+              A storefront that keeps failing is paused for a while; its
+              revalidations wait in the retry queue until it recovers.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {breakers.map((breaker) => (
+              <div
+                key={breaker.target_url}
+                className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">
+                      {breaker.target_url}
+                    </span>
+                    <BreakerStateBadge breaker={breaker} />
+                  </div>
+                  {breaker.consecutive_failures > 0 && (
+                    <p className="truncate text-xs text-muted-foreground">
+                      {breaker.consecutive_failures} consecutive failure(s)
+                      {breaker.last_error && ` · ${breaker.last_error}`}
+                    </p>
+                  )}
+                </div>
+                {breaker.state !== 'closed' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={resettingTarget === breaker.target_url}
+                    onClick={() => handleResetBreaker(breaker.target_url)}
+                  >
+                    {resettingTarget === breaker.target_url && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Resume
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {brokenPages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Broken pages after revalidation</CardTitle>
+            <CardDescription>
+              Pages the warm-up crawl fetched right after a revalidation that
+              came back as a 404, a server error or not at all.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {brokenPages.map((page) => (
+              <div
+                key={page.id}
+                className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="destructive">
+                      {page.status_code ?? 'No response'}
+                    </Badge>
+                    <a
+                      href={new URL(page.path, page.target_url).toString()}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="truncate font-medium hover:underline"
+                    >
+                      {page.target_url}
+                      {page.path}
+                    </a>
+                  </div>
+                  {page.error && (
+                    <p className="truncate text-xs text-muted-foreground">
+                      {page.error}
+                    </p>
+                  )}
+                </div>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {format(new Date(page.created_at), 'yyyy-MM-dd HH:mm:ss')}
+                  {page.ttfb_ms !== null && ` · TTFB ${page.ttfb_ms} ms`}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Entity</Label>
+          <Select value={entityFilter} onValueChange={setEntityFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENTITY_FILTERS.map((filter) => (
+                <SelectItem key={filter.value} value={filter.value}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="target-filter">Target</Label>
+          <Input
+            id="target-filter"
+            placeholder="e.g. shop.example.com"
+            value={targetFilter}
+            onChange={(event) => setTargetFilter(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && fetchHistory()}
+            onBlur={fetchHistory}
+            className="w-[260px]"
+          />
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch
+            id="failed-only"
+            checked={failedOnly}
+            onCheckedChange={setFailedOnly}
+          />
+          <Label htmlFor="failed-only">Failures only</Label>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <DataTable columns={columns} data={entries} />
+      )}
+
+      <Dialog
+        open={!!selectedEntry}
+        onOpenChange={(open) => !open && setSelectedEntry(null)}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Revalidation #{selectedEntry?.id}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry?.target_url}
+              {selectedEntry?.attempt && ` · attempt ${selectedEntry.attempt}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-4 text-sm">
+              <div>
+                <h4 className="mb-1 font-medium">Payload</h4>
+                <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(selectedEntry.payload, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <h4 className="mb-1 font-medium">Triggers</h4>
+                <pre className="max-h-32 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(selectedEntry.triggers, null, 2)}
+                </pre>
+              </div>
+              {selectedEntry.error && (
+                <div>
+                  <h4 className="mb-1 font-medium">Error</h4>
+                  <p className="text-destructive">{selectedEntry.error}</p>
+                </div>
+              )}
+              <div>
+                <h4 className="mb-1 font-medium">Response body</h4>
+                <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                  {selectedEntry.response_body || '(empty)'}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
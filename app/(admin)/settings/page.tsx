@@ -0,0 +1,6 @@
+import { redirect } from 'next/navigation';
+
+// Storefronts are the only settings so far
+export default function SettingsPage() {
+  redirect('/settings/storefronts');
+}
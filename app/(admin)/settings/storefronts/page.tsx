@@ -0,0 +1,643 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ColumnDef } from '@tanstack/react-table';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { getAdminAuthHeaders } from '@/lib/supabase';
+import {
+  DEFAULT_ROUTE_TEMPLATES,
+  STOREFRONT_ROUTE_NAMES,
+  type StorefrontLocale,
+  type StorefrontRouteName,
+} from '@/lib/storefrontRoutes';
+import { DataTable } from '@/components/data-table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  REVALIDATION_MODE_OPTIONS,
+  STOREFRONT_ENVIRONMENT_OPTIONS,
+  type StorefrontInput,
+  type StorefrontListItem,
+} from './schema';
+
+// A route template field: empty uses the default, "no page" sends nothing
+interface TemplateField {
+  value: string;
+  disabled: boolean;
+}
+
+interface StorefrontFormState {
+  name: string;
+  base_url: string;
+  environment: StorefrontInput['environment'];
+  secret: string; // Empty keeps the current secret
+  removeSecret: boolean;
+  enabled: boolean;
+  revalidation_mode: StorefrontInput['revalidation_mode'];
+  templates: Record<StorefrontRouteName, TemplateField>;
+  locales: StorefrontLocale[];
+}
+
+function toFormState(storefront?: StorefrontListItem): StorefrontFormState {
+  return {
+    name: storefront?.name ?? '',
+    base_url: storefront?.base_url ?? '',
+    environment: storefront?.environment ?? 'production',
+    secret: '',
+    removeSecret: false,
+    enabled: storefront?.enabled ?? true,
+    revalidation_mode: storefront?.revalidation_mode ?? 'paths',
+    templates: Object.fromEntries(
+      STOREFRONT_ROUTE_NAMES.map((name) => {
+        const override = storefront?.route_templates[name];
+        return [name, { value: override ?? '', disabled: override === null }];
+      })
+    ) as Record<StorefrontRouteName, TemplateField>,
+    locales: storefront?.locales ?? [],
+  };
+}
+
+function toPayload(
+  form: StorefrontFormState,
+  isNew: boolean
+): Partial<StorefrontInput> {
+  const routeTemplates: StorefrontInput['route_templates'] = {};
+  STOREFRONT_ROUTE_NAMES.forEach((name) => {
+    const field = form.templates[name];
+    if (field.disabled) routeTemplates[name] = null;
+    else if (field.value.trim()) routeTemplates[name] = field.value.trim();
+  });
+
+  const payload: Partial<StorefrontInput> = {
+    name: form.name,
+    base_url: form.base_url,
+    environment: form.environment,
+    enabled: form.enabled,
+    revalidation_mode: form.revalidation_mode,
+    route_templates: routeTemplates,
+    // Rows left without a locale code are dropped
+    locales: form.locales.filter(({ locale }) => locale.trim()),
+  };
+  if (form.removeSecret) payload.secret = null;
+  else if (form.secret) payload.secret = form.secret;
+  else if (isNew) payload.secret = null;
+  return payload;
+}
+
+export default function StorefrontSettingsPage() {
+  const [storefronts, setStorefronts] = useState<StorefrontListItem[]>([]);
+  const [fallback, setFallback] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<StorefrontListItem | 'new' | null>(
+    null
+  );
+  const [form, setForm] = useState<StorefrontFormState>(toFormState());
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStorefronts();
+  }, []);
+
+  async function fetchStorefronts() {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/storefronts', {
+        headers: await getAdminAuthHeaders(),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load storefronts');
+      }
+
+      setStorefronts(result.storefronts || []);
+      setFallback(result.fallback || []);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error fetching storefronts',
+        description: error.message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openEditor(storefront: StorefrontListItem | 'new') {
+    setForm(toFormState(storefront === 'new' ? undefined : storefront));
+    setEditing(storefront);
+  }
+
+  async function saveStorefront(
+    id: number | null,
+    payload: Partial<StorefrontInput>
+  ) {
+    const response = await fetch(
+      id ? `/api/storefronts/${id}` : '/api/storefronts',
+      {
+        method: id ? 'PATCH' : 'POST',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify(payload),
+      }
+    );
+    const result = await response.json();
+
+    if (!response.ok) {
+      const errorDetails = result.details
+        ? `: ${JSON.stringify(result.details)}`
+        : '';
+      throw new Error(
+        `${result.error || 'Failed to save storefront'}${errorDetails}`
+      );
+    }
+  }
+
+  async function handleSave() {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const isNew = editing === 'new';
+      await saveStorefront(isNew ? null : editing.id, toPayload(form, isNew));
+      toast({
+        title: isNew ? 'Storefront added' : 'Storefront updated',
+        description: `${form.name} will be used for the next revalidation.`,
+      });
+      setEditing(null);
+      fetchStorefronts();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error Saving Storefront',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleEnabled(storefront: StorefrontListItem) {
+    try {
+      await saveStorefront(storefront.id, { enabled: !storefront.enabled });
+      fetchStorefronts();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error Updating Storefront',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    }
+  }
+
+  async function handleDelete(id: number) {
+    try {
+      const response = await fetch(`/api/storefronts/${id}`, {
+        method: 'DELETE',
+        headers: await getAdminAuthHeaders(),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete storefront');
+      }
+
+      toast({
+        title: 'Storefront deleted',
+        description: 'It will no longer receive revalidation requests.',
+      });
+      fetchStorefronts();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error Deleting Storefront',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setDeleteId(null);
+    }
+  }
+
+  function setTemplate(name: StorefrontRouteName, field: TemplateField) {
+    setForm((current) => ({
+      ...current,
+      templates: { ...current.templates, [name]: field },
+    }));
+  }
+
+  function setLocale(index: number, locale: StorefrontLocale | null) {
+    setForm((current) => ({
+      ...current,
+      locales: locale
+        ? current.locales.map((entry, i) => (i === index ? locale : entry))
+        : current.locales.filter((_, i) => i !== index),
+    }));
+  }
+
+  const columns: ColumnDef<StorefrontListItem>[] = [
+    {
+      accessorKey: 'name',
+      header: 'Name',
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.name}</div>
+          <div className="text-xs text-muted-foreground">
+            {row.original.base_url}
+          </div>
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'environment',
+      header: 'Environment',
+      cell: ({ row }) => (
+        <Badge
+          variant={
+            row.original.environment === 'production' ? 'default' : 'secondary'
+          }
+        >
+          {row.original.environment}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: 'revalidation_mode',
+      header: 'Sends',
+    },
+    {
+      accessorKey: 'locales',
+      header: 'Locales',
+      cell: ({ row }) =>
+        row.original.locales.length > 0 ? (
+          row.original.locales
+            .map(({ locale, prefix }) => `${locale} (${prefix || '/'})`)
+            .join(', ')
+        ) : (
+          <span className="text-muted-foreground">Unprefixed</span>
+        ),
+    },
+    {
+      accessorKey: 'has_secret',
+      header: 'Secret',
+      cell: ({ row }) =>
+        row.original.has_secret ? (
+          'Own secret'
+        ) : (
+          <span className="text-muted-foreground">REVALIDATION_SECRET</span>
+        ),
+    },
+    {
+      accessorKey: 'enabled',
+      header: 'Enabled',
+      cell: ({ row }) => (
+        <Switch
+          checked={row.original.enabled}
+          onCheckedChange={() => handleToggleEnabled(row.original)}
+        />
+      ),
+    },
+    {
+      id: 'actions',
+      cell: ({ row }) => (
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => openEditor(row.original)}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDeleteId(row.original.id)}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Storefronts</h1>
+          <p className="text-muted-foreground">
+            The customer apps that are told to revalidate when the catalog
+            changes
+          </p>
+        </div>
+        <Button onClick={() => openEditor('new')}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Storefront
+        </Button>
+      </div>
+
+      {!loading && storefronts.length === 0 && (
+        <p className="rounded-md border p-4 text-sm text-muted-foreground">
+          No storefronts are registered yet, so revalidation uses
+          CUSTOMER_APP_BASE_URLS
+          {fallback.length > 0 ? ` (${fallback.join(', ')})` : ' (empty)'}. Once
+          a storefront is added here, only the storefronts on this page are
+          used.
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <DataTable columns={columns} data={storefronts} />
+      )}
+
+      <Dialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing === 'new' ? 'Add Storefront' : 'Edit Storefront'}
+            </DialogTitle>
+            <DialogDescription>
+              Changes apply to the next revalidation request.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="storefront-name">Name</Label>
+                <Input
+                  id="storefront-name"
+                  value={form.name}
+                  onChange={(event) =>
+                    setForm({ ...form, name: event.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="storefront-url">Base URL</Label>
+                <Input
+                  id="storefront-url"
+                  placeholder="https://shop.example.com"
+                  value={form.base_url}
+                  onChange={(event) =>
+                    setForm({ ...form, base_url: event.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Environment</Label>
+                <Select
+                  value={form.environment}
+                  onValueChange={(value) =>
+                    setForm({
+                      ...form,
+                      environment: value as StorefrontInput['environment'],
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STOREFRONT_ENVIRONMENT_OPTIONS.map((environment) => (
+                      <SelectItem key={environment} value={environment}>
+                        {environment}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Sends</Label>
+                <Select
+                  value={form.revalidation_mode}
+                  onValueChange={(value) =>
+                    setForm({
+                      ...form,
+                      revalidation_mode:
+                        value as StorefrontInput['revalidation_mode'],
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REVALIDATION_MODE_OPTIONS.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {mode}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="storefront-secret">Secret</Label>
+              <Input
+                id="storefront-secret"
+                type="password"
+                autoComplete="new-password"
+                placeholder={
+                  editing !== 'new' && editing?.has_secret
+                    ? 'Leave empty to keep the current secret'
+                    : 'Leave empty to use REVALIDATION_SECRET'
+                }
+                value={form.secret}
+                disabled={form.removeSecret}
+                onChange={(event) =>
+                  setForm({ ...form, secret: event.target.value })
+                }
+              />
+              {editing !== 'new' && editing?.has_secret && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="remove-secret"
+                    checked={form.removeSecret}
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, removeSecret: !!checked, secret: '' })
+                    }
+                  />
+                  <Label htmlFor="remove-secret" className="font-normal">
+                    Remove its secret and use REVALIDATION_SECRET
+                  </Label>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="storefront-enabled"
+                checked={form.enabled}
+                onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+              />
+              <Label htmlFor="storefront-enabled">Enabled</Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Locales</Label>
+              <p className="text-xs text-muted-foreground">
+                Every page is revalidated once per locale or market, under its
+                prefix (e.g. /fr or /ch/fr; empty for the locale served without
+                one). Products can be limited to some locales. None: pages have
+                no prefix.
+              </p>
+              <div className="space-y-2">
+                {form.locales.map((entry, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <Input
+                      className="h-8 w-28"
+                      placeholder="fr"
+                      value={entry.locale}
+                      onChange={(event) =>
+                        setLocale(index, {
+                          ...entry,
+                          locale: event.target.value,
+                        })
+                      }
+                    />
+                    <Input
+                      className="h-8"
+                      placeholder="/fr"
+                      value={entry.prefix}
+                      onChange={(event) =>
+                        setLocale(index, {
+                          ...entry,
+                          prefix: event.target.value,
+                        })
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setLocale(index, null)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    locales: [...form.locales, { locale: '', prefix: '' }],
+                  })
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Locale
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Path templates</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave empty for the default. Untick routes the storefront has no
+                page for.
+              </p>
+              <div className="space-y-2">
+                {STOREFRONT_ROUTE_NAMES.map((name) => (
+                  <div key={name} className="flex items-center gap-3">
+                    <Checkbox
+                      checked={!form.templates[name].disabled}
+                      onCheckedChange={(checked) =>
+                        setTemplate(name, {
+                          ...form.templates[name],
+                          disabled: !checked,
+                        })
+                      }
+                    />
+                    <span className="w-28 text-sm">{name}</span>
+                    <Input
+                      className="h-8"
+                      placeholder={DEFAULT_ROUTE_TEMPLATES[name] ?? ''}
+                      value={form.templates[name].value}
+                      disabled={form.templates[name].disabled}
+                      onChange={(event) =>
+                        setTemplate(name, {
+                          ...form.templates[name],
+                          value: event.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The storefront will no longer receive revalidation requests.
+              Revalidations already queued for it are still sent.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId && handleDelete(deleteId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import * as z from 'zod';
+import {
+  STOREFRONT_ROUTE_NAMES,
+  type StorefrontLocale,
+  type StorefrontRouteName,
+} from '@/lib/storefrontRoutes';
+import type {
+  RevalidationMode,
+  StorefrontEnvironment,
+} from '@/lib/storefrontConfig';
+import type { Database } from '@/types/supabase';
+
+// Kept here rather than imported from lib/storefrontConfig, which is
+// server-only; the types keep both lists in sync.
+export const STOREFRONT_ENVIRONMENT_OPTIONS: [
+  StorefrontEnvironment,
+  ...StorefrontEnvironment[],
+] = ['production', 'staging'];
+
+export const REVALIDATION_MODE_OPTIONS: [
+  RevalidationMode,
+  ...RevalidationMode[],
+] = ['paths', 'tags', 'both'];
+
+// Route template overrides: a template, or null when the storefront has no
+// such page. Routes left out use the default template.
+const routeTemplatesSchema = z
+  .object(
+    Object.fromEntries(
+      STOREFRONT_ROUTE_NAMES.map((name) => [
+        name,
+        z
+          .string()
+          .trim()
+          .startsWith('/', 'Templates must start with "/"')
+          .nullable()
+          .optional(),
+      ])
+    ) as Record<StorefrontRouteName, z.ZodOptional<z.ZodNullable<z.ZodString>>>
+  )
+  .strict();
+
+// Locales and markets the storefront serves; its pages are revalidated once
+// per entry. An empty prefix is the locale served without one.
+const localesSchema = z
+  .array(
+    z.object({
+      locale: z
+        .string()
+        .trim()
+        .regex(
+          /^[A-Za-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/,
+          'Use a locale code such as "en" or "fr-CH"'
+        ),
+      prefix: z
+        .string()
+        .trim()
+        .transform((prefix) => prefix.replace(/\/+$/, ''))
+        .refine(
+          (prefix) => prefix === '' || /^(\/[A-Za-z0-9_-]+)+$/.test(prefix),
+          'Prefixes look like "/fr" or "/ch/fr" (empty for none)'
+        ),
+    })
+  )
+  .refine(
+    (locales) =>
+      new Set(locales.map(({ prefix }) => prefix)).size === locales.length,
+    'Each prefix can only be used once'
+  );
+
+// Body of POST /api/storefronts and (all fields optional) PATCH /api/storefronts/[id]
+export const storefrontSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  base_url: z
+    .string()
+    .trim()
+    .url('Please enter a valid URL.')
+    .transform((url) => url.replace(/\/+$/, '')),
+  environment: z.enum(STOREFRONT_ENVIRONMENT_OPTIONS).default('production'),
+  // A new secret, or null to sign with REVALIDATION_SECRET. Left out on
+  // update, the current secret is kept.
+  secret: z
+    .string()
+    .min(16, 'Secrets must be at least 16 characters')
+    .nullable()
+    .optional(),
+  enabled: z.boolean().default(true),
+  revalidation_mode: z.enum(REVALIDATION_MODE_OPTIONS).default('paths'),
+  route_templates: routeTemplatesSchema.default({}),
+  locales: localesSchema.default([]),
+});
+
+export type StorefrontInput = z.infer<typeof storefrontSchema>;
+
+// What the storefronts API returns: the row without its secret
+export interface StorefrontListItem {
+  id: number;
+  name: string;
+  base_url: string;
+  environment: StorefrontEnvironment;
+  enabled: boolean;
+  revalidation_mode: RevalidationMode;
+  route_templates: Partial<Record<StorefrontRouteName, string | null>>;
+  locales: StorefrontLocale[];
+  has_secret: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Secrets never leave the server; the settings page only needs to know
+// whether one is set.
+export function toStorefrontListItem({
+  secret,
+  route_templates,
+  locales,
+  ...storefront
+}: Database['public']['Tables']['storefronts']['Row']): StorefrontListItem {
+  return {
+    ...storefront,
+    route_templates: (route_templates ||
+      {}) as StorefrontListItem['route_templates'],
+    locales: (locales || []) as unknown as StorefrontLocale[],
+    has_secret: !!secret,
+  };
+}
@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import slugify from 'slugify';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import { buildDryRunResult, isDryRun } from '@/lib/revalidationDryRun';
+import { computeEntityRevalidation } from '@/lib/revalidationPaths';
 import { revalidatePath } from 'next/cache';
+import { withApiMetrics } from '@/lib/metrics';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
 
 // Define a schema for brand creation (adjust based on your actual form/DB schema)
 const createBrandSchema = z.object({
   name: z.string().min(1, 'Brand name is required'),
+  slug: z.string().optional().nullable(), // Custom slug; generated from the name if empty
   description: z.string().optional().nullable(),
   image_url: z.string().url().optional().nullable(),
   website: z.string().url().optional().nullable(),
@@ -15,7 +23,9 @@ const createBrandSchema = z.object({
   // Add other relevant fields like meta_title, meta_description, etc.
 });
 
-export async function POST(req: NextRequest) {
+export const POST = withApiMetrics('POST /api/brands/create', createBrand);
+
+async function createBrand(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -37,7 +47,17 @@ export async function POST(req: NextRequest) {
     }
 
     const brandData = validation.data;
-    const slug = slugify(brandData.name, { lower: true, strict: true });
+
+    // The editor's custom slug, or one built from the name, made unique
+    const { base: slugBase, error: slugError } = requestedSlug(brandData);
+    if (!slugBase) {
+      return NextResponse.json(
+        { error: slugError || 'A name or slug is required' },
+        { status: 400 }
+      );
+    }
+    const slugScope = { entity: 'brand' as const, base: slugBase };
+    const slug = await findAvailableSlug(slugScope);
 
     const dataToInsert = {
       ...brandData,
@@ -48,12 +68,26 @@ export async function POST(req: NextRequest) {
       website: brandData.website || null,
     };
 
+    // Dry run: report what would be written and revalidated, write nothing
+    if (isDryRun(req)) {
+      const dryRun = await buildDryRunResult(
+        { table: 'brands', operation: 'insert', data: dataToInsert },
+        { entity: 'brand', before: null, after: { brands_id: 0, slug } }
+      );
+      return NextResponse.json(dryRun, { status: 200 });
+    }
+
     // Insert brand
-    const { data: newBrand, error: insertError } = await supabase
-      .from('brands')
-      .insert(dataToInsert)
-      .select('brands_id, slug') // Select needed fields
-      .single();
+    const { data: newBrand, error: insertError } = await writeWithUniqueSlug<{
+      brands_id: number;
+      slug: string;
+    }>(slugScope, slug, (uniqueSlug) =>
+      supabase
+        .from('brands')
+        .insert({ ...dataToInsert, slug: uniqueSlug })
+        .select('brands_id, slug') // Select needed fields
+        .single()
+    );
 
     if (insertError || !newBrand) {
       console.error('Supabase brand insert error:', insertError);
@@ -72,22 +106,24 @@ export async function POST(req: NextRequest) {
     }
 
     // Revalidate relevant paths in customer app(s)
-    const pathsToRevalidate = [
-      '/', // Homepage
-      '/brands', // Brands listing page (adjust path if different in customer app)
-      `/brand/${newBrand.slug}`, // New brand detail page (adjust path if different)
-      // Add other relevant paths, e.g., maybe a general product listing if brands are shown there?
-      // '/products'
-    ];
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'brand',
+      before: null,
+      after: newBrand,
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/brands/create',
+        entity: 'brand',
+        entityId: newBrand.brands_id,
+      },
     });
 
     // Revalidate admin paths
     revalidatePath('/brands');
 
     return NextResponse.json(
-      { message: 'Brand created successfully', brand: newBrand },
+      { message: 'Brand created successfully', brand: newBrand, revalidation },
       { status: 201 }
     );
   } catch (error: any) {
@@ -2,14 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getBrandSnapshot,
+} from '@/lib/revalidationPaths';
 import { revalidatePath } from 'next/cache';
+import { withApiMetrics } from '@/lib/metrics';
 
 // Schema to validate the incoming request body (just needs the ID)
 const deleteBrandSchema = z.object({
   id: z.number().int(),
 });
 
-export async function POST(req: NextRequest) {
+export const POST = withApiMetrics('POST /api/brands/delete', deleteBrand);
+
+async function deleteBrand(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -34,9 +41,8 @@ export async function POST(req: NextRequest) {
 
     const { id: brandId } = validation.data;
 
-    // Optional: Fetch slug BEFORE deleting for logging or other purposes if needed
-    // const { data: brandData } = await supabase.from('brands').select('slug').eq('brands_id', brandId).single();
-    // const deletedSlug = brandData?.slug;
+    // Snapshot the brand BEFORE deleting so its page and products get revalidated
+    const brandSnapshot = await getBrandSnapshot(brandId);
 
     // Delete the brand
     const { error: deleteError } = await supabase
@@ -62,22 +68,25 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Revalidate relevant paths (cannot revalidate the deleted slug)
-    const pathsToRevalidate = [
-      '/', // Homepage
-      '/brands', // Brands listing page
-      // Add other listing pages where this brand might have appeared
-      // '/products' // If products show brand info directly
-    ];
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+    // Revalidate relevant paths (the deleted brand page now returns a 404)
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'brand',
+      before: brandSnapshot,
+      after: null,
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/brands/delete',
+        entity: 'brand',
+        entityId: brandId,
+      },
     });
 
     // Revalidate admin paths
     revalidatePath('/brands');
 
     return NextResponse.json(
-      { message: 'Brand deleted successfully' },
+      { message: 'Brand deleted successfully', revalidation },
       { status: 200 }
     );
   } catch (error: any) {
@@ -1,22 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import slugify from 'slugify';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import {
+  applyUpdateToSnapshot,
+  buildDryRunResult,
+  diffFields,
+  isDryRun,
+} from '@/lib/revalidationDryRun';
+import {
+  computeEntityRevalidation,
+  getBrandSnapshot,
+} from '@/lib/revalidationPaths';
 import { revalidatePath } from 'next/cache';
+import { withApiMetrics } from '@/lib/metrics';
+import { buildEditConflict } from '@/lib/editConflicts';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
 
 // Define a schema for brand update (similar to create, but ID is required and fields are optional)
 const updateBrandSchema = z.object({
   brands_id: z.number().int(), // ID is required
   name: z.string().min(1, 'Brand name cannot be empty').optional(),
+  slug: z.string().optional().nullable(), // Custom slug; regenerated from the name if empty
   description: z.string().optional().nullable(),
   image_url: z.string().url().optional().nullable(),
   website: z.string().url().optional().nullable(),
   status: z.enum(['active', 'inactive']).optional(),
+  // The `updated_at` the editor loaded; a save over a newer version gets a 409
+  updated_at: z.string().min(1, 'updated_at of the loaded brand is required'),
+  // The fields as the editor loaded them; a 409 flags only those changed on both sides
+  base: z.record(z.unknown()).optional(),
   // Add other fields...
 });
 
-export async function POST(req: NextRequest) {
+export const POST = withApiMetrics('POST /api/brands/update', updateBrand);
+
+async function updateBrand(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -37,31 +60,46 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { brands_id, ...updateData } = validation.data;
-
-    // Regenerate slug if name is being updated
-    let newSlug: string | undefined;
-    if (updateData.name) {
-      newSlug = slugify(updateData.name, { lower: true, strict: true });
-      updateData.slug = newSlug;
-    }
+    const {
+      brands_id,
+      updated_at: expectedUpdatedAt,
+      base: loadedBase,
+      ...updateData
+    } = validation.data;
 
-    // Fetch old slug for revalidation purposes
-    const { data: oldBrandData, error: fetchError } = await supabase
-      .from('brands')
-      .select('slug')
-      .eq('brands_id', brands_id)
-      .single();
+    // Snapshot the brand before updating (old slug) for revalidation purposes
+    const brandSnapshotBefore = await getBrandSnapshot(brands_id);
 
-    if (fetchError || !oldBrandData) {
-      console.error('Error fetching old brand slug:', fetchError);
-      // Decide if this should be a 404 or just proceed without old slug revalidation
+    if (!brandSnapshotBefore) {
+      console.error('Error fetching old brand data for', brands_id);
       return NextResponse.json(
         { error: 'Brand not found or error fetching slug.' },
         { status: 404 }
       );
     }
-    const oldSlug = oldBrandData.slug;
+
+    // The editor's custom slug, or one regenerated from a new name; an
+    // unchanged slug is kept even if it is reserved
+    const { base: slugBase, error: slugError } = requestedSlug({
+      ...updateData,
+      currentSlug: brandSnapshotBefore.slug,
+    });
+    if (slugError) {
+      return NextResponse.json({ error: slugError }, { status: 400 });
+    }
+
+    // Made unique among the other brands; the current slug is kept as is
+    const slugScope = slugBase
+      ? {
+          entity: 'brand' as const,
+          base: slugBase,
+          excludeId: brands_id,
+          currentSlug: brandSnapshotBefore.slug,
+        }
+      : null;
+    updateData.slug = slugScope
+      ? await findAvailableSlug(slugScope)
+      : undefined;
 
     // Prepare final update payload
     const dataToUpdate = {
@@ -77,11 +115,56 @@ export async function POST(req: NextRequest) {
       }
     });
 
+    // Dry run: report what would be written and revalidated, write nothing
+    if (isDryRun(req)) {
+      const { data: currentBrand, error: currentBrandError } = await supabase
+        .from('brands')
+        .select('*')
+        .eq('brands_id', brands_id)
+        .single();
+
+      if (currentBrandError || !currentBrand) {
+        console.error(
+          'Error fetching current brand for dry run:',
+          currentBrandError
+        );
+        return NextResponse.json(
+          { error: 'Brand not found or error fetching slug.' },
+          { status: 404 }
+        );
+      }
+
+      const dryRun = await buildDryRunResult(
+        {
+          table: 'brands',
+          operation: 'update',
+          data: dataToUpdate,
+          changes: diffFields(currentBrand, dataToUpdate),
+        },
+        {
+          entity: 'brand',
+          before: brandSnapshotBefore,
+          after: applyUpdateToSnapshot(brandSnapshotBefore, dataToUpdate),
+          changedFields: Object.keys(dataToUpdate),
+        }
+      );
+      return NextResponse.json(dryRun, { status: 200 });
+    }
+
     // Update brand
-    const { error: updateError } = await supabase
-      .from('brands')
-      .update(dataToUpdate)
-      .eq('brands_id', brands_id);
+    // Only writes if nobody saved the brand since the editor loaded it
+    const {
+      data: updatedRows,
+      error: updateError,
+      slug,
+    } = await writeWithUniqueSlug(slugScope, updateData.slug, (uniqueSlug) =>
+      supabase
+        .from('brands')
+        .update({ ...dataToUpdate, slug: uniqueSlug })
+        .eq('brands_id', brands_id)
+        .eq('updated_at', expectedUpdatedAt)
+        .select('brands_id')
+    );
 
     if (updateError) {
       console.error('Supabase brand update error:', updateError);
@@ -99,18 +182,41 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Revalidate relevant paths
-    const pathsToRevalidate = [
-      '/', // Homepage
-      '/brands', // Brands listing page
-      `/brand/${oldSlug}`, // Old brand detail page
-    ];
-    if (newSlug && newSlug !== oldSlug) {
-      pathsToRevalidate.push(`/brand/${newSlug}`); // Add new brand detail page if slug changed
+    if (!updatedRows || updatedRows.length === 0) {
+      const { data: savedBrand } = await supabase
+        .from('brands')
+        .select('*')
+        .eq('brands_id', brands_id)
+        .maybeSingle();
+      if (!savedBrand) {
+        return NextResponse.json(
+          { error: 'Brand not found or error fetching slug.' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error: 'This brand was changed by someone else after you opened it',
+          conflict: buildEditConflict(savedBrand, dataToUpdate, loadedBase),
+        },
+        { status: 409 }
+      );
     }
-    // Add other relevant paths...
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+
+    // Revalidate relevant paths (old and new brand page, and its products if the name changed)
+    const brandSnapshotAfter = await getBrandSnapshot(brands_id);
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'brand',
+      before: brandSnapshotBefore,
+      after: brandSnapshotAfter,
+      changedFields: Object.keys(dataToUpdate),
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/brands/update',
+        entity: 'brand',
+        entityId: brands_id,
+      },
     });
 
     // Revalidate admin paths
@@ -120,7 +226,8 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(
       {
         message: 'Brand updated successfully',
-        updatedBrand: { brands_id, ...updateData },
+        updatedBrand: { brands_id, ...updateData, slug },
+        revalidation,
       },
       { status: 200 }
     );
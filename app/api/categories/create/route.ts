@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import slugify from 'slugify';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import { buildDryRunResult, isDryRun } from '@/lib/revalidationDryRun';
+import { computeEntityRevalidation } from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
 
 // Adjust schema based on your category fields
 const createCategorySchema = z.object({
   name: z.string().min(1, 'Category name is required'),
+  slug: z.string().optional().nullable(), // Custom slug; generated from the name if empty
   description: z.string().optional().nullable(),
   parent_category_id: z.number().int().optional().nullable(),
   image_url: z.string().url().optional().nullable(),
@@ -15,7 +23,12 @@ const createCategorySchema = z.object({
   // Add meta fields, etc.
 });
 
-export async function POST(req: NextRequest) {
+export const POST = withApiMetrics(
+  'POST /api/categories/create',
+  createCategory
+);
+
+async function createCategory(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -37,7 +50,17 @@ export async function POST(req: NextRequest) {
     }
 
     const categoryData = validation.data;
-    const slug = slugify(categoryData.name, { lower: true, strict: true });
+
+    // The editor's custom slug, or one built from the name, made unique
+    const { base: slugBase, error: slugError } = requestedSlug(categoryData);
+    if (!slugBase) {
+      return NextResponse.json(
+        { error: slugError || 'A name or slug is required' },
+        { status: 400 }
+      );
+    }
+    const slugScope = { entity: 'category' as const, base: slugBase };
+    const slug = await findAvailableSlug(slugScope);
 
     const dataToInsert = {
       ...categoryData,
@@ -48,12 +71,35 @@ export async function POST(req: NextRequest) {
       icon_url: categoryData.icon_url || null,
     };
 
+    // Dry run: report what would be written and revalidated, write nothing
+    if (isDryRun(req)) {
+      const dryRun = await buildDryRunResult(
+        { table: 'categories', operation: 'insert', data: dataToInsert },
+        {
+          entity: 'category',
+          before: null,
+          after: {
+            categories_id: 0,
+            slug,
+            parent_category_id: dataToInsert.parent_category_id,
+          },
+        }
+      );
+      return NextResponse.json(dryRun, { status: 200 });
+    }
+
     // Insert category
-    const { data: newCategory, error: insertError } = await supabase
-      .from('categories')
-      .insert(dataToInsert)
-      .select('categories_id, slug') // Adjust select as needed
-      .single();
+    const { data: newCategory, error: insertError } =
+      await writeWithUniqueSlug<{
+        categories_id: number;
+        slug: string;
+      }>(slugScope, slug, (uniqueSlug) =>
+        supabase
+          .from('categories')
+          .insert({ ...dataToInsert, slug: uniqueSlug })
+          .select('categories_id, slug') // Adjust select as needed
+          .single()
+      );
 
     if (insertError || !newCategory) {
       console.error('Supabase category insert error:', insertError);
@@ -71,19 +117,30 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Revalidate relevant paths
-    const pathsToRevalidate = [
-      '/',
-      '/categories',
-      `/category/${newCategory.slug}`,
-      // Add other relevant paths...
-    ];
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+    // Revalidate relevant paths (home, listing, the new page and its parent)
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'category',
+      before: null,
+      after: {
+        categories_id: newCategory.categories_id,
+        slug: newCategory.slug,
+        parent_category_id: dataToInsert.parent_category_id,
+      },
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/categories/create',
+        entity: 'category',
+        entityId: newCategory.categories_id,
+      },
     });
 
     return NextResponse.json(
-      { message: 'Category created successfully', category: newCategory },
+      {
+        message: 'Category created successfully',
+        category: newCategory,
+        revalidation,
+      },
       { status: 201 }
     );
   } catch (error: any) {
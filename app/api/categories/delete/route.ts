@@ -1,34 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
-import { SupabaseClient } from '@supabase/supabase-js'; // Import SupabaseClient type
+import {
+  revalidateCustomerApp,
+  type RevalidationResult,
+} from '@/lib/revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getCategorySnapshot,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
 
 // Schema to validate the incoming request body
 const deleteCategorySchema = z.object({
   id: z.number().int(),
 });
 
-// Helper function to get slug by ID (can be shared or redefined)
-async function getCategorySlugById(
-  supabase: SupabaseClient,
-  categoryId: number | null | undefined
-): Promise<string | null> {
-  if (!categoryId) return null;
-  const { data, error } = await supabase
-    .from('categories')
-    .select('slug')
-    .eq('categories_id', categoryId)
-    .maybeSingle();
+export const POST = withApiMetrics(
+  'POST /api/categories/delete',
+  deleteCategory
+);
 
-  if (error) {
-    console.error(`Error fetching slug for category ID ${categoryId}:`, error);
-    return null;
-  }
-  return data?.slug ?? null;
-}
-
-export async function POST(req: NextRequest) {
+async function deleteCategory(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -54,26 +47,18 @@ export async function POST(req: NextRequest) {
     const { id: categoryId } = validation.data;
 
     // --- Fetch data BEFORE deleting for revalidation ---
-    const { data: categoryToDelete, error: fetchError } = await supabase
-      .from('categories')
-      .select('slug, parent_category_id') // Select slug and parent ID
-      .eq('categories_id', categoryId)
-      .single();
+    const categorySnapshot = await getCategorySnapshot(categoryId);
 
-    if (fetchError || !categoryToDelete) {
-      // If fetchError and code is P0001 (not found) or similar, or !categoryToDelete, then category doesn't exist.
+    if (!categorySnapshot) {
       // Decide if this is a 404 or should still proceed (maybe allow deleting non-existent for idempotency?)
       // For now, assume 404 if not found.
-      console.error('Error fetching category data before delete:', fetchError);
+      console.error('Category not found before delete:', categoryId);
       return NextResponse.json(
         { error: 'Category not found or error fetching data before deletion.' },
         { status: 404 }
       );
     }
 
-    const slugToDelete = categoryToDelete.slug;
-    const parentId = categoryToDelete.parent_category_id;
-
     // --- Delete the category ---
     const { error: deleteError } = await supabase
       .from('categories')
@@ -99,38 +84,35 @@ export async function POST(req: NextRequest) {
     }
 
     // --- Revalidate relevant paths ---
-    const pathsToRevalidate = new Set<string>();
-    pathsToRevalidate.add('/');
-    pathsToRevalidate.add('/categories');
-    if (slugToDelete) {
-      pathsToRevalidate.add(`/category/${slugToDelete}`); // Add the deleted category path
-    }
-
-    // Add parent category path if it exists
-    if (parentId) {
-      const parentSlug = await getCategorySlugById(supabase, parentId);
-      if (parentSlug) {
-        pathsToRevalidate.add(`/category/${parentSlug}`);
-        console.log(
-          `Adding parent path for revalidation: /category/${parentSlug}`
-        );
-      }
-    }
-
-    if (pathsToRevalidate.size > 0) {
+    // The deleted category page, its parent and the listing pages
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'category',
+      before: categorySnapshot,
+      after: null,
+    });
+
+    let revalidation: RevalidationResult | undefined;
+    if (
+      entityRevalidation.routes.length > 0 ||
+      entityRevalidation.tags.length > 0
+    ) {
       console.log(
-        'Revalidating paths after delete:',
-        Array.from(pathsToRevalidate)
+        'Revalidating storefront routes and tags after delete:',
+        entityRevalidation
       );
-      await revalidateCustomerApp({
-        paths: Array.from(pathsToRevalidate),
+      revalidation = await revalidateCustomerApp(entityRevalidation, {
+        trigger: {
+          source: 'POST /api/categories/delete',
+          entity: 'category',
+          entityId: categoryId,
+        },
       });
     } else {
       console.log('No paths identified for revalidation after delete.');
     }
 
     return NextResponse.json(
-      { message: 'Category deleted successfully' },
+      { message: 'Category deleted successfully', revalidation },
       { status: 200 }
     );
   } catch (error: any) {
@@ -1,42 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import slugify from 'slugify';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
-import { SupabaseClient } from '@supabase/supabase-js'; // Import SupabaseClient type
+import {
+  revalidateCustomerApp,
+  type RevalidationResult,
+} from '@/lib/revalidateCustomerApp';
+import {
+  applyUpdateToSnapshot,
+  buildDryRunResult,
+  diffFields,
+  isDryRun,
+} from '@/lib/revalidationDryRun';
+import {
+  computeEntityRevalidation,
+  getCategorySnapshot,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
+import { buildEditConflict } from '@/lib/editConflicts';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
 
 // Adjust schema based on your category fields (ID required, others optional)
 const updateCategorySchema = z.object({
   categories_id: z.number().int(), // ID is required
   name: z.string().min(1, 'Category name cannot be empty').optional(),
+  slug: z.string().optional().nullable(), // Custom slug; regenerated from the name if empty
   description: z.string().optional().nullable(),
   parent_category_id: z.number().int().optional().nullable(),
   image_url: z.string().url().optional().nullable(),
   icon_url: z.string().url().optional().nullable(),
-  status: z.enum(['active', 'inactive']).optional(),
+  status: z.enum(['active', 'inactive', 'draft']).optional(), // The edit page uses 'draft'
+  display_order: z.number().int().min(0).optional(),
+  short_banner_url: z.string().url().optional().nullable(),
+  long_banner_url: z.string().url().optional().nullable(),
+  // The `updated_at` the editor loaded; a save over a newer version gets a 409
+  updated_at: z
+    .string()
+    .min(1, 'updated_at of the loaded category is required'),
+  // The fields as the editor loaded them; a 409 flags only those changed on both sides
+  base: z.record(z.unknown()).optional(),
   // Add other updatable fields...
 });
 
-// Helper function to get slug by ID
-async function getCategorySlugById(
-  supabase: SupabaseClient, // Use SupabaseClient type
-  categoryId: number | null | undefined
-): Promise<string | null> {
-  if (!categoryId) return null;
-  const { data, error } = await supabase
-    .from('categories')
-    .select('slug')
-    .eq('categories_id', categoryId)
-    .maybeSingle();
-
-  if (error) {
-    console.error(`Error fetching slug for category ID ${categoryId}:`, error);
-    return null;
-  }
-  return data?.slug ?? null;
-}
+export const POST = withApiMetrics(
+  'POST /api/categories/update',
+  updateCategory
+);
 
-export async function POST(req: NextRequest) {
+async function updateCategory(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -60,32 +74,47 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { categories_id, ...updateData } = validation.data;
+    const {
+      categories_id,
+      updated_at: expectedUpdatedAt,
+      base: loadedBase,
+      ...updateData
+    } = validation.data;
 
-    // Fetch old slug and parent ID for revalidation purposes
-    const { data: oldCategoryData, error: fetchError } = await supabase
-      .from('categories')
-      .select('slug, parent_category_id') // Select parent_category_id as well
-      .eq('categories_id', categories_id)
-      .single();
+    // Snapshot the category before updating (old slug and parent) for revalidation
+    const categorySnapshotBefore = await getCategorySnapshot(categories_id);
 
-    if (fetchError || !oldCategoryData) {
-      console.error('Error fetching old category data:', fetchError);
+    if (!categorySnapshotBefore) {
+      console.error('Error fetching old category data for', categories_id);
       return NextResponse.json(
         { error: 'Category not found or error fetching data.' },
         { status: 404 } // Changed to 404
       );
     }
-    const oldSlug = oldCategoryData.slug;
-    const oldParentId = oldCategoryData.parent_category_id; // Store old parent ID
-
-    // Regenerate slug if name changes
-    let newSlug: string | undefined;
-    if (updateData.name) {
-      newSlug = slugify(updateData.name, { lower: true, strict: true });
-      updateData.slug = newSlug;
+
+    // The editor's custom slug, or one regenerated from a new name; an
+    // unchanged slug is kept even if it is reserved
+    const { base: slugBase, error: slugError } = requestedSlug({
+      ...updateData,
+      currentSlug: categorySnapshotBefore.slug,
+    });
+    if (slugError) {
+      return NextResponse.json({ error: slugError }, { status: 400 });
     }
 
+    // Made unique among the other categories; the current slug is kept as is
+    const slugScope = slugBase
+      ? {
+          entity: 'category' as const,
+          base: slugBase,
+          excludeId: categories_id,
+          currentSlug: categorySnapshotBefore.slug,
+        }
+      : null;
+    updateData.slug = slugScope
+      ? await findAvailableSlug(slugScope)
+      : undefined;
+
     // Determine the new parent ID from the request data
     // Use null if explicitly provided as null, otherwise keep undefined if not provided
     const newParentId = updateData.parent_category_id; // This will be number, null, or undefined
@@ -105,6 +134,46 @@ export async function POST(req: NextRequest) {
       }
     });
 
+    // Dry run: report what would be written and revalidated, write nothing
+    if (isDryRun(req)) {
+      const { data: currentCategory, error: currentCategoryError } =
+        await supabase
+          .from('categories')
+          .select('*')
+          .eq('categories_id', categories_id)
+          .single();
+
+      if (currentCategoryError || !currentCategory) {
+        console.error(
+          'Error fetching current category for dry run:',
+          currentCategoryError
+        );
+        return NextResponse.json(
+          { error: 'Category not found or error fetching data.' },
+          { status: 404 }
+        );
+      }
+
+      const dryRun = await buildDryRunResult(
+        {
+          table: 'categories',
+          operation: 'update',
+          data: dataToUpdate,
+          changes: diffFields(currentCategory, dataToUpdate),
+        },
+        {
+          entity: 'category',
+          before: categorySnapshotBefore,
+          after: applyUpdateToSnapshot(categorySnapshotBefore, dataToUpdate),
+          changedFields: Object.keys(dataToUpdate),
+        }
+      );
+      return NextResponse.json(dryRun, { status: 200 });
+    }
+
+    // The row as written, with the `updated_at` the next save must send
+    let updatedCategory: Record<string, unknown> | null = null;
+
     // Check if there's anything actually to update
     if (Object.keys(dataToUpdate).length <= 1 && !dataToUpdate.updated_at) {
       // <= 1 because updated_at is always added
@@ -123,10 +192,16 @@ export async function POST(req: NextRequest) {
       }
     } else {
       // Update category in database only if there are changes
-      const { error: updateError } = await supabase
-        .from('categories')
-        .update(dataToUpdate)
-        .eq('categories_id', categories_id);
+      // Only writes if nobody saved the category since the editor loaded it
+      const { data: updatedRows, error: updateError } =
+        await writeWithUniqueSlug(slugScope, updateData.slug, (uniqueSlug) =>
+          supabase
+            .from('categories')
+            .update({ ...dataToUpdate, slug: uniqueSlug })
+            .eq('categories_id', categories_id)
+            .eq('updated_at', expectedUpdatedAt)
+            .select('*')
+        );
 
       if (updateError) {
         console.error('Supabase category update error:', updateError);
@@ -143,47 +218,60 @@ export async function POST(req: NextRequest) {
           { status: 500 }
         );
       }
-    }
-
-    // --- Revalidation Logic ---
-    const pathsToRevalidate = new Set<string>(); // Use a Set to avoid duplicates
-
-    pathsToRevalidate.add('/');
-    pathsToRevalidate.add('/categories');
-    pathsToRevalidate.add(`/category/${oldSlug}`); // Add old category path
 
-    if (newSlug && newSlug !== oldSlug) {
-      pathsToRevalidate.add(`/category/${newSlug}`); // Add new category path if slug changed
+      if (!updatedRows || updatedRows.length === 0) {
+        const { data: savedCategory } = await supabase
+          .from('categories')
+          .select('*')
+          .eq('categories_id', categories_id)
+          .maybeSingle();
+        if (!savedCategory) {
+          return NextResponse.json(
+            { error: 'Category not found or error fetching data.' },
+            { status: 404 }
+          );
+        }
+        return NextResponse.json(
+          {
+            error:
+              'This category was changed by someone else after you opened it',
+            conflict: buildEditConflict(
+              savedCategory,
+              dataToUpdate,
+              loadedBase
+            ),
+          },
+          { status: 409 }
+        );
+      }
+      updatedCategory = updatedRows[0];
     }
 
-    // Check if parent category ID has changed
-    const parentIdChanged =
-      'parent_category_id' in updateData && oldParentId !== newParentId;
+    // --- Revalidation Logic ---
+    // Covers old and new slug, old and new parent, subcategory pages and products in the category
+    const categorySnapshotAfter = await getCategorySnapshot(categories_id);
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'category',
+      before: categorySnapshotBefore,
+      after: categorySnapshotAfter,
+      changedFields: Object.keys(dataToUpdate),
+    });
 
-    if (parentIdChanged) {
+    let revalidation: RevalidationResult | undefined;
+    if (
+      entityRevalidation.routes.length > 0 ||
+      entityRevalidation.tags.length > 0
+    ) {
       console.log(
-        `Parent category changed from ${oldParentId} to ${newParentId}. Fetching parent slugs.`
+        'Revalidating storefront routes and tags:',
+        entityRevalidation
       );
-      // Fetch slugs for old and new parents concurrently
-      const [oldParentSlug, newParentSlug] = await Promise.all([
-        getCategorySlugById(supabase, oldParentId),
-        getCategorySlugById(supabase, newParentId), // newParentId could be null
-      ]);
-
-      if (oldParentSlug) {
-        pathsToRevalidate.add(`/category/${oldParentSlug}`);
-        console.log(`Adding old parent path: /category/${oldParentSlug}`);
-      }
-      if (newParentSlug) {
-        pathsToRevalidate.add(`/category/${newParentSlug}`);
-        console.log(`Adding new parent path: /category/${newParentSlug}`);
-      }
-    }
-
-    if (pathsToRevalidate.size > 0) {
-      console.log('Revalidating paths:', Array.from(pathsToRevalidate));
-      await revalidateCustomerApp({
-        paths: Array.from(pathsToRevalidate), // Convert Set back to array
+      revalidation = await revalidateCustomerApp(entityRevalidation, {
+        trigger: {
+          source: 'POST /api/categories/update',
+          entity: 'category',
+          entityId: categories_id,
+        },
       });
     } else {
       console.log('No paths identified for revalidation.');
@@ -192,8 +280,8 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(
       {
         message: 'Category updated successfully',
-        // Return the data that was intended for update, might not reflect final DB state if skipping update logic was complex
-        updatedCategory: { categories_id, ...validation.data },
+        updatedCategory,
+        revalidation,
       },
       { status: 200 }
     );
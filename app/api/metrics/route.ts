@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedMetricsRequest, renderMetrics } from '@/lib/metrics';
+
+// Prometheus scrape endpoint for revalidation and API metrics. Configure
+// the scrape job with `authorization: { credentials: <METRICS_TOKEN> }`
+// (sent as `Authorization: Bearer <METRICS_TOKEN>`).
+export async function GET(req: NextRequest) {
+  const metricsToken = process.env.METRICS_TOKEN;
+  if (!metricsToken) {
+    console.error('Error: METRICS_TOKEN environment variable is not set.');
+    return NextResponse.json(
+      { error: 'Metrics are not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (
+    !isAuthorizedMetricsRequest(req.headers.get('authorization'), metricsToken)
+  ) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return new NextResponse(await renderMetrics(), {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  } catch (error: any) {
+    console.error('Error rendering metrics:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,12 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getProductSnapshot,
+  isUrgentChange,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
 
 export async function GET(
   request: NextRequest,
@@ -49,7 +56,9 @@ export async function GET(
   }
 }
 
-export async function PATCH(
+export const PATCH = withApiMetrics('PATCH /api/products/[id]', updateProduct);
+
+async function updateProduct(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
@@ -81,6 +90,11 @@ export async function PATCH(
       throw checkError;
     }
 
+    // Snapshot before updating so old category/brand pages are refreshed too
+    const productSnapshotBefore = await getProductSnapshot(
+      existingProduct.products_id
+    );
+
     // Update product
     const { error: updateError } = await supabaseAdmin
       .from('products')
@@ -144,8 +158,32 @@ export async function PATCH(
       }
     }
 
+    const productChange = {
+      entity: 'product' as const,
+      before: productSnapshotBefore,
+      // The product is saved; a failed load only narrows the revalidation
+      after: await getProductSnapshot(existingProduct.products_id).catch(
+        (error) => {
+          console.error('Error loading product snapshot:', error);
+          return null;
+        }
+      ),
+      changedFields: Object.keys(body),
+    };
+    const entityRevalidation = await computeEntityRevalidation(productChange);
+    // Price corrections skip batching so storefronts never show a stale price
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      immediate: isUrgentChange(productChange),
+      trigger: {
+        source: 'PATCH /api/products/[id]',
+        entity: 'product',
+        entityId: existingProduct.products_id,
+      },
+    });
+
     return NextResponse.json({
       message: 'Product updated successfully',
+      revalidation,
     });
   } catch (error: any) {
     return NextResponse.json(
@@ -157,7 +195,12 @@ export async function PATCH(
   }
 }
 
-export async function DELETE(
+export const DELETE = withApiMetrics(
+  'DELETE /api/products/[id]',
+  deleteProduct
+);
+
+async function deleteProduct(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
@@ -188,6 +231,11 @@ export async function DELETE(
       throw checkError;
     }
 
+    // Snapshot before deleting so the pages that showed it get revalidated
+    const productSnapshot = await getProductSnapshot(
+      existingProduct.products_id
+    );
+
     // Delete product (product_images will be deleted via ON DELETE CASCADE)
     const { error: deleteError } = await supabaseAdmin
       .from('products')
@@ -198,8 +246,22 @@ export async function DELETE(
       throw deleteError;
     }
 
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'product',
+      before: productSnapshot,
+      after: null,
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'DELETE /api/products/[id]',
+        entity: 'product',
+        entityId: existingProduct.products_id,
+      },
+    });
+
     return NextResponse.json({
       message: 'Product deleted successfully',
+      revalidation,
     });
   } catch (error: any) {
     return NextResponse.json(
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import slugify from 'slugify';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import { buildDryRunResult, isDryRun } from '@/lib/revalidationDryRun';
 import {
-  revalidateCustomerApp,
-  getProductRelatedPaths,
-} from '@/lib/revalidateCustomerApp';
+  computeEntityRevalidation,
+  getProductSnapshot,
+} from '@/lib/revalidationPaths';
 import {
   productFeatureSchema,
   variantAttributeSchema,
@@ -15,11 +16,20 @@ import {
   productPageTestimonialSchema,
   faqItemSchema,
 } from '@/app/(admin)/products/schema'; // Import related schemas
+import { withApiMetrics } from '@/lib/metrics';
+import { productGraphRelated } from '@/lib/productGraph';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { productRevisionInfo } from '@/lib/productRevisions';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
 
 // Adjusted Zod schema to align with ProductFormValues from schema.ts
 const createProductSchema = z.object({
   name: z.string().min(2),
-  slug: z.string().optional(), // Slug will be generated/validated server-side
+  slug: z.string().optional().nullable(), // Custom slug; generated from the name if empty
   description: z.string().optional().nullable(),
   short_description: z.string().optional().nullable(),
   sku: z.string().optional().nullable(),
@@ -77,12 +87,16 @@ const createProductSchema = z.object({
   // Read-only fields removed (like rating_average, rating_count)
   // featured_in_collection_slug is also included based on schema.ts
   featured_in_collection_slug: z.string().optional().nullable(),
+  // Empty or null publishes the product in every storefront locale
+  published_locales: z.array(z.string().trim().min(1)).optional().nullable(),
 });
 
 // Helper type for validated data
 type ValidatedProductData = z.infer<typeof createProductSchema>;
 
-export async function POST(req: NextRequest) {
+export const POST = withApiMetrics('POST /api/products/create', createProduct);
+
+async function createProduct(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -124,15 +138,16 @@ export async function POST(req: NextRequest) {
       ...coreProductData
     } = productInput;
 
-    // Generate slug (consider checking uniqueness here)
-    const baseSlug = slugify(coreProductData.name, {
-      lower: true,
-      strict: true,
-    });
-    // Implement slug uniqueness check if necessary before insert
-    // const uniqueSlug = await ensureUniqueSlug(baseSlug); // Need ensureUniqueSlug helper
-
-    const slug = baseSlug; // For now, assume base slug is okay or implement check
+    // The editor's custom slug, or one built from the name, made unique
+    const { base: slugBase, error: slugError } = requestedSlug(coreProductData);
+    if (!slugBase) {
+      return NextResponse.json(
+        { error: slugError || 'A name or slug is required' },
+        { status: 400 }
+      );
+    }
+    const slugScope = { entity: 'product' as const, base: slugBase };
+    const slug = await findAvailableSlug(slugScope);
 
     // Prepare data for Supabase insert (core product table)
     const dataToInsert = {
@@ -171,20 +186,80 @@ export async function POST(req: NextRequest) {
         : null,
       featured_in_collection_slug:
         coreProductData.featured_in_collection_slug || null,
+      published_locales: coreProductData.published_locales?.length
+        ? coreProductData.published_locales
+        : null,
       // Remove fields not in 'products' table if they exist in coreProductData by mistake
     };
 
-    // Start database transaction (optional but recommended for multiple inserts)
-    // Note: Supabase JS client doesn't directly support multi-statement transactions easily.
-    // Use edge functions or database functions for true transactions if atomicity is critical.
-    // For now, we proceed sequentially and handle errors individually.
+    // Dry run: report what would be written and revalidated, write nothing.
+    // The product has no ID yet, so its ID-based cache tag is left out.
+    if (isDryRun(req)) {
+      const dryRun = await buildDryRunResult(
+        {
+          table: 'products',
+          operation: 'insert',
+          data: dataToInsert,
+          related: {
+            images: images.length,
+            features: features.length,
+            variants: variants.length,
+            testimonial_videos: testimonial_videos.length,
+            customer_testimonials: customer_testimonials.length,
+            tags: tags.length,
+            faqs: faqs.length,
+          },
+        },
+        {
+          entity: 'product',
+          before: null,
+          after: {
+            products_id: 0,
+            slug,
+            status: dataToInsert.status,
+            category_id: dataToInsert.category_id,
+            subcategory_id: dataToInsert.subcategory_id,
+            brand_id: dataToInsert.brand_id,
+            featured_in_collection_slug:
+              dataToInsert.featured_in_collection_slug,
+            tags,
+            price: dataToInsert.price,
+            compare_at_price: dataToInsert.compare_at_price,
+            published_locales: dataToInsert.published_locales,
+          },
+        }
+      );
+      return NextResponse.json(dryRun, { status: 200 });
+    }
 
-    // 1. Insert the main product
-    const { data: newProduct, error: insertError } = await supabase
-      .from('products')
-      .insert(dataToInsert)
-      .select('products_id, slug, category_id, brand_id')
-      .single();
+    // Write the product and all its related data in one transaction, so a
+    // failure leaves nothing behind
+    const related = productGraphRelated({
+      images,
+      features,
+      variants,
+      testimonial_videos,
+      customer_testimonials,
+      tags,
+      faqs,
+    });
+    // Recorded as the author of the product's first revision
+    const author = await getAdminUserFromRequest(req);
+    const { data: newProduct, error: insertError } = await writeWithUniqueSlug<{
+      products_id: number;
+      slug: string;
+      category_id: number | null;
+      brand_id: number | null;
+    }>(slugScope, slug, (uniqueSlug) =>
+      supabase
+        .rpc('create_product_graph', {
+          product: { ...dataToInsert, slug: uniqueSlug },
+          related,
+          revision: productRevisionInfo(author),
+        })
+        .select('products_id, slug, category_id, brand_id')
+        .single()
+    );
 
     if (insertError || !newProduct) {
       console.error('Supabase insert error:', insertError);
@@ -204,221 +279,40 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // --- Start Inserting Related Data ---
     const newProductId = newProduct.products_id;
-    const relatedDataErrors: string[] = []; // Collect errors
 
-    // 2. Insert Images
-    if (images && images.length > 0) {
-      const imagesToInsert = images.map((url, index) => ({
-        product_id: newProductId,
-        url,
-        is_primary: index === 0,
-        sort_order: index,
-      }));
-      const { error } = await supabase
-        .from('product_images')
-        .insert(imagesToInsert);
-      if (error) {
-        console.error('Error inserting images:', error);
-        relatedDataErrors.push(`Images: ${error.message}`);
+    // Trigger revalidation for every page that shows the new product. The
+    // product is saved; a failed load falls back to the inserted fields.
+    const productSnapshot = await getProductSnapshot(newProductId).catch(
+      (error) => {
+        console.error('Error loading product snapshot:', error);
+        return null;
       }
-    }
-
-    // 3. Insert Product Features
-    if (features && features.length > 0) {
-      const featuresToInsert = features.map((f) => ({
-        product_id: newProductId,
-        feature_text: f.feature_text,
-        // icon_url might not be in this table, based on schema.ts ProductFeature (not variant feature)
-      }));
-      const { error } = await supabase
-        .from('product_features')
-        .insert(featuresToInsert);
-      if (error) {
-        console.error('Error inserting product features:', error);
-        relatedDataErrors.push(`Features: ${error.message}`);
-      }
-    }
-
-    // 4. Insert Tags
-    if (tags && tags.length > 0) {
-      const tagsToInsert = tags.map((tagText) => ({
-        product_id: newProductId,
-        tag_text: tagText,
-      }));
-      const { error } = await supabase
-        .from('product_tags')
-        .insert(tagsToInsert);
-      if (error) {
-        console.error('Error inserting tags:', error);
-        relatedDataErrors.push(`Tags: ${error.message}`);
-      }
-    }
-
-    // 5. Insert FAQs
-    if (faqs && faqs.length > 0) {
-      const faqsToInsert = faqs.map((faq) => ({
-        product_id: newProductId,
-        question: faq.question,
-        answer: faq.answer,
-      }));
-      const { error } = await supabase
-        .from('product_faqs')
-        .insert(faqsToInsert);
-      if (error) {
-        console.error('Error inserting FAQs:', error);
-        relatedDataErrors.push(`FAQs: ${error.message}`);
-      }
-    }
-
-    // 6. Insert Testimonial Videos
-    if (testimonial_videos && testimonial_videos.length > 0) {
-      const videosToInsert = testimonial_videos.map((video) => ({
-        product_id: newProductId,
-        video_url: video.video_url,
-        title: video.title || null,
-        description: video.description || null,
-        uploader_name: video.uploader_name || null,
-      }));
-      const { error } = await supabase
-        .from('product_testimonial_videos')
-        .insert(videosToInsert);
-      if (error) {
-        console.error('Error inserting testimonial videos:', error);
-        relatedDataErrors.push(`Testimonial Videos: ${error.message}`);
-      }
-    }
-
-    // 7. Insert Customer Testimonials
-    if (customer_testimonials && customer_testimonials.length > 0) {
-      const testimonialsToInsert = customer_testimonials.map((test) => ({
-        products_id: newProductId, // Ensure table name matches (products_id vs product_id)
-        customer_name: test.customer_name,
-        testimonial_text: test.testimonial_text,
-        rating: test.rating ?? null,
-        customer_image_url: test.customer_image_url || null,
-      }));
-      const { error } = await supabase
-        .from('customer_testimonials')
-        .insert(testimonialsToInsert);
-      if (error) {
-        console.error('Error inserting customer testimonials:', error);
-        relatedDataErrors.push(`Customer Testimonials: ${error.message}`);
-      }
-    }
-
-    // 8. Insert Variants and their nested data
-    if (variants && variants.length > 0) {
-      for (const variant of variants) {
-        const { attributes, variant_features, ...coreVariantData } = variant;
-        const variantInsertData = {
-          ...coreVariantData,
-          product_id: newProductId,
-          price: coreVariantData.price ?? null,
-          compare_at_price: coreVariantData.compare_at_price ?? null,
-          sku: coreVariantData.sku ?? null,
-          quantity: coreVariantData.quantity ?? null,
-          image_url: coreVariantData.image_url ?? null,
-          icon_url: coreVariantData.icon_url ?? null,
-        };
-
-        const { data: newVariant, error: variantError } = await supabase
-          .from('product_variants')
-          .insert(variantInsertData)
-          .select('id')
-          .single();
-
-        if (variantError || !newVariant) {
-          console.error('Error inserting variant:', variantError);
-          relatedDataErrors.push(
-            `Variant (${variant.name || 'Unnamed'}): ${variantError?.message || 'Failed to insert'}`
-          );
-          continue; // Skip attributes/features for this failed variant
-        }
-
-        const newVariantId = newVariant.id;
-
-        // Insert Variant Attributes
-        if (attributes && attributes.length > 0) {
-          const attributesToInsert = attributes
-            .filter((a) => a.name && a.value)
-            .map((attr) => ({
-              variant_id: newVariantId,
-              name: attr.name,
-              value: attr.value,
-            }));
-          if (attributesToInsert.length > 0) {
-            const { error: attrError } = await supabase
-              .from('variant_attributes')
-              .insert(attributesToInsert);
-            if (attrError) {
-              console.error(
-                `Error inserting attributes for variant ${newVariantId}:`,
-                attrError
-              );
-              relatedDataErrors.push(
-                `Variant Attributes (${variant.name}): ${attrError.message}`
-              );
-            }
-          }
-        }
-
-        // Insert Variant Features
-        if (variant_features && variant_features.length > 0) {
-          const featuresToInsert = variant_features
-            .filter((f) => f.feature_text)
-            .map((feat) => ({
-              variant_id: newVariantId,
-              feature_text: feat.feature_text,
-              icon_url: feat.icon_url ?? null,
-            }));
-          if (featuresToInsert.length > 0) {
-            const { error: featError } = await supabase
-              .from('variant_features')
-              .insert(featuresToInsert);
-            if (featError) {
-              console.error(
-                `Error inserting features for variant ${newVariantId}:`,
-                featError
-              );
-              relatedDataErrors.push(
-                `Variant Features (${variant.name}): ${featError.message}`
-              );
-            }
-          }
-        }
-      }
-    }
-    // --- End Inserting Related Data ---
-
-    // Trigger revalidation (fire and forget)
-    const { categoryPath, brandPath } = await getProductRelatedPaths(
-      newProduct.products_id
     );
-    const pathsToRevalidate = [
-      '/', // Homepage
-      '/products', // Admin product list (or customer product list if URL is the same)
-      `/products/${newProduct.slug}`, // New product page
-    ];
-    if (categoryPath) pathsToRevalidate.push(categoryPath);
-    if (brandPath) pathsToRevalidate.push(brandPath);
-
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'product',
+      before: null,
+      after: productSnapshot ?? {
+        products_id: newProductId,
+        slug: newProduct.slug,
+        category_id: newProduct.category_id,
+        brand_id: newProduct.brand_id,
+      },
     });
 
-    // Modify response based on related data errors
-    const responseMessage =
-      relatedDataErrors.length === 0
-        ? 'Product and all related data created successfully'
-        : `Product created, but errors occurred with related data: ${relatedDataErrors.join('; ')}`;
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/products/create',
+        entity: 'product',
+        entityId: newProductId,
+      },
+    });
 
     return NextResponse.json(
       {
-        message: responseMessage,
+        message: 'Product and all related data created successfully',
         product: newProduct,
-        errors: relatedDataErrors.length > 0 ? relatedDataErrors : undefined,
+        revalidation,
       },
       { status: 201 }
     );
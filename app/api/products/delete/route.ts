@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
 import {
-  revalidateCustomerApp,
-  getProductRelatedPaths,
-} from '@/lib/revalidateCustomerApp';
+  computeEntityRevalidation,
+  getProductSnapshot,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
 
-export async function POST(req: NextRequest) {
+export const POST = withApiMetrics('POST /api/products/delete', deleteProduct);
+
+async function deleteProduct(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -24,8 +28,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 1. Get related paths BEFORE deleting
-    const { categoryPath, brandPath } = await getProductRelatedPaths(id);
+    // 1. Snapshot the product BEFORE deleting so we know which pages showed it
+    const productSnapshot = await getProductSnapshot(id);
 
     // 2. Delete the product
     const { error: deleteError } = await supabase
@@ -42,19 +46,23 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 3. Trigger revalidation (fire and forget, errors logged within the function)
-    const pathsToRevalidate = ['/', '/products']; // Always revalidate home and product listing
-    if (categoryPath) pathsToRevalidate.push(categoryPath);
-    if (brandPath) pathsToRevalidate.push(brandPath);
-    // Add other known listing paths if necessary
+    // 3. Trigger revalidation (errors logged within the function)
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'product',
+      before: productSnapshot,
+      after: null,
+    });
 
-    // Use Set to remove duplicates before sending
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/products/delete',
+        entity: 'product',
+        entityId: id,
+      },
     });
 
     return NextResponse.json(
-      { message: 'Product deleted successfully' },
+      { message: 'Product deleted successfully', revalidation },
       { status: 200 }
     );
   } catch (error: any) {
@@ -1,5 +1,11 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getProductSnapshot,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
 
 export async function GET(request: NextRequest) {
   try {
@@ -73,7 +79,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withApiMetrics('POST /api/products', createProduct);
+
+async function createProduct(request: NextRequest) {
   try {
     if (!supabaseAdmin) {
       throw new Error('Supabase client not initialized');
@@ -139,10 +147,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'product',
+      before: null,
+      // The product is saved; a failed load only narrows the revalidation
+      after: await getProductSnapshot(product.products_id).catch((error) => {
+        console.error('Error loading product snapshot:', error);
+        return null;
+      }),
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/products',
+        entity: 'product',
+        entityId: product.products_id,
+      },
+    });
+
     return NextResponse.json(
       {
         message: 'Product created successfully',
         id: product.products_id,
+        revalidation,
       },
       { status: 201 }
     );
@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import slugify from 'slugify';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
 import {
-  revalidateCustomerApp,
-  getProductRelatedPaths,
-} from '@/lib/revalidateCustomerApp';
+  applyUpdateToSnapshot,
+  buildDryRunResult,
+  diffFields,
+  isDryRun,
+} from '@/lib/revalidationDryRun';
+import {
+  computeEntityRevalidation,
+  getProductSnapshot,
+  isUrgentChange,
+} from '@/lib/revalidationPaths';
 import {
   productFeatureSchema,
   variantAttributeSchema,
@@ -15,12 +22,26 @@ import {
   productPageTestimonialSchema,
   faqItemSchema,
 } from '@/app/(admin)/products/schema'; // Import related schemas
+import { withApiMetrics } from '@/lib/metrics';
+import {
+  loadProductRelated,
+  productGraphRelated,
+  PRODUCT_RELATED_KEYS,
+} from '@/lib/productGraph';
+import { buildEditConflict } from '@/lib/editConflicts';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { productRevisionInfo } from '@/lib/productRevisions';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
 
 // Adjusted Zod schema for updates, including related data
 const updateProductSchema = z.object({
   products_id: z.number().int(), // ID is required for update
   name: z.string().min(2).optional(),
-  slug: z.string().optional(), // Will be validated/regenerated if name changes
+  slug: z.string().optional().nullable(), // Custom slug; regenerated from the name if empty
   description: z.string().optional().nullable(),
   short_description: z.string().optional().nullable(),
   price: z.coerce.number().min(0).optional(),
@@ -61,27 +82,183 @@ const updateProductSchema = z.object({
   seo_title: z.string().optional().nullable(),
   seo_description: z.string().optional().nullable(),
   seo_keywords: z.string().optional().nullable(), // Comma-separated string from client
-  // Related Data Arrays (optional because they might not be sent if unchanged, but expect full arrays for update)
-  images: z.array(z.string().url()).optional().default([]),
-  features: z.array(productFeatureSchema).optional().default([]),
-  variants: z.array(productVariantSchema).optional().default([]),
-  testimonial_videos: z
-    .array(productTestimonialVideoSchema)
-    .optional()
-    .default([]),
-  customer_testimonials: z
-    .array(productPageTestimonialSchema)
-    .optional()
-    .default([]),
-  tags: z.array(z.string().trim().min(1)).optional().default([]),
-  faqs: z.array(faqItemSchema).optional().default([]),
+  // Related Data Arrays: a sent array is the full list; a missing one keeps the saved rows
+  images: z.array(z.string().url()).optional(),
+  features: z.array(productFeatureSchema).optional(),
+  variants: z.array(productVariantSchema).optional(),
+  testimonial_videos: z.array(productTestimonialVideoSchema).optional(),
+  customer_testimonials: z.array(productPageTestimonialSchema).optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  faqs: z.array(faqItemSchema).optional(),
   featured_in_collection_slug: z.string().optional().nullable(),
+  // Empty or null publishes the product in every storefront locale
+  published_locales: z.array(z.string().trim().min(1)).optional().nullable(),
+  // The `updated_at` the editor loaded; a save over a newer version gets a 409
+  updated_at: z.string().min(1, 'updated_at of the loaded product is required'),
+  // Set when the save restores a revision from the History tab
+  restored_from: z.number().int().optional(),
+  // The fields as the editor loaded them; a 409 flags only those changed on both sides
+  base: z.record(z.unknown()).optional(),
 });
 
 // Helper type for validated data
 type ValidatedUpdateData = z.infer<typeof updateProductSchema>;
 
-export async function POST(req: NextRequest) {
+// The validated fields written to the products row itself
+type CoreUpdateData = Omit<
+  ValidatedUpdateData,
+  | 'products_id'
+  | 'images'
+  | 'features'
+  | 'variants'
+  | 'testimonial_videos'
+  | 'customer_testimonials'
+  | 'tags'
+  | 'faqs'
+  | 'seo_keywords'
+  | 'updated_at'
+  | 'restored_from'
+  | 'base'
+>;
+
+// The products row columns an update writes, without `updated_at`
+function productColumns(
+  coreUpdateData: Partial<CoreUpdateData>,
+  seo_keywords: string | null | undefined
+) {
+  const columns = {
+    ...coreUpdateData,
+    // Ensure correct null/number handling as in create
+    sku: coreUpdateData.sku !== undefined ? coreUpdateData.sku : undefined, // Only include if provided
+    mark: coreUpdateData.mark !== undefined ? coreUpdateData.mark : undefined,
+    category_id:
+      coreUpdateData.category_id !== undefined
+        ? coreUpdateData.category_id
+        : undefined,
+    brand_id:
+      coreUpdateData.brand_id !== undefined
+        ? coreUpdateData.brand_id
+        : undefined,
+    subcategory_id:
+      coreUpdateData.subcategory_id !== undefined
+        ? coreUpdateData.subcategory_id
+        : undefined,
+    compare_at_price:
+      coreUpdateData.compare_at_price !== undefined
+        ? coreUpdateData.compare_at_price
+        : undefined,
+    cost_price:
+      coreUpdateData.cost_price !== undefined
+        ? coreUpdateData.cost_price
+        : undefined,
+    initial_stock:
+      coreUpdateData.initial_stock !== undefined
+        ? coreUpdateData.initial_stock
+        : undefined,
+    max_stock:
+      coreUpdateData.max_stock !== undefined
+        ? coreUpdateData.max_stock
+        : undefined,
+    weight:
+      coreUpdateData.weight !== undefined ? coreUpdateData.weight : undefined,
+    weight_unit: coreUpdateData.weight ? coreUpdateData.weight_unit : undefined,
+    dimensions_length:
+      coreUpdateData.dimensions_length !== undefined
+        ? coreUpdateData.dimensions_length
+        : undefined,
+    dimensions_width:
+      coreUpdateData.dimensions_width !== undefined
+        ? coreUpdateData.dimensions_width
+        : undefined,
+    dimensions_height:
+      coreUpdateData.dimensions_height !== undefined
+        ? coreUpdateData.dimensions_height
+        : undefined,
+    dimensions_unit:
+      coreUpdateData.dimensions_length ||
+      coreUpdateData.dimensions_width ||
+      coreUpdateData.dimensions_height
+        ? coreUpdateData.dimensions_unit
+        : undefined,
+    shipping_class:
+      coreUpdateData.shipping_class !== undefined
+        ? coreUpdateData.shipping_class
+        : undefined,
+    seo_title:
+      coreUpdateData.seo_title !== undefined
+        ? coreUpdateData.seo_title
+        : undefined,
+    seo_description:
+      coreUpdateData.seo_description !== undefined
+        ? coreUpdateData.seo_description
+        : undefined,
+    seo_keywords: seo_keywords
+      ? seo_keywords
+          .split(',')
+          .map((kw) => kw.trim())
+          .filter((kw) => kw)
+      : undefined,
+    featured_in_collection_slug:
+      coreUpdateData.featured_in_collection_slug !== undefined
+        ? coreUpdateData.featured_in_collection_slug
+        : undefined,
+    published_locales:
+      coreUpdateData.published_locales !== undefined
+        ? coreUpdateData.published_locales?.length
+          ? coreUpdateData.published_locales
+          : null
+        : undefined,
+  };
+
+  // Remove undefined keys to prevent accidentally nullifying fields
+  Object.keys(columns).forEach((key) => {
+    const currentKey = key as keyof typeof columns;
+    if (columns[currentKey] === undefined) {
+      delete columns[currentKey];
+    }
+  });
+  return columns;
+}
+
+// The version the editor loaded, normalized like the update so the fields
+// of a conflict compare like for like; `null` if it does not validate
+function loadedProductFields(
+  loaded: Record<string, unknown>
+): Record<string, unknown> | null {
+  const validation = updateProductSchema.partial().safeParse(loaded);
+  if (!validation.success) return null;
+  const {
+    products_id,
+    seo_keywords,
+    updated_at,
+    restored_from,
+    base,
+    images,
+    features,
+    variants,
+    testimonial_videos,
+    customer_testimonials,
+    tags,
+    faqs,
+    ...coreLoadedData
+  } = validation.data;
+  return {
+    ...productColumns(coreLoadedData, seo_keywords),
+    ...productGraphRelated({
+      images,
+      features,
+      variants,
+      testimonial_videos,
+      customer_testimonials,
+      tags,
+      faqs,
+    }),
+  };
+}
+
+export const POST = withApiMetrics('POST /api/products/update', updateProduct);
+
+async function updateProduct(req: NextRequest) {
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return NextResponse.json(
@@ -116,228 +293,165 @@ export async function POST(req: NextRequest) {
       tags,
       faqs,
       seo_keywords,
+      updated_at: expectedUpdatedAt,
+      restored_from: restoredFrom,
+      base: loadedBase,
       ...coreUpdateData // Renamed from updateData to coreUpdateData
     }: ValidatedUpdateData = validation.data;
 
-    // Regenerate slug if name changes
-    let newSlug: string | undefined;
-    if (coreUpdateData.name) {
-      newSlug = slugify(coreUpdateData.name, { lower: true, strict: true });
-      // Implement slug uniqueness check if necessary, comparing against other products
-      coreUpdateData.slug = newSlug; // Add slug to the update payload
-    }
-
-    // Fetch the current slug and related paths BEFORE updating
-    const { data: currentProductData, error: fetchError } = await supabase
-      .from('products')
-      .select('slug, category_id, brand_id')
-      .eq('products_id', products_id)
-      .single();
+    // Snapshot the product BEFORE updating so old category/brand/tag pages get refreshed too
+    const productSnapshotBefore = await getProductSnapshot(products_id);
 
-    if (fetchError || !currentProductData) {
-      console.error('Error fetching current product data:', fetchError);
+    if (!productSnapshotBefore) {
+      console.error('Error fetching current product data for', products_id);
       return NextResponse.json(
         { error: 'Could not find product to update' },
         { status: 404 }
       );
     }
 
-    const oldSlug = currentProductData.slug;
-    const oldPaths = await getProductRelatedPaths(products_id);
+    // The editor's custom slug, or one regenerated from a new name; an
+    // unchanged slug is kept even if it is reserved
+    const { base: slugBase, error: slugError } = requestedSlug({
+      ...coreUpdateData,
+      currentSlug: productSnapshotBefore.slug,
+    });
+    if (slugError) {
+      return NextResponse.json({ error: slugError }, { status: 400 });
+    }
+
+    // Made unique among the other products; the current slug is kept as is
+    const slugScope = slugBase
+      ? {
+          entity: 'product' as const,
+          base: slugBase,
+          excludeId: products_id,
+          currentSlug: productSnapshotBefore.slug,
+        }
+      : null;
+    coreUpdateData.slug = slugScope
+      ? await findAvailableSlug(slugScope)
+      : undefined;
 
     // Prepare the final update payload for the core product table
     const dataToUpdate = {
-      ...coreUpdateData,
-      // Ensure correct null/number handling as in create
-      sku: coreUpdateData.sku !== undefined ? coreUpdateData.sku : undefined, // Only include if provided
-      mark: coreUpdateData.mark !== undefined ? coreUpdateData.mark : undefined,
-      category_id:
-        coreUpdateData.category_id !== undefined
-          ? coreUpdateData.category_id
-          : undefined,
-      brand_id:
-        coreUpdateData.brand_id !== undefined
-          ? coreUpdateData.brand_id
-          : undefined,
-      subcategory_id:
-        coreUpdateData.subcategory_id !== undefined
-          ? coreUpdateData.subcategory_id
-          : undefined,
-      compare_at_price:
-        coreUpdateData.compare_at_price !== undefined
-          ? coreUpdateData.compare_at_price
-          : undefined,
-      cost_price:
-        coreUpdateData.cost_price !== undefined
-          ? coreUpdateData.cost_price
-          : undefined,
-      initial_stock:
-        coreUpdateData.initial_stock !== undefined
-          ? coreUpdateData.initial_stock
-          : undefined,
-      max_stock:
-        coreUpdateData.max_stock !== undefined
-          ? coreUpdateData.max_stock
-          : undefined,
-      weight:
-        coreUpdateData.weight !== undefined ? coreUpdateData.weight : undefined,
-      weight_unit: coreUpdateData.weight
-        ? coreUpdateData.weight_unit
-        : undefined,
-      dimensions_length:
-        coreUpdateData.dimensions_length !== undefined
-          ? coreUpdateData.dimensions_length
-          : undefined,
-      dimensions_width:
-        coreUpdateData.dimensions_width !== undefined
-          ? coreUpdateData.dimensions_width
-          : undefined,
-      dimensions_height:
-        coreUpdateData.dimensions_height !== undefined
-          ? coreUpdateData.dimensions_height
-          : undefined,
-      dimensions_unit:
-        coreUpdateData.dimensions_length ||
-        coreUpdateData.dimensions_width ||
-        coreUpdateData.dimensions_height
-          ? coreUpdateData.dimensions_unit
-          : undefined,
-      shipping_class:
-        coreUpdateData.shipping_class !== undefined
-          ? coreUpdateData.shipping_class
-          : undefined,
-      seo_title:
-        coreUpdateData.seo_title !== undefined
-          ? coreUpdateData.seo_title
-          : undefined,
-      seo_description:
-        coreUpdateData.seo_description !== undefined
-          ? coreUpdateData.seo_description
-          : undefined,
-      seo_keywords: seo_keywords
-        ? seo_keywords
-            .split(',')
-            .map((kw) => kw.trim())
-            .filter((kw) => kw)
-        : undefined,
-      featured_in_collection_slug:
-        coreUpdateData.featured_in_collection_slug !== undefined
-          ? coreUpdateData.featured_in_collection_slug
-          : undefined,
+      ...productColumns(coreUpdateData, seo_keywords),
       updated_at: new Date().toISOString(), // Force update timestamp
     };
 
-    // Remove undefined keys to prevent accidentally nullifying fields
-    Object.keys(dataToUpdate).forEach((key) => {
-      const currentKey = key as keyof typeof dataToUpdate;
-      if (dataToUpdate[currentKey] === undefined) {
-        delete dataToUpdate[currentKey];
-      }
-    });
-
-    // Start transaction simulation (delete old related data, update core, insert new related data)
-    const relatedDataErrors: string[] = [];
-
-    // --- Delete all existing related data first (Simpler strategy) ---
-
-    // 1. Get IDs of variants to delete their related attributes/features
-    const { data: variantIdsData, error: variantIdsError } = await supabase
-      .from('product_variants')
-      .select('id')
-      .eq('product_id', products_id);
-
-    if (variantIdsError) {
-      console.error(
-        'Error fetching variant IDs for deletion:',
-        variantIdsError
-      );
-      relatedDataErrors.push(
-        `Failed to fetch variant IDs: ${variantIdsError.message}`
-      );
-      // Potentially return error early if this is critical
-    }
-
-    const variantIdsToDelete = variantIdsData?.map((v) => v.id) || [];
+    // Dry run: report what would be written and revalidated, write nothing
+    if (isDryRun(req)) {
+      const { data: currentProduct, error: currentProductError } =
+        await supabase
+          .from('products')
+          .select('*')
+          .eq('products_id', products_id)
+          .single();
 
-    // 2. Setup deletion promises
-    const deletePromises = [
-      supabase.from('product_images').delete().eq('product_id', products_id),
-      supabase.from('product_features').delete().eq('product_id', products_id),
-      supabase.from('product_tags').delete().eq('product_id', products_id),
-      supabase.from('product_faqs').delete().eq('product_id', products_id),
-      supabase
-        .from('product_testimonial_videos')
-        .delete()
-        .eq('product_id', products_id),
-      supabase
-        .from('customer_testimonials')
-        .delete()
-        .eq('products_id', products_id), // Check column name!
-    ];
+      if (currentProductError || !currentProduct) {
+        console.error(
+          'Error fetching current product for dry run:',
+          currentProductError
+        );
+        return NextResponse.json(
+          { error: 'Could not find product to update' },
+          { status: 404 }
+        );
+      }
 
-    // Conditionally add variant attribute/feature deletions if variant IDs were fetched
-    if (variantIdsToDelete.length > 0) {
-      deletePromises.push(
-        supabase
-          .from('variant_attributes')
-          .delete()
-          .in('variant_id', variantIdsToDelete)
-      );
-      deletePromises.push(
-        supabase
-          .from('variant_features')
-          .delete()
-          .in('variant_id', variantIdsToDelete)
-      );
-    } else if (!variantIdsError) {
-      // No variants existed, no need to delete attributes/features
-      console.log(
-        'No variants found for product, skipping attribute/feature deletion.'
+      const productChange = {
+        entity: 'product' as const,
+        before: productSnapshotBefore,
+        after: applyUpdateToSnapshot(productSnapshotBefore, {
+          ...dataToUpdate,
+          ...(tags ? { tags } : {}),
+        }),
+        changedFields: Object.keys(body).filter(
+          (key) => key !== 'products_id' && key !== 'base'
+        ),
+      };
+      const dryRun = await buildDryRunResult(
+        {
+          table: 'products',
+          operation: 'update',
+          data: dataToUpdate,
+          changes: diffFields(currentProduct, dataToUpdate),
+          related: Object.fromEntries(
+            Object.entries({
+              images,
+              features,
+              variants,
+              testimonial_videos,
+              customer_testimonials,
+              tags,
+              faqs,
+            })
+              .filter(([, rows]) => rows !== undefined)
+              .map(([key, rows]) => [key, rows!.length])
+          ),
+        },
+        productChange
       );
+      return NextResponse.json(dryRun, { status: 200 });
     }
-    // If variantIdsError occurred, we skip deleting attributes/features to avoid partial deletion issues
 
-    // 3. Execute deletions
-    const deleteResults = await Promise.allSettled(deletePromises);
-    deleteResults.forEach((result, index) => {
-      if (result.status === 'rejected') {
-        // Note: Index mapping might be slightly off due to conditional pushes, consider better error source logging
-        const errorMsg = `Error deleting related data group ${index}: ${result.reason?.message || 'Unknown error'}`;
-        console.error(errorMsg, result.reason);
-        relatedDataErrors.push(errorMsg);
-      }
+    // Update the product and sync its related data in one transaction, so a
+    // failure leaves the product as it was. Related rows are matched by ID
+    // and keep it; only removed rows are deleted. Arrays that were not sent
+    // are written back as saved.
+    const sentRelated = productGraphRelated({
+      images,
+      features,
+      variants,
+      testimonial_videos,
+      customer_testimonials,
+      tags,
+      faqs,
     });
-
-    // 4. Conditionally delete variants themselves only if attribute/feature deletion didn't fail explicitly
-    if (
-      variantIdsToDelete.length > 0 &&
-      !relatedDataErrors.some(
-        (e) =>
-          e.includes('variant_attributes') || e.includes('variant_features')
-      )
-    ) {
-      const { error: deleteVariantsError } = await supabase
-        .from('product_variants')
-        .delete()
-        .in('id', variantIdsToDelete); // Use the fetched IDs here too
-      if (deleteVariantsError) {
-        const errorMsg = `Error deleting variants: ${deleteVariantsError.message}`;
-        console.error(errorMsg, deleteVariantsError);
-        relatedDataErrors.push(errorMsg);
-      }
-    }
-    // --- End Deletion Phase ---
-
-    // --- Update Core Product --- (Do this *after* successful deletions or handle potential FK issues)
-    const { error: updateError } = await supabase
-      .from('products')
-      .update(dataToUpdate)
-      .eq('products_id', products_id);
+    const savedRelated = PRODUCT_RELATED_KEYS.every((key) => key in sentRelated)
+      ? null
+      : await loadProductRelated(products_id);
+    // Recorded as the author of the revision the save adds
+    const author = await getAdminUserFromRequest(req);
+    const { error: updateError, slug } = await writeWithUniqueSlug(
+      slugScope,
+      coreUpdateData.slug,
+      (uniqueSlug) =>
+        supabase.rpc('update_product_graph', {
+          product: { products_id, ...dataToUpdate, slug: uniqueSlug },
+          related: { ...savedRelated, ...sentRelated },
+          expected_updated_at: expectedUpdatedAt,
+          revision: productRevisionInfo(author, restoredFrom),
+        })
+    );
 
     if (updateError) {
       console.error('Supabase update error:', updateError);
+      // Someone saved the product after the editor loaded it
+      if (updateError.code === '40001') {
+        const [{ data: savedProduct }, currentRelated] = await Promise.all([
+          supabase
+            .from('products')
+            .select('*')
+            .eq('products_id', products_id)
+            .maybeSingle(),
+          loadProductRelated(products_id),
+        ]);
+        return NextResponse.json(
+          {
+            error:
+              'This product was changed by someone else after you opened it',
+            conflict: buildEditConflict(
+              { ...savedProduct, ...currentRelated },
+              { ...dataToUpdate, ...sentRelated },
+              loadedBase && loadedProductFields(loadedBase)
+            ),
+          },
+          { status: 409 }
+        );
+      }
       // Handle potential errors like unique constraint violations (e.g., slug conflict)
-      if (updateError?.code === '23505') {
+      if (updateError.code === '23505') {
         return NextResponse.json(
           {
             error: `Product update failed: ${updateError.details || 'Duplicate value exists'}`,
@@ -345,228 +459,52 @@ export async function POST(req: NextRequest) {
           { status: 409 }
         );
       }
+      // Deleted since the snapshot above was taken
+      if (updateError.code === 'P0002') {
+        return NextResponse.json(
+          { error: 'Could not find product to update' },
+          { status: 404 }
+        );
+      }
       return NextResponse.json(
         { error: `Failed to update product: ${updateError.message}` },
         { status: 500 }
       );
     }
 
-    // --- Insert New Related Data (Similar logic as in create route) ---
-    // Use products_id instead of newProductId
-
-    // 2. Insert Images
-    if (images && images.length > 0) {
-      const imagesToInsert = images.map((url, index) => ({
-        product_id: products_id,
-        url,
-        is_primary: index === 0,
-        sort_order: index,
-      }));
-      const { error } = await supabase
-        .from('product_images')
-        .insert(imagesToInsert);
-      if (error) {
-        console.error('Error inserting images:', error);
-        relatedDataErrors.push(`Images: ${error.message}`);
-      }
-    }
-
-    // 3. Insert Product Features
-    if (features && features.length > 0) {
-      const featuresToInsert = features.map((f) => ({
-        product_id: products_id,
-        feature_text: f.feature_text,
-      }));
-      const { error } = await supabase
-        .from('product_features')
-        .insert(featuresToInsert);
-      if (error) {
-        console.error('Error inserting product features:', error);
-        relatedDataErrors.push(`Features: ${error.message}`);
-      }
-    }
-
-    // 4. Insert Tags
-    if (tags && tags.length > 0) {
-      const tagsToInsert = tags.map((tagText) => ({
-        product_id: products_id,
-        tag_text: tagText,
-      }));
-      const { error } = await supabase
-        .from('product_tags')
-        .insert(tagsToInsert);
-      if (error) {
-        console.error('Error inserting tags:', error);
-        relatedDataErrors.push(`Tags: ${error.message}`);
+    // Trigger revalidation for pages showing the product before and after
+    // the update. The product is saved; a failed load only narrows it.
+    const productSnapshotAfter = await getProductSnapshot(products_id).catch(
+      (error) => {
+        console.error('Error loading product snapshot:', error);
+        return null;
       }
-    }
-
-    // 5. Insert FAQs
-    if (faqs && faqs.length > 0) {
-      const faqsToInsert = faqs.map((faq) => ({
-        product_id: products_id,
-        question: faq.question,
-        answer: faq.answer,
-      }));
-      const { error } = await supabase
-        .from('product_faqs')
-        .insert(faqsToInsert);
-      if (error) {
-        console.error('Error inserting FAQs:', error);
-        relatedDataErrors.push(`FAQs: ${error.message}`);
-      }
-    }
-
-    // 6. Insert Testimonial Videos
-    if (testimonial_videos && testimonial_videos.length > 0) {
-      const videosToInsert = testimonial_videos.map((video) => ({
-        product_id: products_id,
-        video_url: video.video_url,
-        title: video.title || null,
-        description: video.description || null,
-        uploader_name: video.uploader_name || null,
-      }));
-      const { error } = await supabase
-        .from('product_testimonial_videos')
-        .insert(videosToInsert);
-      if (error) {
-        console.error('Error inserting testimonial videos:', error);
-        relatedDataErrors.push(`Testimonial Videos: ${error.message}`);
-      }
-    }
-
-    // 7. Insert Customer Testimonials
-    if (customer_testimonials && customer_testimonials.length > 0) {
-      const testimonialsToInsert = customer_testimonials.map((test) => ({
-        products_id: products_id,
-        customer_name: test.customer_name,
-        testimonial_text: test.testimonial_text,
-        rating: test.rating ?? null,
-        customer_image_url: test.customer_image_url || null,
-      }));
-      const { error } = await supabase
-        .from('customer_testimonials')
-        .insert(testimonialsToInsert);
-      if (error) {
-        console.error('Error inserting customer testimonials:', error);
-        relatedDataErrors.push(`Customer Testimonials: ${error.message}`);
-      }
-    }
-
-    // 8. Insert Variants and their nested data
-    if (variants && variants.length > 0) {
-      for (const variant of variants) {
-        const { attributes, variant_features, ...coreVariantData } = variant;
-        const variantInsertData = {
-          ...coreVariantData,
-          id: undefined, // Ensure we insert new variants after deletion
-          product_id: products_id,
-          price: coreVariantData.price ?? null,
-          compare_at_price: coreVariantData.compare_at_price ?? null,
-          sku: coreVariantData.sku ?? null,
-          quantity: coreVariantData.quantity ?? null,
-          image_url: coreVariantData.image_url ?? null,
-          icon_url: coreVariantData.icon_url ?? null,
-        };
-        const { data: newVariant, error: variantError } = await supabase
-          .from('product_variants')
-          .insert(variantInsertData)
-          .select('id')
-          .single();
-        if (variantError || !newVariant) {
-          console.error('Error inserting variant:', variantError);
-          relatedDataErrors.push(
-            `Variant (${variant.name || 'Unnamed'}): ${variantError?.message || 'Failed to insert'}`
-          );
-          continue;
-        }
-        const newVariantId = newVariant.id;
-        // Insert Variant Attributes
-        if (attributes && attributes.length > 0) {
-          const attributesToInsert = attributes
-            .filter((a) => a.name && a.value)
-            .map((attr) => ({
-              variant_id: newVariantId,
-              name: attr.name,
-              value: attr.value,
-            }));
-          if (attributesToInsert.length > 0) {
-            const { error: attrError } = await supabase
-              .from('variant_attributes')
-              .insert(attributesToInsert);
-            if (attrError) {
-              console.error(
-                `Error inserting attributes for variant ${newVariantId}:`,
-                attrError
-              );
-              relatedDataErrors.push(
-                `Variant Attributes (${variant.name}): ${attrError.message}`
-              );
-            }
-          }
-        }
-        // Insert Variant Features
-        if (variant_features && variant_features.length > 0) {
-          const featuresToInsert = variant_features
-            .filter((f) => f.feature_text)
-            .map((feat) => ({
-              variant_id: newVariantId,
-              feature_text: feat.feature_text,
-              icon_url: feat.icon_url ?? null,
-            }));
-          if (featuresToInsert.length > 0) {
-            const { error: featError } = await supabase
-              .from('variant_features')
-              .insert(featuresToInsert);
-            if (featError) {
-              console.error(
-                `Error inserting features for variant ${newVariantId}:`,
-                featError
-              );
-              relatedDataErrors.push(
-                `Variant Features (${variant.name}): ${featError.message}`
-              );
-            }
-          }
-        }
-      }
-    }
-    // --- End Inserting Related Data ---
-
-    // Trigger revalidation (fire and forget)
-    const newPaths = await getProductRelatedPaths(products_id); // Get potentially new paths after update
-    const pathsToRevalidate = [
-      '/', // Homepage
-      '/products', // Product list
-      `/products/${newSlug || oldSlug}`, // Updated product page (using new slug if changed)
-    ];
-    if (oldSlug !== newSlug) {
-      // If slug changed, we might want to revalidate the old path too,
-      // though it might lead to a 404 if the customer app removes pages immediately.
-      // Revalidating listing pages is safer.
-      // pathsToRevalidate.push(`/products/${oldSlug}`);
-    }
-
-    // Add old and new category/brand paths
-    if (oldPaths.categoryPath) pathsToRevalidate.push(oldPaths.categoryPath);
-    if (oldPaths.brandPath) pathsToRevalidate.push(oldPaths.brandPath);
-    if (newPaths.categoryPath) pathsToRevalidate.push(newPaths.categoryPath);
-    if (newPaths.brandPath) pathsToRevalidate.push(newPaths.brandPath);
-
-    await revalidateCustomerApp({
-      paths: Array.from(new Set(pathsToRevalidate)),
+    );
+    const productChange = {
+      entity: 'product' as const,
+      before: productSnapshotBefore,
+      after: productSnapshotAfter,
+      changedFields: Object.keys(body).filter(
+        (key) => key !== 'products_id' && key !== 'base'
+      ),
+    };
+    const entityRevalidation = await computeEntityRevalidation(productChange);
+
+    // Price corrections skip batching so storefronts never show a stale price
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      immediate: isUrgentChange(productChange),
+      trigger: {
+        source: 'POST /api/products/update',
+        entity: 'product',
+        entityId: products_id,
+      },
     });
 
-    const responseMessage =
-      relatedDataErrors.length === 0
-        ? 'Product and all related data updated successfully'
-        : `Product updated, but errors occurred with related data: ${relatedDataErrors.join('; ')}`;
-
     return NextResponse.json(
       {
-        message: responseMessage,
-        updatedProduct: { products_id, ...coreUpdateData }, // Return core data sent for update
-        errors: relatedDataErrors.length > 0 ? relatedDataErrors : undefined,
+        message: 'Product and all related data updated successfully',
+        updatedProduct: { products_id, ...coreUpdateData, slug }, // Return core data sent for update
+        revalidation,
       },
       { status: 200 }
     );
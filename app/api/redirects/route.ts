@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSlugRedirects } from '@/lib/slugRedirects';
+import { getStorefronts, normalizeBaseUrl } from '@/lib/storefrontConfig';
+
+// How long storefronts and CDNs may cache the feed. Storefronts using cache
+// tags can cache it longer: renames revalidate the `redirects` tag.
+const CACHE_SECONDS = 300;
+
+// Redirects from the old URLs of renamed products, categories, subcategories
+// and brands to their current URL, in the shape of Next.js `redirects()`.
+// `?storefront=<base URL>` renders them with that storefront's route
+// templates and locale prefixes; without it the default templates are used
+// and paths are unprefixed. Public: the old URLs were public pages, so
+// nothing here is secret.
+export async function GET(req: NextRequest) {
+  try {
+    const storefrontParam = req.nextUrl.searchParams.get('storefront');
+    let templates;
+    let locales;
+    if (storefrontParam) {
+      const baseUrl = normalizeBaseUrl(storefrontParam);
+      const storefront = (await getStorefronts()).find(
+        (candidate) => normalizeBaseUrl(candidate.baseUrl) === baseUrl
+      );
+      if (!storefront) {
+        return NextResponse.json(
+          { error: `Unknown storefront: ${storefrontParam}` },
+          { status: 404 }
+        );
+      }
+      templates = storefront.routeTemplates;
+      locales = storefront.locales;
+    }
+
+    const redirects = await getSlugRedirects(templates, locales);
+    return NextResponse.json(
+      { redirects },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${CACHE_SECONDS}, stale-while-revalidate=${CACHE_SECONDS}`,
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error('Error in redirects API route:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
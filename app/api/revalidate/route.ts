@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import {
+  planRevalidation,
+  revalidateCustomerApp,
+  type RevalidationRequest,
+} from '@/lib/revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getBrandSnapshot,
+  getCategorySnapshot,
+  getProductSnapshot,
+  getSubcategorySnapshot,
+  type EntityChange,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
+
+const manualRevalidationSchema = z
+  .object({
+    paths: z
+      .array(z.string().trim().startsWith('/', 'Paths must start with "/"'))
+      .optional()
+      .default([]),
+    tags: z.array(z.string().trim().min(1)).optional().default([]),
+    entity: z
+      .object({
+        type: z.enum(['product', 'category', 'subcategory', 'brand']),
+        id: z.coerce.number().int().positive(),
+      })
+      .optional(),
+    targets: z.array(z.string().url()).optional(),
+    preview: z.boolean().optional().default(false),
+  })
+  .refine(
+    (data) => data.paths.length > 0 || data.tags.length > 0 || data.entity,
+    { message: 'Provide paths, tags or an entity to revalidate' }
+  );
+
+// Loads the entity and treats it as changed in place, which yields every
+// page and tag that shows it.
+async function entityChangeFor(entity: {
+  type: Exclude<EntityChange['entity'], 'testimonial'>;
+  id: number;
+}): Promise<EntityChange | null> {
+  switch (entity.type) {
+    case 'product': {
+      const snapshot = await getProductSnapshot(entity.id);
+      return snapshot
+        ? { entity: 'product', before: snapshot, after: snapshot }
+        : null;
+    }
+    case 'category': {
+      const snapshot = await getCategorySnapshot(entity.id);
+      return snapshot
+        ? { entity: 'category', before: snapshot, after: snapshot }
+        : null;
+    }
+    case 'subcategory': {
+      const snapshot = await getSubcategorySnapshot(entity.id);
+      return snapshot
+        ? { entity: 'subcategory', before: snapshot, after: snapshot }
+        : null;
+    }
+    case 'brand': {
+      const snapshot = await getBrandSnapshot(entity.id);
+      return snapshot
+        ? { entity: 'brand', before: snapshot, after: snapshot }
+        : null;
+    }
+  }
+}
+
+export const POST = withApiMetrics('POST /api/revalidate', revalidate);
+
+// Manual revalidation console: revalidates arbitrary paths/tags and/or every
+// page of an entity, e.g. after a direct SQL fix. With `preview: true` it only
+// returns what each storefront would be sent. Admins only.
+async function revalidate(req: NextRequest) {
+  const adminUser = await getAdminUserFromRequest(req);
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = manualRevalidationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid revalidation request',
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+    const { paths, tags, entity, targets, preview } = validation.data;
+
+    const revalidationRequest: RevalidationRequest = { paths, tags };
+    if (entity) {
+      const change = await entityChangeFor(entity);
+      if (!change) {
+        return NextResponse.json(
+          { error: `Could not find ${entity.type} ${entity.id}` },
+          { status: 404 }
+        );
+      }
+      const entityRevalidation = await computeEntityRevalidation(change);
+      revalidationRequest.routes = entityRevalidation.routes;
+      revalidationRequest.tags = Array.from(
+        new Set([...tags, ...entityRevalidation.tags])
+      );
+    }
+
+    if (preview) {
+      const plan = await planRevalidation(revalidationRequest, { targets });
+      if ('error' in plan) {
+        return NextResponse.json({ error: plan.error }, { status: 500 });
+      }
+      return NextResponse.json({
+        deliveries: plan.deliveries,
+        skipped: plan.skipped,
+      });
+    }
+
+    console.log(
+      `Manual revalidation requested by ${adminUser.email ?? adminUser.id}`
+    );
+    const revalidation = await revalidateCustomerApp(revalidationRequest, {
+      immediate: true,
+      targets,
+      trigger: {
+        source: 'POST /api/revalidate',
+        entity: entity?.type,
+        entityId: entity?.id ?? null,
+      },
+    });
+
+    return NextResponse.json({ revalidation });
+  } catch (error: any) {
+    console.error('Error in manual revalidation API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { resetCircuitBreaker } from '@/lib/revalidationCircuitBreaker';
+import { withApiMetrics } from '@/lib/metrics';
+
+const resetSchema = z.object({
+  targetUrl: z.string().url(),
+});
+
+export const POST = withApiMetrics(
+  'POST /api/revalidation/circuit-breakers/reset',
+  resetBreaker
+);
+
+// Closes a storefront's circuit breaker so its postponed revalidations are
+// sent again without waiting for the cooldown. Admins only.
+async function resetBreaker(req: NextRequest) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = resetSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const breaker = await resetCircuitBreaker(validation.data.targetUrl);
+    if (!breaker) {
+      return NextResponse.json(
+        { error: 'No circuit breaker for this storefront' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ breaker });
+  } catch (error: any) {
+    console.error('Error in circuit breaker reset API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
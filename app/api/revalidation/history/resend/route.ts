@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import {
+  deliverOutboxEntry,
+  enqueueRevalidation,
+  sendRevalidationWithoutOutbox,
+} from '@/lib/revalidationOutbox';
+import type {
+  RevalidationPayload,
+  RevalidationTargetResult,
+  RevalidationTrigger,
+} from '@/lib/revalidateCustomerApp';
+import { withApiMetrics } from '@/lib/metrics';
+
+const resendSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export const POST = withApiMetrics(
+  'POST /api/revalidation/history/resend',
+  resendRevalidation
+);
+
+// Re-sends the payload of a revalidation history entry to the same storefront.
+// The new attempt goes through the outbox (so it is retried if it fails
+// again) and shows up as a new history entry. Admins only.
+async function resendRevalidation(req: NextRequest) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const body = await req.json();
+    const validation = resendSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { id } = validation.data;
+
+    const { data: logEntry, error: fetchError } = await supabase
+      .from('revalidation_log')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching revalidation log entry:', fetchError);
+      return NextResponse.json(
+        { error: `Failed to load history entry: ${fetchError.message}` },
+        { status: 500 }
+      );
+    }
+    if (!logEntry) {
+      return NextResponse.json(
+        { error: 'History entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const delivery = {
+      targetUrl: logEntry.target_url,
+      payload: logEntry.payload as RevalidationPayload,
+    };
+    // Keep the original triggers so the resend matches the same filters
+    const triggers: RevalidationTrigger[] = [
+      {
+        source: 'POST /api/revalidation/history/resend',
+        entity: 'revalidation_log',
+        entityId: logEntry.id,
+      },
+      ...(Array.isArray(logEntry.triggers)
+        ? (logEntry.triggers as unknown as RevalidationTrigger[])
+        : []),
+    ];
+
+    let result: RevalidationTargetResult | null;
+    try {
+      const [entry] = await enqueueRevalidation([delivery], triggers);
+      ({ result } = await deliverOutboxEntry(entry));
+    } catch (error) {
+      console.error(
+        'Could not write revalidation outbox, resending directly:',
+        error
+      );
+      result = await sendRevalidationWithoutOutbox(delivery, triggers);
+    }
+
+    const target = result ?? {
+      url: delivery.targetUrl,
+      ok: true,
+      status: null,
+      latencyMs: 0,
+      error: null,
+    };
+
+    return NextResponse.json(
+      {
+        message: target.ok
+          ? 'Revalidation re-sent successfully'
+          : 'Revalidation re-sent but the storefront rejected it',
+        revalidation: { ok: target.ok, targets: [target] },
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error in resend revalidation API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import {
+  runRevalidationJob,
+  updateRevalidationJobStatus,
+} from '@/lib/revalidationJobs';
+
+const jobActionSchema = z.object({
+  action: z.enum(['pause', 'resume', 'cancel']),
+});
+
+// Pauses, resumes or cancels a "revalidate everything" job. Admins only.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const adminUser = await getAdminUserFromRequest(req);
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const jobId = Number(params.id);
+  if (!Number.isInteger(jobId) || jobId <= 0) {
+    return NextResponse.json({ error: 'Invalid job ID' }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = jobActionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { action } = validation.data;
+    const job = await updateRevalidationJobStatus(jobId, action);
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job ${jobId} not found or cannot be ${action}d` },
+        { status: 409 }
+      );
+    }
+    if (job.status === 'running') {
+      after(() => runRevalidationJob(job.id));
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    console.error('Error updating revalidation job:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import {
+  REVALIDATION_JOB_SUMMARY_COLUMNS,
+  createRevalidationJob,
+  runRevalidationJob,
+} from '@/lib/revalidationJobs';
+import { withApiMetrics } from '@/lib/metrics';
+
+// Jobs shown in the admin; older ones only matter as history
+const JOBS_LIMIT = 10;
+
+const startJobSchema = z.object({
+  targets: z.array(z.string().url()).optional(),
+});
+
+// Latest "revalidate everything" jobs and their progress. Admins only.
+export async function GET(req: NextRequest) {
+  const adminUser = await getAdminUserFromRequest(req);
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('revalidation_jobs')
+      .select(REVALIDATION_JOB_SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(JOBS_LIMIT);
+
+    if (error) {
+      return NextResponse.json(
+        { error: `Failed to load revalidation jobs: ${error.message}` },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json({ jobs: data || [] });
+  } catch (error: any) {
+    console.error('Error in revalidation jobs API route:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiMetrics(
+  'POST /api/revalidation/jobs',
+  startRevalidationJob
+);
+
+// Starts revalidating the whole active catalog. The first run starts after
+// the response; the job worker (`/api/revalidation/jobs/worker`) carries on
+// from there. Admins only.
+async function startRevalidationJob(req: NextRequest) {
+  const adminUser = await getAdminUserFromRequest(req);
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const validation = startJobSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const job = await createRevalidationJob({
+      targets: validation.data.targets,
+      createdBy: adminUser.id,
+    });
+    after(() => runRevalidationJob(job.id));
+
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error starting revalidation job:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
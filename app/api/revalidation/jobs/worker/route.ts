@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processRevalidationJobs } from '@/lib/revalidationJobs';
+
+// Job worker: continues "revalidate everything" jobs that no request is
+// working on (the first run happens right after the job is started). Call
+// it every minute with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Error: CRON_SECRET environment variable is not set.');
+    return NextResponse.json(
+      { error: 'Revalidation job worker is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const job = await processRevalidationJobs();
+    return NextResponse.json({ job }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error in revalidation job worker:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processRevalidationOutbox } from '@/lib/revalidationOutbox';
+
+// Outbox worker: delivers due revalidation rows and reschedules failures.
+// Call it on a schedule (Vercel Cron, Supabase pg_cron + pg_net, etc.) with
+// `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Error: CRON_SECRET environment variable is not set.');
+    return NextResponse.json(
+      { error: 'Outbox worker is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const batchSize = Number.parseInt(
+      req.nextUrl.searchParams.get('limit') || '50',
+      10
+    );
+    const summary = await processRevalidationOutbox(
+      Number.isFinite(batchSize) && batchSize > 0 ? batchSize : 50
+    );
+    console.log('Revalidation outbox run finished:', summary);
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error: any) {
+    console.error('Error in revalidation outbox worker:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { clearStorefrontCache } from '@/lib/storefrontConfig';
+import {
+  storefrontSchema,
+  toStorefrontListItem,
+} from '@/app/(admin)/settings/storefronts/schema';
+
+// Only the fields that are sent change; `secret: null` removes the secret.
+const updateStorefrontSchema = storefrontSchema.partial();
+
+// Updates a storefront. Admins only.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = updateStorefrontSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid storefront data',
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const dataToUpdate = {
+      ...validation.data,
+      updated_at: new Date().toISOString(),
+    };
+
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('storefronts')
+      .update(dataToUpdate)
+      .eq('id', Number(params.id))
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase storefront update error:', error);
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A storefront with this base URL already exists' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: `Failed to update storefront: ${error.message}` },
+        { status: 500 }
+      );
+    }
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Storefront not found' },
+        { status: 404 }
+      );
+    }
+
+    clearStorefrontCache();
+    return NextResponse.json({ storefront: toStorefrontListItem(data) });
+  } catch (error: any) {
+    console.error('Error in update storefront API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Removes a storefront. Revalidations already queued for it are still
+// delivered. Admins only.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase
+      .from('storefronts')
+      .delete()
+      .eq('id', Number(params.id));
+
+    if (error) {
+      console.error('Supabase storefront delete error:', error);
+      return NextResponse.json(
+        { error: `Failed to delete storefront: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    clearStorefrontCache();
+    return NextResponse.json({ message: 'Storefront deleted successfully' });
+  } catch (error: any) {
+    console.error('Error in delete storefront API route:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import {
+  getStorefrontHealth,
+  runStorefrontHealthChecks,
+} from '@/lib/storefrontHealth';
+
+// Latest health check of every configured storefront. Admins only.
+export async function GET(req: NextRequest) {
+  const adminUser = await getAdminUserFromRequest(req);
+  if (!adminUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const storefronts = await getStorefrontHealth();
+    return NextResponse.json({ storefronts });
+  } catch (error: any) {
+    console.error('Error in storefront health API route:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Checks every storefront now. Called by the dashboard's "Check now" button
+// (admins) and on a schedule with `Authorization: Bearer <CRON_SECRET>`.
+export async function POST(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron =
+    !!cronSecret && req.headers.get('authorization') === `Bearer ${cronSecret}`;
+  if (!isCron && !(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const storefronts = await runStorefrontHealthChecks();
+    console.log(
+      'Storefront health checks finished:',
+      storefronts.map(
+        ({ targetUrl, health }) => `${targetUrl}: ${health?.status}`
+      )
+    );
+    return NextResponse.json({ storefronts });
+  } catch (error: any) {
+    console.error('Error running storefront health checks:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
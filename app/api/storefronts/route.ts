@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { clearStorefrontCache, getStorefronts } from '@/lib/storefrontConfig';
+import {
+  storefrontSchema,
+  toStorefrontListItem,
+} from '@/app/(admin)/settings/storefronts/schema';
+
+// Lists the storefront registry. While it is empty, `fallback` holds the
+// storefronts revalidation currently uses from CUSTOMER_APP_BASE_URLS.
+// Admins only.
+export async function GET(req: NextRequest) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('storefronts')
+      .select('*')
+      .order('id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to read storefronts: ${error.message}`);
+    }
+
+    const storefronts = (data || []).map(toStorefrontListItem);
+    const fallback =
+      storefronts.length === 0
+        ? (await getStorefronts()).map((storefront) => storefront.baseUrl)
+        : [];
+
+    return NextResponse.json({ storefronts, fallback });
+  } catch (error: any) {
+    console.error('Error in storefronts API route:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds a storefront. Admins only.
+export async function POST(req: NextRequest) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = storefrontSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid storefront data',
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('storefronts')
+      .insert({ ...validation.data, secret: validation.data.secret ?? null })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('Supabase storefront insert error:', error);
+      if (error?.code === '23505') {
+        return NextResponse.json(
+          { error: 'A storefront with this base URL already exists' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: `Failed to create storefront: ${error?.message}` },
+        { status: 500 }
+      );
+    }
+
+    clearStorefrontCache();
+    return NextResponse.json(
+      { storefront: toStorefrontListItem(data) },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Error in create storefront API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import { computeEntityRevalidation } from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
+
+const createSubcategorySchema = z.object({
+  category_id: z.number().int(),
+  name: z.string().min(1, 'Subcategory name is required'),
+  slug: z.string().optional().nullable(), // Custom slug; generated from the name if empty
+  status: z.enum(['active', 'draft']).default('active'),
+  display_order: z.number().int().min(0).default(0),
+});
+
+export const POST = withApiMetrics(
+  'POST /api/subcategories/create',
+  createSubcategory
+);
+
+// Creates a subcategory of a category (from the category edit page). The
+// slug is unique within the category. Admins only.
+async function createSubcategory(req: NextRequest) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const body = await req.json();
+    const validation = createSubcategorySchema.safeParse(body);
+
+    if (!validation.success) {
+      console.error('Subcategory Validation Errors:', validation.error.errors);
+      return NextResponse.json(
+        {
+          error: 'Invalid subcategory data',
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const subcategoryData = validation.data;
+
+    // The editor's custom slug, or one built from the name, made unique
+    const { base: slugBase, error: slugError } = requestedSlug(subcategoryData);
+    if (!slugBase) {
+      return NextResponse.json(
+        { error: slugError || 'A name or slug is required' },
+        { status: 400 }
+      );
+    }
+    const slugScope = {
+      entity: 'subcategory' as const,
+      base: slugBase,
+      categoryId: subcategoryData.category_id,
+    };
+    const slug = await findAvailableSlug(slugScope);
+
+    const { data: newSubcategory, error: insertError } =
+      await writeWithUniqueSlug<{
+        id: number;
+        slug: string;
+        category_id: number;
+      }>(slugScope, slug, (uniqueSlug) =>
+        supabase
+          .from('subcategories')
+          .insert({ ...subcategoryData, slug: uniqueSlug })
+          .select('id, slug, category_id')
+          .single()
+      );
+
+    if (insertError || !newSubcategory) {
+      console.error('Supabase subcategory insert error:', insertError);
+      if (insertError?.code === '23505') {
+        return NextResponse.json(
+          {
+            error: `Subcategory creation failed: ${insertError.details || 'Duplicate value (e.g., slug) exists'}`,
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: `Failed to create subcategory: ${insertError?.message}` },
+        { status: 500 }
+      );
+    }
+
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'subcategory',
+      before: null,
+      after: newSubcategory,
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/subcategories/create',
+        entity: 'subcategory',
+        entityId: newSubcategory.id,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Subcategory created successfully',
+        subcategory: newSubcategory,
+        revalidation,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Error in create subcategory API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
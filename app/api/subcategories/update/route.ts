@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAdminUserFromRequest } from '@/lib/adminAuth';
+import { revalidateCustomerApp } from '@/lib/revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getSubcategorySnapshot,
+} from '@/lib/revalidationPaths';
+import { withApiMetrics } from '@/lib/metrics';
+import {
+  findAvailableSlug,
+  requestedSlug,
+  writeWithUniqueSlug,
+} from '@/lib/slugs';
+
+const updateSubcategorySchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1, 'Subcategory name cannot be empty').optional(),
+  slug: z.string().optional().nullable(), // Custom slug; regenerated when the name changes
+  status: z.enum(['active', 'draft']).optional(),
+  display_order: z.number().int().min(0).optional(),
+});
+
+export const POST = withApiMetrics(
+  'POST /api/subcategories/update',
+  updateSubcategory
+);
+
+// Updates a subcategory (from the category edit page). A new name gets a
+// new slug, unique within the category. Admins only.
+async function updateSubcategory(req: NextRequest) {
+  if (!(await getAdminUserFromRequest(req))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const body = await req.json();
+    const validation = updateSubcategorySchema.safeParse(body);
+
+    if (!validation.success) {
+      console.error(
+        'Subcategory Update Validation Errors:',
+        validation.error.errors
+      );
+      return NextResponse.json(
+        {
+          error: 'Invalid subcategory data',
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id, ...updateData } = validation.data;
+
+    const { data: savedSubcategory, error: fetchError } = await supabase
+      .from('subcategories')
+      .select('id, name, slug, category_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError || !savedSubcategory) {
+      console.error('Error fetching subcategory', id, fetchError);
+      return NextResponse.json(
+        { error: 'Subcategory not found or error fetching data.' },
+        { status: 404 }
+      );
+    }
+
+    // The editor's custom slug, or one regenerated from a new name; an
+    // unchanged slug is kept even if it is reserved
+    const renamed =
+      updateData.name !== undefined &&
+      updateData.name !== savedSubcategory.name;
+    const { base: slugBase, error: slugError } = requestedSlug({
+      slug: updateData.slug,
+      name: renamed ? updateData.name : undefined,
+      currentSlug: savedSubcategory.slug,
+    });
+    if (slugError) {
+      return NextResponse.json({ error: slugError }, { status: 400 });
+    }
+
+    // Made unique within the category; the current slug is kept as is
+    const slugScope = slugBase
+      ? {
+          entity: 'subcategory' as const,
+          base: slugBase,
+          excludeId: id,
+          currentSlug: savedSubcategory.slug,
+          categoryId: savedSubcategory.category_id,
+        }
+      : null;
+    const slug = slugScope ? await findAvailableSlug(slugScope) : undefined;
+
+    const dataToUpdate = { ...updateData, slug };
+    Object.keys(dataToUpdate).forEach((key) => {
+      const currentKey = key as keyof typeof dataToUpdate;
+      if (dataToUpdate[currentKey] === undefined) {
+        delete dataToUpdate[currentKey];
+      }
+    });
+
+    if (Object.keys(dataToUpdate).length === 0) {
+      return NextResponse.json(
+        { message: 'No update data provided.' },
+        { status: 200 }
+      );
+    }
+
+    const subcategorySnapshotBefore = await getSubcategorySnapshot(id);
+
+    const { error: updateError } = await writeWithUniqueSlug(
+      slugScope,
+      slug,
+      (uniqueSlug) =>
+        supabase
+          .from('subcategories')
+          .update({ ...dataToUpdate, slug: uniqueSlug })
+          .eq('id', id)
+    );
+
+    if (updateError) {
+      console.error('Supabase subcategory update error:', updateError);
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          {
+            error: `Subcategory update failed: ${updateError.details || 'Duplicate value (e.g., slug) exists'}`,
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: `Failed to update subcategory: ${updateError.message}` },
+        { status: 500 }
+      );
+    }
+
+    // Old and new subcategory page, and the category page listing it
+    const subcategorySnapshotAfter = await getSubcategorySnapshot(id);
+    const entityRevalidation = await computeEntityRevalidation({
+      entity: 'subcategory',
+      before: subcategorySnapshotBefore,
+      after: subcategorySnapshotAfter,
+      changedFields: Object.keys(dataToUpdate),
+    });
+    const revalidation = await revalidateCustomerApp(entityRevalidation, {
+      trigger: {
+        source: 'POST /api/subcategories/update',
+        entity: 'subcategory',
+        entityId: id,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Subcategory updated successfully',
+        subcategory: { ...savedSubcategory, ...dataToUpdate },
+        revalidation,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error in update subcategory API route:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
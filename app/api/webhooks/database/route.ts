@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  databaseWebhookPayloadSchema,
+  handleDatabaseWebhook,
+} from '@/lib/databaseWebhook';
+import { verifyRevalidationRequest } from '@/lib/storefront/verifyRevalidationRequest';
+import { withApiMetrics } from '@/lib/metrics';
+
+export const POST = withApiMetrics(
+  'POST /api/webhooks/database',
+  receiveDatabaseWebhook
+);
+
+// Receives Postgres change events for catalog tables and revalidates the
+// storefront pages they affect. The database signs every event with
+// DATABASE_WEBHOOK_SECRET using the same scheme we use towards storefronts
+// (see supabase/migrations/20261019000700_catalog_change_webhook.sql).
+async function receiveDatabaseWebhook(req: NextRequest) {
+  const secret = process.env.DATABASE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error(
+      'Error: DATABASE_WEBHOOK_SECRET environment variable is not set.'
+    );
+    return NextResponse.json(
+      { error: 'Database webhook is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const verification = await verifyRevalidationRequest(req, [secret]);
+  if (!verification.ok) {
+    console.warn(`Rejected database webhook: ${verification.reason}`);
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const parsed = databaseWebhookPayloadSchema.safeParse(
+      JSON.parse(verification.body)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    if (parsed.data.schema !== 'public') {
+      return NextResponse.json(
+        { error: `Unexpected schema: ${parsed.data.schema}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await handleDatabaseWebhook(parsed.data);
+    if (result.skipped) {
+      console.log(
+        `Database webhook for ${parsed.data.table} skipped: ${result.skipped}`
+      );
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error: any) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    console.error('Error handling database webhook:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -29,6 +29,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
+import { EditConflictDialog } from '@/components/edit-conflict-dialog';
+import type { EditConflict } from '@/lib/editConflicts';
 
 const brandFormSchema = z.object({
   name: z.string().min(2, 'Brand name must be at least 2 characters'),
@@ -48,6 +51,17 @@ const brandFormSchema = z.object({
 });
 
 type BrandFormValues = z.infer<typeof brandFormSchema>;
+
+// The brand fields of an /api/brands/update body, from form values
+function formValuesToUpdate(data: BrandFormValues) {
+  return {
+    ...data,
+    logo_url: data.logo_url || null,
+    long_banner_url: data.long_banner_url || null,
+    short_banner_url: data.short_banner_url || null,
+  };
+}
+
 export default function EditBrandPage({
   params,
 }: {
@@ -57,6 +71,18 @@ export default function EditBrandPage({
   const brandId = resolvedParams.id;
   const [isLoading, setIsLoading] = useState(false);
   const [isFetching, setIsFetching] = useState(true);
+  // The version the form was loaded from; a save over a newer one gets a 409
+  const [loadedUpdatedAt, setLoadedUpdatedAt] = useState<string | null>(null);
+  const [loadedValues, setLoadedValues] = useState<BrandFormValues | null>(
+    null
+  );
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const [conflictPayload, setConflictPayload] = useState<Record<
+    string,
+    unknown
+  > | null>(null);
+  // Bumped to reload the saved brand after a conflict
+  const [reloadCount, setReloadCount] = useState(0);
   const router = useRouter();
   const { toast } = useToast();
 
@@ -85,14 +111,17 @@ export default function EditBrandPage({
         if (error) throw error;
 
         if (data) {
-          form.reset({
+          const values: BrandFormValues = {
             name: data.name ?? '',
             slug: data.slug ?? '',
             logo_url: data.logo_url ?? '',
             long_banner_url: data.long_banner_url ?? '',
             short_banner_url: data.short_banner_url ?? '',
             status: data.status ?? 'draft',
-          });
+          };
+          setLoadedUpdatedAt(data.updated_at ?? null);
+          setLoadedValues(values);
+          form.reset(values);
         }
       } catch (error: any) {
         toast({
@@ -107,19 +136,27 @@ export default function EditBrandPage({
     }
 
     fetchBrand();
-  }, [brandId, form, router, toast]);
+  }, [brandId, form, router, toast, reloadCount]);
 
   async function onSubmit(data: BrandFormValues) {
+    // The server regenerates the slug from a changed name, so the slug is
+    // only sent when the editor typed one (a cleared slug is regenerated too)
+    const { dirtyFields } = form.formState;
+    await saveBrand({
+      brands_id: parseInt(brandId, 10), // Ensure ID is a number
+      ...formValuesToUpdate(data),
+      name: dirtyFields.name || dirtyFields.slug ? data.name : undefined,
+      slug: dirtyFields.slug ? data.slug : undefined,
+      updated_at: loadedUpdatedAt,
+      // The form as loaded, so a conflict only flags fields both editors changed
+      base: loadedValues ? formValuesToUpdate(loadedValues) : undefined,
+    });
+  }
+
+  // Posts an update; a 409 opens the conflict dialog instead of failing
+  async function saveBrand(payload: Record<string, unknown>) {
     setIsLoading(true);
     try {
-      const payload = {
-        brands_id: parseInt(brandId, 10), // Ensure ID is a number
-        ...data,
-        logo_url: data.logo_url || null,
-        long_banner_url: data.long_banner_url || null,
-        short_banner_url: data.short_banner_url || null,
-      };
-
       const response = await fetch('/api/brands/update', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -128,6 +165,12 @@ export default function EditBrandPage({
 
       const result = await response.json();
 
+      if (response.status === 409 && result.conflict) {
+        setConflictPayload(payload);
+        setConflict(result.conflict);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(result.error || 'Failed to update brand');
       }
@@ -137,6 +180,15 @@ export default function EditBrandPage({
         description: 'The brand has been updated successfully.',
       });
 
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
+
       // Redirect to the brands list page after successful update
       router.push('/brands');
       // router.refresh();
@@ -312,6 +364,21 @@ export default function EditBrandPage({
           </Form>
         </div>
       </div>
+
+      <EditConflictDialog
+        conflict={conflict}
+        payload={conflictPayload}
+        saving={isLoading}
+        onSave={(merged) => {
+          setConflict(null);
+          saveBrand(merged);
+        }}
+        onReload={() => {
+          setConflict(null);
+          setReloadCount((count) => count + 1);
+        }}
+        onCancel={() => setConflict(null)}
+      />
     </AdminLayout>
   );
 }
@@ -28,6 +28,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 
 const brandFormSchema = z.object({
   name: z.string().min(2, 'Brand name must be at least 2 characters'),
@@ -96,6 +97,15 @@ export default function CreateBrandPage() {
         description: `Brand "${data.name}" created successfully.`,
       });
 
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
+
       // Redirect to the brands list page after successful creation
       router.push('/brands');
       // router.refresh(); // Re-fetching is less critical now due to revalidation
@@ -26,6 +26,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -113,6 +114,15 @@ export default function BrandsPage() {
         description: 'The brand has been deleted successfully.',
       });
 
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
+
       router.refresh();
     } catch (error: any) {
       console.error(
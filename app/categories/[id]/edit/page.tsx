@@ -6,7 +6,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Loader2, X, Trash2 } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
+import { getAdminAuthHeaders, supabase } from '@/lib/supabase';
 
 import AdminLayout from '@/components/admin-layout';
 import { Button } from '@/components/ui/button';
@@ -30,6 +30,10 @@ import {
 import { useToast } from '@/components/ui/use-toast';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { ChangePreviewPanel } from '@/components/change-preview-panel';
+import { EditConflictDialog } from '@/components/edit-conflict-dialog';
+import type { EditConflict } from '@/lib/editConflicts';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 
 interface Category {
   categories_id: number;
@@ -196,6 +200,19 @@ const categoryFormSchema = z
 
 type CategoryFormValues = z.infer<typeof categoryFormSchema>;
 
+// Banner URLs a save replaces, deleted from storage once it went through
+type ReplacedBanners = Partial<
+  Record<'short_banner_url' | 'long_banner_url', string>
+>;
+
+// The banner files a save changes in storage: the replaced ones, deleted
+// once it went through, and the uploaded ones, deleted unless it used them
+interface BannerChanges {
+  replaced: ReplacedBanners;
+  uploaded: string[];
+}
+
+// Only names the uploaded banner files; the API picks the category's slug
 function generateSlug(name: string): string {
   return name
     .toLowerCase()
@@ -203,65 +220,6 @@ function generateSlug(name: string): string {
     .replace(/(^-|-$)/g, '');
 }
 
-async function makeUniqueCategorySlug(
-  baseSlug: string,
-  categoryIdToExclude?: number
-): Promise<string> {
-  let slug = baseSlug;
-  let counter = 1;
-  let isUnique = false;
-
-  while (!isUnique) {
-    let query = supabase.from('categories').select('slug').eq('slug', slug);
-
-    if (categoryIdToExclude) {
-      query = query.neq('categories_id', categoryIdToExclude);
-    }
-
-    const { data } = await query.maybeSingle();
-
-    if (!data) {
-      isUnique = true;
-    } else {
-      slug = `${baseSlug}-${counter}`;
-      counter++;
-    }
-  }
-  return slug;
-}
-
-async function makeUniqueSubcategorySlug(
-  baseSlug: string,
-  categoryId: number,
-  subcategoryIdToExclude?: number
-): Promise<string> {
-  let slug = baseSlug;
-  let counter = 1;
-  let isUnique = false;
-
-  while (!isUnique) {
-    let query = supabase
-      .from('subcategories')
-      .select('slug')
-      .eq('slug', slug)
-      .eq('category_id', categoryId);
-
-    if (subcategoryIdToExclude) {
-      query = query.neq('id', subcategoryIdToExclude);
-    }
-
-    const { data } = await query.maybeSingle();
-
-    if (!data) {
-      isUnique = true;
-    } else {
-      slug = `${baseSlug}-${counter}`;
-      counter++;
-    }
-  }
-  return slug;
-}
-
 export default function EditCategoryPage({
   params,
 }: {
@@ -289,6 +247,19 @@ export default function EditCategoryPage({
   const [subcategories, setSubcategories] = useState<ManagedSubcategory[]>([]);
   const [newSubcategoryName, setNewSubcategoryName] = useState('');
   const [newSubcategoryOrder, setNewSubcategoryOrder] = useState(0);
+  // The version the form was loaded from; a save over a newer one gets a 409
+  const [loadedUpdatedAt, setLoadedUpdatedAt] = useState<string | null>(null);
+  // The fields as loaded, so a conflict only flags fields both editors changed
+  const [loadedBase, setLoadedBase] = useState<Record<string, unknown> | null>(
+    null
+  );
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const [conflictSave, setConflictSave] = useState<{
+    payload: Record<string, unknown>;
+    banners: BannerChanges;
+  } | null>(null);
+  // Bumped to reload the saved category after a conflict
+  const [reloadCount, setReloadCount] = useState(0);
 
   const form = useForm<CategoryFormValues>({
     resolver: zodResolver(categoryFormSchema),
@@ -320,7 +291,7 @@ export default function EditCategoryPage({
         const { data: categoryData, error: categoryError } = await supabase
           .from('categories')
           .select(
-            'categories_id, name, slug, status, display_order, short_banner_url, long_banner_url'
+            'categories_id, name, slug, status, display_order, short_banner_url, long_banner_url, updated_at'
           )
           .eq('categories_id', categoryId)
           .single();
@@ -340,6 +311,15 @@ export default function EditCategoryPage({
         }
 
         console.log('Category data fetched:', categoryData);
+        setLoadedUpdatedAt(categoryData.updated_at ?? null);
+        setLoadedBase({
+          name: categoryData.name,
+          slug: categoryData.slug,
+          status: categoryData.status,
+          display_order: categoryData.display_order,
+          short_banner_url: categoryData.short_banner_url,
+          long_banner_url: categoryData.long_banner_url,
+        });
 
         form.reset({
           name: categoryData.name,
@@ -402,7 +382,7 @@ export default function EditCategoryPage({
     }
 
     fetchCategoryAndSubcategories();
-  }, [categoryId, form, router, toast]);
+  }, [categoryId, form, router, toast, reloadCount]);
 
   const handleSubcategoryChange = (
     tempId: string,
@@ -470,6 +450,23 @@ export default function EditCategoryPage({
     setSubcategories(subcategories.filter((sub) => sub.tempId !== tempId));
   };
 
+  // The preview asks the update API for a dry run with the form values. New
+  // banner files are not uploaded yet, so only their current URLs are compared.
+  function buildPreviewPayload() {
+    const values = form.getValues();
+    const { dirtyFields } = form.formState;
+    return {
+      categories_id: categoryId,
+      ...(dirtyFields.name && { name: values.name }),
+      ...(dirtyFields.slug && { slug: values.slug }),
+      status: values.status,
+      display_order: values.display_order,
+      short_banner_url: values.short_banner_url || null,
+      long_banner_url: values.long_banner_url || null,
+      updated_at: loadedUpdatedAt,
+    };
+  }
+
   async function onSubmit(data: CategoryFormValues) {
     setIsLoading(true);
     try {
@@ -477,233 +474,287 @@ export default function EditCategoryPage({
       console.log('Form data:', data);
       console.log('Subcategory state:', subcategories);
 
-      let finalSlug = data.slug;
-      const originalCategory = await supabase
-        .from('categories')
-        .select('slug, name')
-        .eq('categories_id', categoryId)
-        .single();
-
-      if (!originalCategory.data)
-        throw new Error('Original category not found during submit.');
-
-      if (data.name !== originalCategory.data.name || !data.slug) {
-        const baseSlug = generateSlug(data.name);
-        finalSlug = await makeUniqueCategorySlug(baseSlug, categoryId);
-        console.log(`Generated new unique slug: ${finalSlug}`);
-      } else if (data.slug !== originalCategory.data.slug) {
-        finalSlug = await makeUniqueCategorySlug(data.slug, categoryId);
-        if (finalSlug !== data.slug) {
-          console.log(`Manual slug changed to unique: ${finalSlug}`);
-        }
-      }
+      // The API regenerates the slug from a new name unless one was typed
+      const { dirtyFields } = form.formState;
+      const fileSlug = data.slug || generateSlug(data.name);
 
       let finalShortBannerUrl: string | null = originalShortBannerUrl;
       let finalLongBannerUrl: string | null = originalLongBannerUrl;
-      const filesToDelete: string[] = [];
+      const banners: BannerChanges = { replaced: {}, uploaded: [] };
+      const replacedBanners = banners.replaced;
+
+      // Uploaded before the save so it can reference them; a save that
+      // does not go through deletes them again (see saveCategory)
+      const uploadBanner = async (file: File, filePath: string) => {
+        const url = await uploadFileToSupabase(file, BUCKET_NAME, filePath);
+        banners.uploaded.push(url);
+        return url;
+      };
 
       if (data.short_banner_file) {
-        if (originalShortBannerUrl) filesToDelete.push(originalShortBannerUrl);
+        if (originalShortBannerUrl) {
+          replacedBanners.short_banner_url = originalShortBannerUrl;
+        }
         const file = data.short_banner_file;
-        const filePath = `category-banners/${finalSlug}-short-${Date.now()}.${file.name.split('.').pop()}`;
-        finalShortBannerUrl = await uploadFileToSupabase(
-          file,
-          BUCKET_NAME,
-          filePath
-        );
+        const filePath = `category-banners/${fileSlug}-short-${Date.now()}.${file.name.split('.').pop()}`;
+        try {
+          finalShortBannerUrl = await uploadBanner(file, filePath);
+        } catch (error) {
+          await deleteBannerFiles(banners.uploaded);
+          throw error;
+        }
       } else if (data.short_banner_url !== originalShortBannerUrl) {
         if (
           originalShortBannerUrl &&
           originalShortBannerUrl !== data.short_banner_url
         ) {
-          filesToDelete.push(originalShortBannerUrl);
+          replacedBanners.short_banner_url = originalShortBannerUrl;
         }
         finalShortBannerUrl = data.short_banner_url || null;
       }
 
       if (data.long_banner_file) {
-        if (originalLongBannerUrl) filesToDelete.push(originalLongBannerUrl);
+        if (originalLongBannerUrl) {
+          replacedBanners.long_banner_url = originalLongBannerUrl;
+        }
         const file = data.long_banner_file;
-        const filePath = `category-banners/${finalSlug}-long-${Date.now()}.${file.name.split('.').pop()}`;
-        finalLongBannerUrl = await uploadFileToSupabase(
-          file,
-          BUCKET_NAME,
-          filePath
-        );
+        const filePath = `category-banners/${fileSlug}-long-${Date.now()}.${file.name.split('.').pop()}`;
+        try {
+          finalLongBannerUrl = await uploadBanner(file, filePath);
+        } catch (error) {
+          await deleteBannerFiles(banners.uploaded);
+          throw error;
+        }
       } else if (data.long_banner_url !== originalLongBannerUrl) {
         if (
           originalLongBannerUrl &&
           originalLongBannerUrl !== data.long_banner_url
         ) {
-          filesToDelete.push(originalLongBannerUrl);
+          replacedBanners.long_banner_url = originalLongBannerUrl;
         }
         finalLongBannerUrl = data.long_banner_url || null;
       }
 
-      const { error: updateError } = await supabase
-        .from('categories')
-        .update({
-          name: data.name,
-          slug: finalSlug,
+      await saveCategory(
+        {
+          categories_id: categoryId,
+          ...(dirtyFields.name && { name: data.name }),
+          ...(dirtyFields.slug && { slug: data.slug }),
           status: data.status,
           display_order: data.display_order,
           short_banner_url: finalShortBannerUrl,
           long_banner_url: finalLongBannerUrl,
-        })
-        .eq('categories_id', categoryId);
+          updated_at: loadedUpdatedAt,
+          base: loadedBase ?? undefined,
+        },
+        banners
+      );
+    } catch (error: any) {
+      reportSaveError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
 
-      if (updateError) {
-        console.error('Error updating category:', updateError);
-        throw new Error(`Category update failed: ${updateError.message}`);
-      }
-      console.log('Category updated successfully.');
+  // Saves the category through the update API, then deletes the replaced
+  // banners and saves the subcategories. A 409 opens the conflict dialog
+  // instead, before anything else is touched; a failed save deletes the
+  // banners uploaded for it.
+  async function saveCategory(
+    payload: Record<string, unknown>,
+    banners: BannerChanges
+  ) {
+    const response = await fetch('/api/categories/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
 
-      if (filesToDelete.length > 0) {
-        console.log('Deleting old banner files:', filesToDelete);
-        const deletionResults = await Promise.allSettled(
-          filesToDelete.map((url) => deleteFileFromSupabase(BUCKET_NAME, url))
-        );
-        deletionResults.forEach((result, index) => {
-          if (result.status === 'rejected') {
-            console.warn(
-              `Failed to delete banner ${filesToDelete[index]}:`,
-              result.reason
-            );
-          }
-        });
-      }
+    const result = await response.json();
 
-      const subcategoryPromises: Promise<any>[] = [];
-      const subcategoryErrors: string[] = [];
+    if (response.status === 409 && result.conflict) {
+      setConflictSave({ payload, banners });
+      setConflict(result.conflict);
+      return;
+    }
 
-      for (const sub of subcategories) {
-        try {
-          if (sub.isNew && !sub.isDeleted) {
-            console.log('Creating new subcategory:', sub.name);
-            const baseSlug = generateSlug(sub.name);
-            const uniqueSlug = await makeUniqueSubcategorySlug(
-              baseSlug,
-              categoryId
-            );
-            const { error } = await supabase.from('subcategories').insert({
+    if (!response.ok) {
+      await deleteBannerFiles(banners.uploaded);
+      const errorDetails = result.details
+        ? `: ${JSON.stringify(result.details)}`
+        : '';
+      throw new Error(
+        `Category update failed: ${result.error || response.statusText}${errorDetails}`
+      );
+    }
+    console.log('Category updated successfully.');
+
+    const revalidationWarning = getRevalidationWarning(result.revalidation);
+    if (revalidationWarning) {
+      toast({
+        variant: 'destructive',
+        duration: 9000,
+        ...revalidationWarning,
+      });
+    }
+
+    // A banner the save left out (kept as saved after a conflict) stays,
+    // and the upload meant to replace it goes
+    const savedUrls = Object.values(payload);
+    await deleteBannerFiles([
+      ...Object.entries(banners.replaced)
+        .filter(([field]) => field in payload)
+        .map(([, url]) => url),
+      ...banners.uploaded.filter((url) => !savedUrls.includes(url)),
+    ]);
+
+    const subcategoryPromises: Promise<any>[] = [];
+    const subcategoryErrors: string[] = [];
+
+    for (const sub of subcategories) {
+      try {
+        if (sub.isNew && !sub.isDeleted) {
+          console.log('Creating new subcategory:', sub.name);
+          await saveSubcategory(
+            '/api/subcategories/create',
+            {
               name: sub.name,
-              slug: uniqueSlug,
               category_id: categoryId,
               display_order: sub.display_order,
               status: sub.status,
-            });
-            if (error)
-              throw new Error(
-                `Create failed for '${sub.name}': ${error.message}`
-              );
-          } else if (sub.isModified && !sub.isNew && !sub.isDeleted) {
-            console.log('Updating existing subcategory ID:', sub.id);
-            let subSlug = sub.slug;
-
-            const { data: originalSub, error: fetchError } = await supabase
-              .from('subcategories')
-              .select('name, slug')
-              .eq('id', sub.id)
-              .single();
-
-            if (fetchError) {
-              console.warn(
-                `Could not fetch original data for subcategory ID ${sub.id}: ${fetchError.message}`
-              );
-            } else if (originalSub && sub.name !== originalSub.name) {
-              const baseSlug = generateSlug(sub.name);
-              subSlug = await makeUniqueSubcategorySlug(
-                baseSlug,
-                categoryId,
-                sub.id
-              );
-              console.log(`Subcategory ${sub.id} slug updated to: ${subSlug}`);
-            }
-
-            const { error: updateSubError } = await supabase
-              .from('subcategories')
-              .update({
-                name: sub.name,
-                slug: subSlug,
-                display_order: sub.display_order,
-                status: sub.status,
-              })
-              .eq('id', sub.id);
-            if (updateSubError)
-              throw new Error(
-                `Update failed for '${sub.name}' (ID: ${sub.id}): ${updateSubError.message}`
-              );
-          } else if (sub.isDeleted && !sub.isNew) {
-            console.log('Deleting existing subcategory ID:', sub.id);
-            const { data: products, error: productsError } = await supabase
-              .from('products')
-              .select('products_id')
-              .eq('subcategory_id', sub.id)
-              .limit(1);
-
-            if (productsError) {
-              throw new Error(
-                `Failed to check products for subcategory '${sub.name}': ${productsError.message}`
-              );
-            }
-            if (products && products.length > 0) {
-              throw new Error(
-                `Cannot delete subcategory '${sub.name}' as it has associated products.`
-              );
-            }
-
-            const { error: deleteSubError } = await supabase
-              .from('subcategories')
-              .delete()
-              .eq('id', sub.id);
-            if (deleteSubError)
-              throw new Error(
-                `Delete failed for '${sub.name}' (ID: ${sub.id}): ${deleteSubError.message}`
-              );
-          }
-        } catch (subError: any) {
-          console.error(
-            `Error processing subcategory '${sub.name}':`,
-            subError
+            },
+            `Create failed for '${sub.name}'`
           );
-          subcategoryErrors.push(
-            subError.message ||
-              'An unknown error occurred processing a subcategory.'
+        } else if (sub.isModified && !sub.isNew && !sub.isDeleted) {
+          console.log('Updating existing subcategory ID:', sub.id);
+          // A new name gets a new slug
+          await saveSubcategory(
+            '/api/subcategories/update',
+            {
+              id: sub.id,
+              name: sub.name,
+              display_order: sub.display_order,
+              status: sub.status,
+            },
+            `Update failed for '${sub.name}' (ID: ${sub.id})`
           );
-        }
-      }
+        } else if (sub.isDeleted && !sub.isNew) {
+          console.log('Deleting existing subcategory ID:', sub.id);
+          const { data: products, error: productsError } = await supabase
+            .from('products')
+            .select('products_id')
+            .eq('subcategory_id', sub.id)
+            .limit(1);
+
+          if (productsError) {
+            throw new Error(
+              `Failed to check products for subcategory '${sub.name}': ${productsError.message}`
+            );
+          }
+          if (products && products.length > 0) {
+            throw new Error(
+              `Cannot delete subcategory '${sub.name}' as it has associated products.`
+            );
+          }
 
-      if (subcategoryErrors.length > 0) {
-        toast({
-          title: `Category Updated, but ${subcategoryErrors.length} Subcategory Error(s) Occurred`,
-          description: `Please review the subcategories. Errors: ${subcategoryErrors.join('; ')}`,
-          variant: 'destructive',
-          duration: 9000,
-        });
-      } else {
-        toast({
-          title: 'Category Updated',
-          description: 'Category and subcategories saved successfully.',
-        });
+          const { error: deleteSubError } = await supabase
+            .from('subcategories')
+            .delete()
+            .eq('id', sub.id);
+          if (deleteSubError)
+            throw new Error(
+              `Delete failed for '${sub.name}' (ID: ${sub.id}): ${deleteSubError.message}`
+            );
+        }
+      } catch (subError: any) {
+        console.error(`Error processing subcategory '${sub.name}':`, subError);
+        subcategoryErrors.push(
+          subError.message ||
+            'An unknown error occurred processing a subcategory.'
+        );
       }
+    }
 
-      router.push('/categories');
-      router.refresh();
-    } catch (error: any) {
-      console.error(
-        '[EditCategoryPage:onSubmit] Main Catch Block Error:',
-        error
-      );
+    if (subcategoryErrors.length > 0) {
       toast({
-        title: 'Update Failed',
-        description: error.message || 'An unexpected error occurred.',
+        title: `Category Updated, but ${subcategoryErrors.length} Subcategory Error(s) Occurred`,
+        description: `Please review the subcategories. Errors: ${subcategoryErrors.join('; ')}`,
         variant: 'destructive',
+        duration: 9000,
+      });
+    } else {
+      toast({
+        title: 'Category Updated',
+        description: 'Category and subcategories saved successfully.',
       });
+    }
+
+    router.push('/categories');
+    router.refresh();
+  }
+
+  // Subcategories are written through the API, which picks their slugs
+  async function saveSubcategory(
+    url: string,
+    payload: Record<string, unknown>,
+    failure: string
+  ) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: await getAdminAuthHeaders(),
+      body: JSON.stringify(payload),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`${failure}: ${result.error || response.statusText}`);
+    }
+  }
+
+  async function resolveConflict(payload: Record<string, unknown>) {
+    if (!conflictSave) return;
+    setConflict(null);
+    setConflictSave(null);
+    setIsLoading(true);
+    try {
+      await saveCategory(payload, conflictSave.banners);
+    } catch (error: any) {
+      reportSaveError(error);
     } finally {
       setIsLoading(false);
     }
   }
 
+  // Closes the conflict dialog without saving; the banners uploaded for
+  // the refused save are not used
+  function discardConflictSave() {
+    setConflict(null);
+    if (conflictSave) deleteBannerFiles(conflictSave.banners.uploaded);
+    setConflictSave(null);
+  }
+
+  // Deletes banner files from storage; a failure only leaves a file behind
+  async function deleteBannerFiles(urls: string[]) {
+    if (urls.length === 0) return;
+    console.log('Deleting banner files:', urls);
+    const deletionResults = await Promise.allSettled(
+      urls.map((url) => deleteFileFromSupabase(BUCKET_NAME, url))
+    );
+    deletionResults.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Failed to delete banner ${urls[index]}:`, result.reason);
+      }
+    });
+  }
+
+  function reportSaveError(error: any) {
+    console.error('[EditCategoryPage:onSubmit] Main Catch Block Error:', error);
+    toast({
+      title: 'Update Failed',
+      description: error.message || 'An unexpected error occurred.',
+      variant: 'destructive',
+    });
+  }
+
   if (isFetching) {
     return (
       <AdminLayout>
@@ -1261,6 +1312,12 @@ export default function EditCategoryPage({
               </div>
               <Separator className="my-6" />
 
+              <ChangePreviewPanel
+                endpoint="/api/categories/update"
+                getPayload={buildPreviewPayload}
+                disabled={isLoading || isFetching}
+              />
+
               {/* Submit Button */}
               <Button type="submit" disabled={isLoading || isFetching}>
                 {isLoading ? (
@@ -1272,6 +1329,18 @@ export default function EditCategoryPage({
           </Form>
         </div>
       </div>
+
+      <EditConflictDialog
+        conflict={conflict}
+        payload={conflictSave?.payload ?? null}
+        saving={isLoading}
+        onSave={resolveConflict}
+        onReload={() => {
+          discardConflictSave();
+          setReloadCount((count) => count + 1);
+        }}
+        onCancel={discardConflictSave}
+      />
     </AdminLayout>
   );
 }
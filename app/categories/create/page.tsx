@@ -28,6 +28,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { getRevalidationWarning } from '@/lib/revalidationFeedback';
 import { X } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 
@@ -172,57 +173,6 @@ function generateSlug(name: string): string {
     .replace(/(^-|-$)/g, '');
 }
 
-async function makeUniqueSlug(baseSlug: string): Promise<string> {
-  let slug = baseSlug;
-  let counter = 1;
-  let isUnique = false;
-
-  while (!isUnique) {
-    const { data } = await supabase
-      .from('categories')
-      .select('slug')
-      .eq('slug', slug)
-      .single();
-
-    if (!data) {
-      isUnique = true;
-    } else {
-      slug = `${baseSlug}-${counter}`;
-      counter++;
-    }
-  }
-
-  return slug;
-}
-
-// Add helper for unique subcategory slug
-async function makeUniqueSubcategorySlug(
-  baseSlug: string,
-  categoryId: number
-): Promise<string> {
-  let slug = baseSlug;
-  let counter = 1;
-  let isUnique = false;
-
-  while (!isUnique) {
-    const { data } = await supabase
-      .from('subcategories')
-      .select('slug')
-      .eq('slug', slug)
-      .eq('category_id', categoryId) // Check uniqueness within the parent category
-      .single();
-
-    if (!data) {
-      isUnique = true;
-    } else {
-      slug = `${baseSlug}-${counter}`;
-      counter++;
-    }
-  }
-
-  return slug;
-}
-
 export default function CreateCategoryPage() {
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
@@ -323,7 +273,9 @@ export default function CreateCategoryPage() {
       // Prepare payload for the API route
       const payload = {
         ...data,
-        slug: generateSlug(data.slug || data.name), // Ensure slug is generated
+        // The slug filled in from the name is only a preview; the server
+        // builds it from the name unless the editor typed one
+        slug: form.formState.dirtyFields.slug ? data.slug : undefined,
         // Use potentially updated URLs from (placeholder) file upload logic
         image_url: shortBannerUrl, // Assuming short_banner maps to category image_url
         icon_url: null, // Assuming no icon URL in this form
@@ -357,6 +309,15 @@ export default function CreateCategoryPage() {
         description: `Category "${data.name}" created successfully.`,
       });
 
+      const revalidationWarning = getRevalidationWarning(result.revalidation);
+      if (revalidationWarning) {
+        toast({
+          variant: 'destructive',
+          duration: 9000,
+          ...revalidationWarning,
+        });
+      }
+
       // Redirect after successful creation
       router.push('/categories');
       // router.refresh();
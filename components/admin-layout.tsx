@@ -17,6 +17,7 @@ import {
   ChevronDown,
   Bell,
   Search,
+  RefreshCw,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -44,6 +45,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     { name: 'Products', href: '/products', icon: Package },
     { name: 'Categories', href: '/categories', icon: Tags },
     { name: 'Brands', href: '/brands', icon: BadgePercent },
+    { name: 'Revalidation', href: '/revalidation', icon: RefreshCw },
     { name: 'Users', href: '/users', icon: Users },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
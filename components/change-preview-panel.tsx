@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { Eye, Loader2 } from 'lucide-react';
+import type { DryRunResult } from '@/lib/revalidationDryRun';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+interface ChangePreviewPanelProps {
+  endpoint: string; // A create/update API route that supports `?dryRun=true`
+  getPayload: () => Record<string, unknown> | null; // `null` cancels the preview
+  disabled?: boolean;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// "What will change" panel for edit pages: sends the form values to the
+// save endpoint as a dry run and shows the fields that would change and what
+// every storefront would be asked to revalidate.
+export function ChangePreviewPanel({
+  endpoint,
+  getPayload,
+  disabled,
+}: ChangePreviewPanelProps) {
+  const [preview, setPreview] = useState<DryRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handlePreview() {
+    const payload = getPayload();
+    if (!payload) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${endpoint}?dryRun=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const errorDetails = result.details
+          ? `: ${JSON.stringify(result.details)}`
+          : '';
+        throw new Error(
+          `${result.error || 'Failed to preview changes'}${errorDetails}`
+        );
+      }
+
+      setPreview(result);
+    } catch (error: any) {
+      console.error('[ChangePreviewPanel] Error previewing changes:', error);
+      setPreview(null);
+      setError(error.message || 'An unexpected error occurred.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const changes = preview?.wouldWrite.changes;
+  const related = Object.entries(preview?.wouldWrite.related || {}).filter(
+    ([, count]) => count > 0
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>What will change</CardTitle>
+          <CardDescription>
+            Preview the saved fields and the storefront pages that will be
+            revalidated. Nothing is saved.
+          </CardDescription>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handlePreview}
+          disabled={disabled || loading}
+        >
+          {loading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Eye className="mr-2 h-4 w-4" />
+          )}
+          Preview
+        </Button>
+      </CardHeader>
+      {(preview || error) && (
+        <CardContent className="space-y-4 text-sm">
+          {error && <p className="text-destructive">{error}</p>}
+
+          {preview && (
+            <>
+              <div>
+                <h4 className="mb-2 font-medium">Fields</h4>
+                {changes && changes.length === 0 ? (
+                  <p className="text-muted-foreground">No field changes.</p>
+                ) : changes ? (
+                  <div className="space-y-1">
+                    {changes.map((change) => (
+                      <div
+                        key={change.field}
+                        className="grid grid-cols-3 gap-2"
+                      >
+                        <span className="font-medium">{change.field}</span>
+                        <span className="truncate text-muted-foreground line-through">
+                          {formatValue(change.from)}
+                        </span>
+                        <span className="truncate">
+                          {formatValue(change.to)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">
+                    A new row will be created in {preview.wouldWrite.table}.
+                  </p>
+                )}
+                {related.length > 0 && (
+                  <p className="mt-2 text-muted-foreground">
+                    Related rows rewritten:{' '}
+                    {related
+                      .map(([name, count]) => `${name} (${count})`)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <h4 className="mb-2 font-medium">Storefronts</h4>
+                {preview.revalidation.error && (
+                  <p className="text-destructive">
+                    {preview.revalidation.error}
+                  </p>
+                )}
+                {!preview.revalidation.error &&
+                  preview.revalidation.deliveries.length === 0 && (
+                    <p className="text-muted-foreground">
+                      No storefront pages will be revalidated.
+                    </p>
+                  )}
+                <div className="space-y-2">
+                  {preview.revalidation.deliveries.map((delivery) => {
+                    const paths = delivery.payload.paths || [];
+                    const tags = delivery.payload.tags || [];
+                    return (
+                      <div
+                        key={delivery.targetUrl}
+                        className="space-y-2 rounded-md border p-3"
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">
+                            {delivery.targetUrl}
+                          </span>
+                          <Badge variant="secondary">
+                            {delivery.revalidationMode}
+                          </Badge>
+                        </div>
+                        {paths.length === 0 && tags.length === 0 ? (
+                          <p className="text-muted-foreground">
+                            Nothing to send to this storefront.
+                          </p>
+                        ) : (
+                          <pre className="max-h-40 overflow-auto rounded-md bg-muted p-3 text-xs">
+                            {[
+                              ...paths,
+                              ...tags.map((tag) => `tag: ${tag}`),
+                            ].join('\n')}
+                          </pre>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
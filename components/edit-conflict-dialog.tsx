@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { EditConflict } from '@/lib/editConflicts';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface EditConflictDialogProps {
+  conflict: EditConflict | null; // The 409 of the update route; open while set
+  payload: Record<string, unknown> | null; // The save that was refused
+  onSave: (payload: Record<string, unknown>) => void;
+  onReload: () => void;
+  onCancel: () => void;
+  saving?: boolean;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Shown when a save is refused because someone else saved the same item
+// after it was opened. Lists the fields both of them changed; the editor
+// either reloads the saved version or saves again, keeping their value for
+// the ticked fields and the saved one for the rest. Fields only the other
+// editor changed keep their saved value either way.
+export function EditConflictDialog({
+  conflict,
+  payload,
+  onSave,
+  onReload,
+  onCancel,
+  saving,
+}: EditConflictDialogProps) {
+  const [keep, setKeep] = useState<Record<string, boolean>>({});
+
+  // Every field defaults to the saved value
+  useEffect(() => {
+    setKeep(
+      Object.fromEntries(
+        (conflict?.changes || []).map((change) => [change.field, false])
+      )
+    );
+  }, [conflict]);
+
+  function handleSave() {
+    if (!conflict || !payload) return;
+    const merged: Record<string, unknown> = {
+      ...payload,
+      updated_at: conflict.updated_at,
+    };
+    // The loaded version no longer tells whose change a field is
+    delete merged.base;
+    // A field left out of the update keeps its saved value
+    conflict.theirs.forEach((field) => delete merged[field]);
+    conflict.changes.forEach((change) => {
+      if (!keep[change.field]) delete merged[change.field];
+    });
+    onSave(merged);
+  }
+
+  return (
+    <Dialog
+      open={conflict !== null}
+      onOpenChange={(open) => {
+        if (!open) onCancel();
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Someone else saved this in the meantime</DialogTitle>
+          <DialogDescription>
+            You both changed these fields. Tick the ones where your value should
+            win, or reload to start over from the saved version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && conflict.theirs.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Their changes to {conflict.theirs.join(', ')} are kept.
+          </p>
+        )}
+
+        <div className="max-h-80 space-y-2 overflow-auto text-sm">
+          <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-2 font-medium">
+            <span />
+            <span>Field</span>
+            <span>Saved</span>
+            <span>Yours</span>
+          </div>
+          {conflict?.changes.length === 0 && (
+            <p className="text-muted-foreground">
+              No field was changed by both of you; saving again keeps both sets
+              of changes.
+            </p>
+          )}
+          {conflict?.changes.map((change) => (
+            <label
+              key={change.field}
+              className="grid grid-cols-[auto_1fr_1fr_1fr] items-start gap-2"
+            >
+              <Checkbox
+                checked={keep[change.field] ?? false}
+                onCheckedChange={(checked) =>
+                  setKeep((current) => ({
+                    ...current,
+                    [change.field]: checked === true,
+                  }))
+                }
+              />
+              <span className="font-medium">{change.field}</span>
+              <span className="break-all text-muted-foreground">
+                {formatValue(change.from)}
+              </span>
+              <span className="break-all">{formatValue(change.to)}</span>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onReload}
+            disabled={saving}
+          >
+            Reload saved version
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save with my choices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Pause, Play, RefreshCcw, X } from 'lucide-react';
+import { getAdminAuthHeaders } from '@/lib/supabase';
+import type {
+  RevalidationJobAction,
+  RevalidationJobSummary,
+} from '@/lib/revalidationJobs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+
+// How often progress is refreshed while a job is running
+const POLL_INTERVAL_MS = 3_000;
+const ALL_STOREFRONTS = 'all';
+
+const STATUS_VARIANTS: Record<
+  RevalidationJobSummary['status'],
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  running: 'default',
+  paused: 'secondary',
+  cancelled: 'outline',
+  completed: 'outline',
+  failed: 'destructive',
+};
+
+// "Revalidate everything" for the manual revalidation console: starts a
+// job that sends every active catalog page to the storefronts in throttled
+// batches, and shows the progress of recent jobs with pause/resume/cancel.
+export function RevalidationJobsCard() {
+  const [jobs, setJobs] = useState<RevalidationJobSummary[]>([]);
+  const [storefrontUrls, setStorefrontUrls] = useState<string[]>([]);
+  const [target, setTarget] = useState(ALL_STOREFRONTS);
+  const [starting, setStarting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const hasActiveJob = jobs.some((job) => job.status === 'running');
+
+  useEffect(() => {
+    fetchJobs();
+    fetchStorefronts();
+  }, []);
+
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const interval = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJob]);
+
+  async function fetchJobs() {
+    try {
+      const response = await fetch('/api/revalidation/jobs', {
+        headers: await getAdminAuthHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load revalidation jobs');
+      }
+      setJobs(result.jobs || []);
+    } catch (error) {
+      console.error('[RevalidationJobsCard] Error fetching jobs:', error);
+    }
+  }
+
+  async function fetchStorefronts() {
+    try {
+      const response = await fetch('/api/storefronts', {
+        headers: await getAdminAuthHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load storefronts');
+      }
+      const registered: { base_url: string; enabled: boolean }[] =
+        result.storefronts || [];
+      setStorefrontUrls(
+        registered.length > 0
+          ? registered
+              .filter((storefront) => storefront.enabled)
+              .map((storefront) => storefront.base_url)
+          : result.fallback || []
+      );
+    } catch (error) {
+      console.error(
+        '[RevalidationJobsCard] Error fetching storefronts:',
+        error
+      );
+    }
+  }
+
+  async function handleStart() {
+    setStarting(true);
+    try {
+      const response = await fetch('/api/revalidation/jobs', {
+        method: 'POST',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify(
+          target === ALL_STOREFRONTS ? {} : { targets: [target] }
+        ),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const errorDetails = result.details
+          ? `: ${JSON.stringify(result.details)}`
+          : '';
+        throw new Error(
+          `${result.error || 'Failed to start revalidation'}${errorDetails}`
+        );
+      }
+
+      toast({
+        title: 'Revalidation started',
+        description: `${result.job.total} pages will be revalidated.`,
+      });
+      fetchJobs();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not start revalidation',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function handleAction(jobId: number, action: RevalidationJobAction) {
+    setUpdatingId(jobId);
+    try {
+      const response = await fetch(`/api/revalidation/jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: await getAdminAuthHeaders(),
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} the job`);
+      }
+      fetchJobs();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not update the job',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revalidate everything</CardTitle>
+        <CardDescription>
+          Sends every active product, category, subcategory and brand page to
+          the storefronts in small batches, e.g. after a storefront template
+          change. Large catalogs take a while.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Storefronts</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="w-[280px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STOREFRONTS}>All storefronts</SelectItem>
+                {storefrontUrls.map((url) => (
+                  <SelectItem key={url} value={url}>
+                    {url}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleStart} disabled={starting || hasActiveJob}>
+            {starting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCcw className="mr-2 h-4 w-4" />
+            )}
+            Revalidate everything
+          </Button>
+        </div>
+
+        {jobs.map((job) => {
+          const percent =
+            job.total > 0 ? Math.round((job.position / job.total) * 100) : 100;
+          const canChange = job.status === 'running' || job.status === 'paused';
+
+          return (
+            <div key={job.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Job #{job.id}</span>
+                  <Badge variant={STATUS_VARIANTS[job.status]}>
+                    {job.status}
+                  </Badge>
+                  <span className="text-muted-foreground">
+                    {job.targets?.join(', ') || 'All storefronts'} · started{' '}
+                    {format(new Date(job.created_at), 'yyyy-MM-dd HH:mm')}
+                  </span>
+                </div>
+                {canChange && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={updatingId === job.id}
+                      onClick={() =>
+                        handleAction(
+                          job.id,
+                          job.status === 'running' ? 'pause' : 'resume'
+                        )
+                      }
+                    >
+                      {job.status === 'running' ? (
+                        <Pause className="mr-1 h-4 w-4" />
+                      ) : (
+                        <Play className="mr-1 h-4 w-4" />
+                      )}
+                      {job.status === 'running' ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={updatingId === job.id}
+                      onClick={() => handleAction(job.id, 'cancel')}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <Progress value={percent} />
+              <p className="text-xs text-muted-foreground">
+                {job.position} of {job.total} pages sent ({percent}%)
+                {job.failed > 0 &&
+                  ` · ${job.failed} failed on the first attempt and will be retried`}
+              </p>
+              {job.last_error && (
+                <p className="truncate text-xs text-destructive">
+                  {job.last_error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
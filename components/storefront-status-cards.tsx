@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { getAdminAuthHeaders } from '@/lib/supabase';
+import type {
+  StorefrontHealthEntry,
+  StorefrontHealthStatus,
+} from '@/lib/storefrontHealth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+
+const STATUS_BADGES: Record<
+  StorefrontHealthStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' }
+> = {
+  healthy: { label: 'Healthy', variant: 'default' },
+  unauthorized: { label: 'Secret rejected', variant: 'destructive' },
+  unhealthy: { label: 'Unreachable', variant: 'destructive' },
+};
+
+function timeAgo(timestamp: string | null | undefined): string {
+  return timestamp
+    ? formatDistanceToNow(new Date(timestamp), { addSuffix: true })
+    : 'never';
+}
+
+// Dashboard status of every configured storefront, from the
+// latest health check; "Check now" pings them all again.
+export function StorefrontStatusCards() {
+  const [storefronts, setStorefronts] = useState<StorefrontHealthEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadStorefronts('GET');
+  }, []);
+
+  async function loadStorefronts(method: 'GET' | 'POST') {
+    try {
+      const response = await fetch('/api/storefronts/health', {
+        method,
+        headers: await getAdminAuthHeaders(),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load storefront status');
+      }
+
+      setStorefronts(result.storefronts || []);
+    } catch (error: any) {
+      console.error(
+        '[StorefrontStatusCards] Error loading storefront status:',
+        error
+      );
+      toast({
+        variant: 'destructive',
+        title: 'Error loading storefront status',
+        description: error.message || 'An unexpected error occurred.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCheckNow() {
+    setChecking(true);
+    await loadStorefronts('POST');
+    setChecking(false);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold tracking-tight">Storefronts</h2>
+          <p className="text-sm text-muted-foreground">
+            Whether each customer app is reachable and accepts our revalidation
+            secret
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleCheckNow} disabled={checking}>
+          {checking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Check now
+        </Button>
+      </div>
+
+      {storefronts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {loading ? 'Loading…' : 'No storefronts are configured.'}
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {storefronts.map(({ targetUrl, health }) => {
+            const badge = health ? STATUS_BADGES[health.status] : null;
+            return (
+              <Card key={targetUrl}>
+                <CardHeader className="space-y-2 pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="truncate text-sm font-medium">
+                      {targetUrl}
+                    </CardTitle>
+                    {badge ? (
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    ) : (
+                      <Badge variant="secondary">Not checked</Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    Last success {timeAgo(health?.last_success_at)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1 text-xs text-muted-foreground">
+                  {health && (
+                    <>
+                      <div>
+                        Latency{' '}
+                        <span className="font-medium text-foreground">
+                          {health.latency_ms} ms
+                        </span>{' '}
+                        · checked {timeAgo(health.checked_at)}
+                      </div>
+                      {health.error && (
+                        <p className="line-clamp-2 text-destructive">
+                          {health.error}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
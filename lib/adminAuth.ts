@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from './supabase';
+
+/**
+ * Resolves the admin user behind an API request. The admin UI keeps its
+ * Supabase session in the browser, so it sends the access token as
+ * `Authorization: Bearer <token>` from `supabase.auth.getSession()`.
+ *
+ * @param req - The incoming API request.
+ * @returns {Promise<{id: string, email: string | undefined} | null>} The admin user, or `null` if the token is missing, invalid or not an admin's.
+ */
+export async function getAdminUserFromRequest(
+  req: NextRequest
+): Promise<{ id: string; email: string | undefined } | null> {
+  const authorization = req.headers.get('authorization');
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length).trim()
+    : null;
+  if (!token) return null;
+
+  const supabase = getSupabaseAdmin();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  // Same check as the AuthGuard: only users listed in admin_users
+  const { data: adminUser, error: adminError } = await supabase
+    .from('admin_users')
+    .select('id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (adminError) {
+    console.error('Error checking admin user:', adminError);
+    return null;
+  }
+  return adminUser ? { id: user.id, email: user.email } : null;
+}
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import {
+  revalidateCustomerApp,
+  type RevalidationResult,
+} from './revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  getProductSnapshot,
+  isUrgentChange,
+  type EntityChange,
+  type RevalidationEntityType,
+} from './revalidationPaths';
+
+// Postgres change events for edits that bypass our API routes (Supabase
+// Studio, SQL scripts, pages writing through the browser client). The
+// database sends them from the triggers in
+// `supabase/migrations/20261019000700_catalog_change_webhook.sql`, in the
+// same shape as Supabase database webhooks.
+
+// Watched tables and the entity each one holds
+const WEBHOOK_TABLES = {
+  products: 'product',
+  categories: 'category',
+  subcategories: 'subcategory',
+  brands: 'brand',
+  customer_testimonials: 'testimonial',
+} as const satisfies Record<string, RevalidationEntityType>;
+
+type WebhookTable = keyof typeof WEBHOOK_TABLES;
+
+type Row = Record<string, unknown>;
+
+export const databaseWebhookPayloadSchema = z.object({
+  type: z.enum(['INSERT', 'UPDATE', 'DELETE']),
+  table: z.enum(
+    Object.keys(WEBHOOK_TABLES) as [WebhookTable, ...WebhookTable[]]
+  ),
+  schema: z.string(),
+  record: z.record(z.unknown()).nullable(),
+  old_record: z.record(z.unknown()).nullable(),
+});
+
+export type DatabaseWebhookPayload = z.infer<
+  typeof databaseWebhookPayloadSchema
+>;
+
+// Outcome of a webhook: `skipped` explains why nothing was sent
+export interface DatabaseWebhookResult {
+  entity: RevalidationEntityType;
+  entityId: number | null;
+  skipped?: string;
+  revalidation?: RevalidationResult;
+}
+
+const asNumber = (value: unknown): number | null =>
+  typeof value === 'number' ? value : null;
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' ? value : null;
+
+function changedFields(before: Row, after: Row): string[] {
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .sort();
+}
+
+function entityId(table: WebhookTable, row: Row): number | null {
+  switch (table) {
+    case 'products':
+      return asNumber(row.products_id);
+    case 'categories':
+      return asNumber(row.categories_id);
+    case 'brands':
+      return asNumber(row.brands_id);
+    default:
+      return asNumber(row.id);
+  }
+}
+
+// Builds the snapshot revalidationPaths expects from a raw table row
+function toSnapshot(
+  table: WebhookTable,
+  row: Row | null
+): EntityChange['before'] {
+  if (!row) return null;
+  switch (table) {
+    case 'products':
+      return {
+        products_id: asNumber(row.products_id) ?? 0,
+        slug: asString(row.slug) ?? '',
+        status: asString(row.status),
+        category_id: asNumber(row.category_id),
+        subcategory_id: asNumber(row.subcategory_id),
+        brand_id: asNumber(row.brand_id),
+        featured_in_collection_slug: asString(row.featured_in_collection_slug),
+        price: asNumber(row.price),
+        compare_at_price: asNumber(row.compare_at_price),
+        published_locales: Array.isArray(row.published_locales)
+          ? row.published_locales.filter(
+              (locale): locale is string => typeof locale === 'string'
+            )
+          : null,
+      };
+    case 'categories':
+      return {
+        categories_id: asNumber(row.categories_id) ?? 0,
+        slug: asString(row.slug),
+        parent_category_id: asNumber(row.parent_category_id),
+      };
+    case 'subcategories':
+      return {
+        id: asNumber(row.id) ?? 0,
+        slug: asString(row.slug),
+        category_id: asNumber(row.category_id) ?? 0,
+      };
+    case 'brands':
+      return {
+        brands_id: asNumber(row.brands_id) ?? 0,
+        slug: asString(row.slug),
+      };
+    case 'customer_testimonials':
+      return {
+        id: asNumber(row.id) ?? 0,
+        product_id: asNumber(row.products_id),
+      };
+  }
+}
+
+async function toEntityChange(
+  payload: DatabaseWebhookPayload,
+  fields: string[] | undefined
+): Promise<EntityChange> {
+  const before =
+    payload.type === 'INSERT'
+      ? null
+      : toSnapshot(payload.table, payload.old_record);
+  let after =
+    payload.type === 'DELETE'
+      ? null
+      : toSnapshot(payload.table, payload.record);
+
+  // Product tags live in their own table, so the row alone misses the tag
+  // pages. The product still exists unless this is a delete.
+  if (payload.table === 'products' && after) {
+    const withTags = await getProductSnapshot(
+      (after as { products_id: number }).products_id
+    );
+    if (withTags) after = withTags;
+  }
+
+  return {
+    entity: WEBHOOK_TABLES[payload.table],
+    before,
+    after,
+    changedFields: fields,
+  } as EntityChange;
+}
+
+/**
+ * Revalidates the storefront pages affected by a Postgres change event.
+ * Updates that did not change any column are ignored.
+ *
+ * @param payload - The verified webhook body.
+ * @returns {Promise<DatabaseWebhookResult>} The entity, and either the revalidation outcome or why it was skipped.
+ */
+export async function handleDatabaseWebhook(
+  payload: DatabaseWebhookPayload
+): Promise<DatabaseWebhookResult> {
+  const entity = WEBHOOK_TABLES[payload.table];
+  const row = payload.record ?? payload.old_record;
+  const id = row ? entityId(payload.table, row) : null;
+
+  if (!row) {
+    return { entity, entityId: id, skipped: 'The event has no row.' };
+  }
+
+  let fields: string[] | undefined;
+  if (payload.type === 'UPDATE' && payload.record && payload.old_record) {
+    fields = changedFields(payload.old_record, payload.record);
+    if (fields.length === 0) {
+      return { entity, entityId: id, skipped: 'No column changed.' };
+    }
+  }
+
+  const change = await toEntityChange(payload, fields);
+  const entityRevalidation = await computeEntityRevalidation(change);
+  if (
+    entityRevalidation.routes.length === 0 &&
+    entityRevalidation.tags.length === 0
+  ) {
+    return {
+      entity,
+      entityId: id,
+      skipped: 'Nothing shown on the storefront changed.',
+    };
+  }
+
+  const revalidation = await revalidateCustomerApp(entityRevalidation, {
+    immediate: isUrgentChange(change),
+    trigger: {
+      source: `Database ${payload.type} on ${payload.table}`,
+      entity,
+      entityId: id,
+    },
+  });
+  return { entity, entityId: id, revalidation };
+}
@@ -0,0 +1,56 @@
+import { diffFields, type FieldChange } from './revalidationDryRun';
+
+// Optimistic concurrency for the edit pages: update routes take the
+// `updated_at` the editor loaded and refuse to save over a newer version.
+// The 409 they answer with carries an `EditConflict`, from which the edit
+// page offers to reload the saved version or to save again with the
+// editor's pick of the conflicting fields.
+//
+// With the version the editor loaded (`base`) the fields are merged three
+// ways: a field only the editor changed is saved, a field only the other
+// editor changed keeps its saved value, and only a field both changed is a
+// conflict to pick a side for.
+
+export interface EditConflict {
+  updated_at: string | null; // The saved version; send it back to save over it
+  changes: FieldChange[]; // Fields both editors changed: `from` saved, `to` yours
+  theirs: string[]; // Fields only the other editor changed; left out of a new save
+}
+
+function differs(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+}
+
+/**
+ * Describes a stale save: the saved version, the fields both editors
+ * changed and the fields only the other editor changed. Without `base`
+ * every field where the update differs from what is saved now counts as
+ * changed by both.
+ *
+ * @param saved - The row (and related arrays) as saved now.
+ * @param update - The data the editor tried to save.
+ * @param base - The same fields as the editor loaded them, if known.
+ * @returns {EditConflict} The conflict to send back with the 409.
+ */
+export function buildEditConflict(
+  saved: Record<string, unknown>,
+  update: Record<string, unknown>,
+  base?: Record<string, unknown> | null
+): EditConflict {
+  const changed = diffFields(saved, update);
+  return {
+    updated_at: (saved.updated_at as string | null | undefined) ?? null,
+    changes: base
+      ? changed.filter(
+          ({ field }) =>
+            differs(base[field], saved[field]) &&
+            differs(base[field], update[field])
+        )
+      : changed,
+    theirs: base
+      ? changed
+          .filter(({ field }) => !differs(base[field], update[field]))
+          .map(({ field }) => field)
+      : [],
+  };
+}
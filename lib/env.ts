@@ -0,0 +1,18 @@
+// Reading settings from the environment
+
+/**
+ * Parses a positive integer setting, e.g. a timeout or a limit from the
+ * environment. Anything missing, malformed or not above zero gives the
+ * fallback.
+ *
+ * @param value - The raw setting, usually `process.env.SOME_SETTING`.
+ * @param fallback - The value to use when the setting is unusable.
+ * @returns {number} The setting, or the fallback.
+ */
+export function readPositiveInt(
+  value: string | undefined,
+  fallback: number
+): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,316 @@
+import { timingSafeEqual } from 'node:crypto';
+import { getSupabaseAdmin } from './supabase';
+import type { RevalidationTargetResult } from './revalidateCustomerApp';
+
+// Prometheus metrics for revalidation and the API routes that trigger it,
+// served in the text exposition format by `/api/metrics`.
+//
+// Counters and histograms live in memory, so each server instance reports
+// its own numbers since it started; Prometheus sums them across instances.
+// Queue and breaker state is read from the database on every scrape, so
+// those gauges are the same whichever instance answers.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(',')}}`;
+}
+
+// Series are keyed by their label values, in the order of `labelNames`
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+function labelsFromKey(labelNames: string[], key: string): Labels {
+  const values: string[] = JSON.parse(key);
+  return Object.fromEntries(labelNames.map((name, i) => [name, values[i]]));
+}
+
+function createCounter(name: string, help: string, labelNames: string[]) {
+  const values = new Map<string, number>();
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...Array.from(values.entries()).map(
+        ([key, value]) =>
+          `${name}${formatLabels(labelsFromKey(labelNames, key))} ${value}`
+      ),
+    ],
+  });
+  return {
+    inc(labels: Labels, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+  };
+}
+
+function createHistogram(
+  name: string,
+  help: string,
+  labelNames: string[],
+  buckets: number[]
+) {
+  const series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...Array.from(series.entries()).flatMap(
+        ([key, { counts, sum, count }]) => {
+          const labels = labelsFromKey(labelNames, key);
+          return [
+            ...buckets.map(
+              (bucket, i) =>
+                `${name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[i]}`
+            ),
+            `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+            `${name}_sum${formatLabels(labels)} ${sum}`,
+            `${name}_count${formatLabels(labels)} ${count}`,
+          ];
+        }
+      ),
+    ],
+  });
+  return {
+    observe(labels: Labels, value: number) {
+      const key = seriesKey(labelNames, labels);
+      const current = series.get(key) ?? {
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((bucket, i) => {
+        if (value <= bucket) current.counts[i]++; // Buckets are cumulative
+      });
+      current.sum += value;
+      current.count++;
+      series.set(key, current);
+    },
+  };
+}
+
+const LATENCY_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const revalidationAttempts = createCounter(
+  'revalidation_attempts_total',
+  'Revalidation requests sent to storefronts, by target and result.',
+  ['target', 'result']
+);
+const revalidationFailures = createCounter(
+  'revalidation_failures_total',
+  'Failed revalidation requests, by target and reason (timeout, network, http_4xx, http_5xx).',
+  ['target', 'reason']
+);
+const revalidationRetries = createCounter(
+  'revalidation_retries_total',
+  'Revalidation requests that were a retry of an earlier failed delivery.',
+  ['target']
+);
+const revalidationCircuitOpen = createCounter(
+  'revalidation_circuit_open_total',
+  'Deliveries postponed because the target circuit breaker was open.',
+  ['target']
+);
+const revalidationDuration = createHistogram(
+  'revalidation_request_duration_seconds',
+  'Latency of revalidation requests to storefronts.',
+  ['target'],
+  LATENCY_BUCKETS_SECONDS
+);
+const revalidationCalls = createCounter(
+  'revalidation_calls_total',
+  'Calls to revalidateCustomerApp, by source and outcome (sent, batched, skipped, error).',
+  ['source', 'outcome']
+);
+const apiRequests = createCounter(
+  'api_requests_total',
+  'API route requests, by route and status code.',
+  ['route', 'status']
+);
+const apiRequestDuration = createHistogram(
+  'api_request_duration_seconds',
+  'API route latency.',
+  ['route'],
+  LATENCY_BUCKETS_SECONDS
+);
+
+function failureReason(result: RevalidationTargetResult): string {
+  if (result.status === null) {
+    return result.error?.includes('timed out') ? 'timeout' : 'network';
+  }
+  return result.status >= 500 ? 'http_5xx' : 'http_4xx';
+}
+
+/**
+ * Records one revalidation request to a storefront.
+ *
+ * @param targetUrl - Base URL of the customer app.
+ * @param result - Outcome of the request.
+ * @param attempt - Outbox attempt number; anything above 1 counts as a retry.
+ */
+export function recordRevalidationRequestMetrics(
+  targetUrl: string,
+  result: RevalidationTargetResult,
+  attempt?: number
+): void {
+  revalidationAttempts.inc({
+    target: targetUrl,
+    result: result.ok ? 'success' : 'failure',
+  });
+  if (!result.ok) {
+    revalidationFailures.inc({
+      target: targetUrl,
+      reason: failureReason(result),
+    });
+  }
+  if (attempt && attempt > 1) {
+    revalidationRetries.inc({ target: targetUrl });
+  }
+  revalidationDuration.observe({ target: targetUrl }, result.latencyMs / 1000);
+}
+
+/**
+ * Records a delivery held back by an open circuit breaker.
+ *
+ * @param targetUrl - Base URL of the customer app.
+ */
+export function recordCircuitOpenMetric(targetUrl: string): void {
+  revalidationCircuitOpen.inc({ target: targetUrl });
+}
+
+/**
+ * Records a call to `revalidateCustomerApp`. IDs in the source (e.g. a job
+ * number) are replaced so the number of series stays bounded.
+ *
+ * @param source - The trigger source, e.g. 'POST /api/products/update'.
+ * @param outcome - 'sent', 'batched', 'skipped' or 'error'.
+ */
+export function recordRevalidationCallMetric(
+  source: string | undefined,
+  outcome: 'sent' | 'batched' | 'skipped' | 'error'
+): void {
+  revalidationCalls.inc({
+    source: (source || 'unknown').replace(/\d+/g, ':id'),
+    outcome,
+  });
+}
+
+/**
+ * Wraps a route handler so every request is counted and timed under
+ * `route`. Thrown errors count as a 500 and are re-thrown.
+ *
+ * @param route - Method and path, e.g. 'POST /api/products/update'.
+ * @param handler - The route handler.
+ * @returns The instrumented handler.
+ */
+export function withApiMetrics<Args extends unknown[]>(
+  route: string,
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args: Args) => {
+    const startedAt = Date.now();
+    let status = 500;
+    try {
+      const response = await handler(...args);
+      status = response.status;
+      return response;
+    } finally {
+      apiRequests.inc({ route, status: String(status) });
+      apiRequestDuration.observe({ route }, (Date.now() - startedAt) / 1000);
+    }
+  };
+}
+
+// Current queue and breaker state, read from the database on every scrape
+async function renderDatabaseGauges(): Promise<string[]> {
+  const supabase = getSupabaseAdmin();
+  const countRows = async (
+    table: 'revalidation_outbox' | 'revalidation_circuit_breakers',
+    column: string,
+    value: string
+  ) => {
+    const { count, error } = await supabase
+      .from(table)
+      .select('*', { count: 'exact', head: true })
+      .eq(column, value);
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  try {
+    const [pending, deadLetter, openBreakers] = await Promise.all([
+      countRows('revalidation_outbox', 'status', 'pending'),
+      countRows('revalidation_outbox', 'status', 'dead_letter'),
+      countRows('revalidation_circuit_breakers', 'state', 'open'),
+    ]);
+    return [
+      '# HELP revalidation_outbox_pending Revalidations waiting in the outbox (including retries).',
+      '# TYPE revalidation_outbox_pending gauge',
+      `revalidation_outbox_pending ${pending}`,
+      '# HELP revalidation_outbox_dead_letter Revalidations that gave up after max_attempts.',
+      '# TYPE revalidation_outbox_dead_letter gauge',
+      `revalidation_outbox_dead_letter ${deadLetter}`,
+      '# HELP revalidation_circuit_breakers_open Storefronts whose circuit breaker is open.',
+      '# TYPE revalidation_circuit_breakers_open gauge',
+      `revalidation_circuit_breakers_open ${openBreakers}`,
+    ];
+  } catch (error) {
+    // Still serve the in-memory metrics; a missing gauge is easy to alert on
+    console.error('Error reading revalidation gauges for metrics:', error);
+    return [];
+  }
+}
+
+/**
+ * Checks the `Authorization` header of a scrape against the metrics token,
+ * in constant time so the token cannot be guessed from response times.
+ *
+ * @param authorization - The request's `Authorization` header, if any.
+ * @param metricsToken - The configured `METRICS_TOKEN`.
+ * @returns {boolean} Whether the header is `Bearer <METRICS_TOKEN>`.
+ */
+export function isAuthorizedMetricsRequest(
+  authorization: string | null,
+  metricsToken: string
+): boolean {
+  const received = Buffer.from(authorization ?? '');
+  const expected = Buffer.from(`Bearer ${metricsToken}`);
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Renders all metrics in the Prometheus text exposition format.
+ *
+ * @returns {Promise<string>} The response body for `/api/metrics`.
+ */
+export async function renderMetrics(): Promise<string> {
+  const lines = [
+    ...registry.flatMap((metric) => metric.render()),
+    ...(await renderDatabaseGauges()),
+  ];
+  return `${lines.join('\n')}\n`;
+}
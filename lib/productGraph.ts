@@ -0,0 +1,272 @@
+import type {
+  FaqItemValues,
+  ProductFeatureValues,
+  ProductPageTestimonialValues,
+  ProductTestimonialVideoValues,
+  ProductVariantValues,
+} from '@/app/(admin)/products/schema';
+import { getSupabaseAdmin } from './supabase';
+
+// A product is written together with its related rows in one transaction by
+// the `create_product_graph` / `update_product_graph` database functions
+// (see supabase/migrations/20261019001200_product_graph_functions.sql), so a
+// failed write never leaves a half-built product live. Updates keep the rows
+// whose ID is listed and only insert or delete the rest (see
+// supabase/migrations/20261019001300_product_related_sync.sql). An update
+// may leave arrays out; those keep their saved rows.
+
+export interface ProductRelatedInput {
+  images: string[];
+  features: ProductFeatureValues[];
+  variants: ProductVariantValues[];
+  testimonial_videos: ProductTestimonialVideoValues[];
+  customer_testimonials: ProductPageTestimonialValues[];
+  tags: string[];
+  faqs: FaqItemValues[];
+}
+
+// The `related` argument of the database functions: one array per related
+// table. Rows with the ID of an existing row of the product update it; rows
+// without one are inserted (creates ignore IDs). Images and tags have no ID
+// and are matched by URL and text.
+export interface ProductGraphRelated {
+  images: string[]; // The first one is the primary image
+  features: { id?: number; feature_text: string }[];
+  tags: string[];
+  faqs: { faq_id?: number; question: string; answer: string }[];
+  testimonial_videos: {
+    id?: number;
+    video_url: string;
+    title: string | null;
+    description: string | null;
+    uploader_name: string | null;
+  }[];
+  customer_testimonials: {
+    id?: number;
+    customer_name: string;
+    testimonial_text: string;
+    rating: number | null;
+    customer_image_url: string | null;
+  }[];
+  variants: {
+    id?: number;
+    name: string;
+    price: number | null;
+    compare_at_price: number | null;
+    sku: string | null;
+    quantity: number | null;
+    image_url: string | null;
+    icon_url: string | null;
+    attributes: { id?: number; name: string; value: string }[];
+    variant_features: {
+      id?: number;
+      feature_text: string;
+      icon_url: string | null;
+    }[];
+  }[];
+}
+
+export const PRODUCT_RELATED_KEYS: (keyof ProductGraphRelated)[] = [
+  'images',
+  'features',
+  'tags',
+  'faqs',
+  'testimonial_videos',
+  'customer_testimonials',
+  'variants',
+];
+
+/**
+ * Normalizes the related data of a validated create/update request into the
+ * `related` argument of the product graph database functions. Arrays missing
+ * from the input are missing from the result.
+ *
+ * @param input - The related arrays of the request.
+ * @returns {Partial<ProductGraphRelated>} The rows to write, empty strings turned into nulls.
+ */
+export function productGraphRelated(
+  input: Partial<ProductRelatedInput>
+): Partial<ProductGraphRelated> {
+  const related: Partial<ProductGraphRelated> = {
+    images: input.images,
+    features: input.features?.map((feature) => ({
+      id: feature.id,
+      feature_text: feature.feature_text,
+    })),
+    tags: input.tags,
+    faqs: input.faqs?.map((faq) => ({
+      faq_id: faq.id,
+      question: faq.question,
+      answer: faq.answer,
+    })),
+    testimonial_videos: input.testimonial_videos?.map((video) => ({
+      id: video.id,
+      video_url: video.video_url,
+      title: video.title || null,
+      description: video.description || null,
+      uploader_name: video.uploader_name || null,
+    })),
+    customer_testimonials: input.customer_testimonials?.map((testimonial) => ({
+      id: testimonial.id,
+      customer_name: testimonial.customer_name,
+      testimonial_text: testimonial.testimonial_text,
+      rating: testimonial.rating ?? null,
+      customer_image_url: testimonial.customer_image_url || null,
+    })),
+    variants: input.variants?.map((variant) => ({
+      id: variant.id,
+      name: variant.name,
+      price: variant.price ?? null,
+      compare_at_price: variant.compare_at_price ?? null,
+      sku: variant.sku ?? null,
+      quantity: variant.quantity ?? null,
+      image_url: variant.image_url || null,
+      icon_url: variant.icon_url || null,
+      attributes: (variant.attributes || [])
+        .filter((attribute) => attribute.name && attribute.value)
+        .map((attribute) => ({
+          id: attribute.id,
+          name: attribute.name,
+          value: attribute.value,
+        })),
+      variant_features: (variant.variant_features || [])
+        .filter((feature) => feature.feature_text)
+        .map((feature) => ({
+          id: feature.id,
+          feature_text: feature.feature_text,
+          icon_url: feature.icon_url || null,
+        })),
+    })),
+  };
+  PRODUCT_RELATED_KEYS.forEach((key) => {
+    if (related[key] === undefined) delete related[key];
+  });
+  return related;
+}
+
+const byId = (a: { id: number }, b: { id: number }) => a.id - b.id;
+
+// A related row as stored, with its ID
+type Saved<Row> = Omit<Row, 'id'> & { id: number };
+
+type VariantRelated = ProductGraphRelated['variants'][number];
+
+// The related rows as `loadProductRelated` selects them
+interface SavedProductRelated {
+  product_images: { url: string; sort_order: number | null }[];
+  product_features: Saved<ProductGraphRelated['features'][number]>[];
+  product_tags: { tag_text: string }[];
+  product_faqs: (Omit<ProductGraphRelated['faqs'][number], 'faq_id'> & {
+    faq_id: number;
+  })[];
+  product_testimonial_videos: Saved<
+    ProductGraphRelated['testimonial_videos'][number]
+  >[];
+  customer_testimonials: Saved<
+    ProductGraphRelated['customer_testimonials'][number]
+  >[];
+  product_variants: (Saved<
+    Omit<VariantRelated, 'attributes' | 'variant_features'>
+  > & {
+    variant_attributes: Saved<VariantRelated['attributes'][number]>[];
+    variant_features: Saved<VariantRelated['variant_features'][number]>[];
+  })[];
+}
+
+/**
+ * Loads the saved related rows of a product, in the shape and key order of
+ * `productGraphRelated` so the two can be compared field by field.
+ *
+ * @param productsId - The product's ID.
+ * @returns {Promise<ProductGraphRelated | null>} The saved rows, or `null` if the product does not exist.
+ */
+export async function loadProductRelated(
+  productsId: number
+): Promise<ProductGraphRelated | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('products')
+    .select(
+      `
+      product_images(url, sort_order),
+      product_features(id, feature_text),
+      product_tags(tag_text),
+      product_faqs(faq_id, question, answer),
+      product_testimonial_videos(id, video_url, title, description, uploader_name),
+      customer_testimonials(id, customer_name, testimonial_text, rating, customer_image_url),
+      product_variants(
+        id, name, price, compare_at_price, sku, quantity, image_url, icon_url,
+        variant_attributes(id, name, value),
+        variant_features(id, feature_text, icon_url)
+      )
+    `
+    )
+    .eq('products_id', productsId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load product related data: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const row: SavedProductRelated = data;
+  return {
+    images: [...(row.product_images || [])]
+      .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+      .map((image) => image.url),
+    features: [...(row.product_features || [])].sort(byId).map((feature) => ({
+      id: feature.id,
+      feature_text: feature.feature_text,
+    })),
+    tags: (row.product_tags || []).map((tag) => tag.tag_text),
+    faqs: [...(row.product_faqs || [])]
+      .sort((a, b) => a.faq_id - b.faq_id)
+      .map((faq) => ({
+        faq_id: faq.faq_id,
+        question: faq.question,
+        answer: faq.answer,
+      })),
+    testimonial_videos: [...(row.product_testimonial_videos || [])]
+      .sort(byId)
+      .map((video) => ({
+        id: video.id,
+        video_url: video.video_url,
+        title: video.title || null,
+        description: video.description || null,
+        uploader_name: video.uploader_name || null,
+      })),
+    customer_testimonials: [...(row.customer_testimonials || [])]
+      .sort(byId)
+      .map((testimonial) => ({
+        id: testimonial.id,
+        customer_name: testimonial.customer_name,
+        testimonial_text: testimonial.testimonial_text,
+        rating: testimonial.rating ?? null,
+        customer_image_url: testimonial.customer_image_url || null,
+      })),
+    variants: [...(row.product_variants || [])].sort(byId).map((variant) => ({
+      id: variant.id,
+      name: variant.name,
+      price: variant.price ?? null,
+      compare_at_price: variant.compare_at_price ?? null,
+      sku: variant.sku ?? null,
+      quantity: variant.quantity ?? null,
+      image_url: variant.image_url || null,
+      icon_url: variant.icon_url || null,
+      attributes: [...(variant.variant_attributes || [])]
+        .sort(byId)
+        .map((attribute) => ({
+          id: attribute.id,
+          name: attribute.name,
+          value: attribute.value,
+        })),
+      variant_features: [...(variant.variant_features || [])]
+        .sort(byId)
+        .map((feature) => ({
+          id: feature.id,
+          feature_text: feature.feature_text,
+          icon_url: feature.icon_url || null,
+        })),
+    })),
+  };
+}
@@ -0,0 +1,43 @@
+import type { Database } from '@/types/supabase';
+
+// Revision history for products: every create and update through the API
+// stores a full snapshot of the product and its related rows. The product
+// graph database functions write it in the same transaction as the save,
+// from the rows just written (see
+// supabase/migrations/20261019001600_product_revisions.sql), so history has
+// no gaps and no revisions of failed saves. The edit page diffs two
+// snapshots and restores one by saving it through /api/products/update,
+// which records the restore as a new revision.
+
+type ProductRevisionRow =
+  Database['public']['Tables']['product_revisions']['Row'];
+
+export interface RevisionAuthor {
+  id: string;
+  email: string | undefined;
+}
+
+// The `revision` argument of `create_product_graph` / `update_product_graph`
+export type ProductRevisionInfo = Pick<
+  ProductRevisionRow,
+  'author_id' | 'author_email' | 'restored_from'
+>;
+
+/**
+ * Describes the revision a product save records: who saved it and, for a
+ * restore, which revision it restored.
+ *
+ * @param author - The admin who saved it, or `null` if unknown.
+ * @param restoredFrom - The revision the save restored, if it was a restore.
+ * @returns {ProductRevisionInfo} The `revision` argument of the product graph functions.
+ */
+export function productRevisionInfo(
+  author: RevisionAuthor | null,
+  restoredFrom?: number
+): ProductRevisionInfo {
+  return {
+    author_id: author?.id ?? null,
+    author_email: author?.email ?? null,
+    restored_from: restoredFrom ?? null,
+  };
+}
@@ -1,148 +1,327 @@
-import { getSupabaseAdmin } from './supabase';
+import { after } from 'next/server';
+import {
+  enqueueRevalidation,
+  deliverOutboxEntry,
+  flushRevalidationBatch,
+  getBatchWindowMs,
+  queueRevalidationBatch,
+  sendRevalidationWithoutOutbox,
+  type RevalidationOutboxEntry,
+} from './revalidationOutbox';
+import { getStorefronts, type RevalidationMode } from './storefrontConfig';
+import { recordRevalidationCallMetric } from './metrics';
+import {
+  renderStorefrontPaths,
+  type StorefrontRoute,
+} from './storefrontRoutes';
 
 // Define the type for the payload expected by the customer app's API
-interface RevalidationPayload {
+export interface RevalidationPayload {
   path?: string;
   paths?: string[];
+  tags?: string[]; // Cache tags for storefronts using `revalidateTag`
 }
 
-/**
- * Triggers on-demand revalidation in one or more customer applications.
- *
- * @param payload - An object containing either a single `path` or an array of `paths` to revalidate.
- * @returns {Promise<void>} A promise that resolves when all revalidation requests have been attempted.
- */
-export async function revalidateCustomerApp(
-  payload: RevalidationPayload
-): Promise<void> {
-  const customerAppBaseUrlsString = process.env.CUSTOMER_APP_BASE_URLS; // Use the new plural variable
-  const revalidationSecret = process.env.REVALIDATION_SECRET;
+// What API routes ask to revalidate. `routes` are rendered with each
+// storefront's own templates and locale prefixes; `path`/`paths` are sent
+// verbatim to every storefront that receives paths, and `tags` to every one
+// that receives tags.
+export interface RevalidationRequest extends RevalidationPayload {
+  routes?: StorefrontRoute[];
+}
 
-  if (!customerAppBaseUrlsString) {
-    console.error(
-      'Error: CUSTOMER_APP_BASE_URLS environment variable is not set or empty.'
-    );
-    return;
-  }
+// Outcome of a revalidation request against a single customer app
+export interface RevalidationTargetResult {
+  url: string;
+  ok: boolean;
+  status: number | null; // HTTP status, null when no response was received
+  latencyMs: number;
+  error: string | null;
+  retryScheduled?: boolean; // A failed delivery that the outbox will retry
+  batched?: boolean; // Queued in a batch that is sent once the batch window closes
+  circuitOpen?: boolean; // Not sent because the storefront's circuit breaker is open
+}
 
-  if (!revalidationSecret) {
-    console.error(
-      'Error: REVALIDATION_SECRET environment variable is not set.'
-    );
-    return;
-  }
+// What caused a revalidation, recorded in the revalidation history
+export interface RevalidationTrigger {
+  source: string; // e.g. 'POST /api/products/update'
+  entity?: string; // 'product', 'category', 'subcategory', 'brand' or 'testimonial'
+  entityId?: number | string | null;
+}
+
+export interface RevalidationOptions {
+  // Skip batching and send right away, e.g. for price corrections
+  immediate?: boolean;
+  trigger?: RevalidationTrigger;
+  // Only send to these base URLs (must be configured storefronts)
+  targets?: string[];
+}
+
+// A payload rendered for one customer app
+export interface RevalidationDelivery {
+  targetUrl: string;
+  payload: RevalidationPayload;
+}
 
-  // Split the comma-separated string into an array of URLs
-  const customerAppBaseUrls = customerAppBaseUrlsString
-    .split(',')
-    .map((url) => url.trim())
-    .filter((url) => url);
+export interface PlannedRevalidationDelivery extends RevalidationDelivery {
+  revalidationMode: RevalidationMode;
+}
+
+// Aggregated outcome returned to API routes (and from there to the admin UI)
+export interface RevalidationResult {
+  ok: boolean;
+  targets: RevalidationTargetResult[];
+  error?: string; // Set when revalidation could not be attempted at all
+}
 
-  if (customerAppBaseUrls.length === 0) {
+// Sends the batches this request opened once their window closes. Batches
+// that merely received more paths are sent by whoever opened them.
+function scheduleBatchFlush(entries: RevalidationOutboxEntry[]) {
+  if (entries.length === 0) return;
+  try {
+    after(() => Promise.allSettled(entries.map(flushRevalidationBatch)));
+  } catch (error) {
+    // Outside a request (e.g. a script) there is no `after`; the outbox
+    // worker picks the batches up once they are due.
     console.warn(
-      'CUSTOMER_APP_BASE_URLS environment variable contains no valid URLs after trimming.'
+      'Could not schedule revalidation batch flush, leaving it to the outbox worker:',
+      error
     );
-    return;
   }
+}
 
-  const requests = customerAppBaseUrls.map(async (baseUrl) => {
-    const revalidateUrl = `${baseUrl}/api/revalidate`;
-    console.log(
-      `Attempting to revalidate customer app paths: ${JSON.stringify(payload)} at ${revalidateUrl}`
-    );
+export interface RevalidationPlan {
+  deliveries: PlannedRevalidationDelivery[];
+  skipped: RevalidationTargetResult[]; // Storefronts that cannot be sent to, with the reason
+}
 
-    try {
-      const response = await fetch(revalidateUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${revalidationSecret}`,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(
-          `Revalidation failed for ${baseUrl} with status ${response.status}: ${errorBody}`
-        );
-      }
+/**
+ * Works out what each storefront would be sent for a request, without
+ * sending anything. Used by `revalidateCustomerApp` and by the manual
+ * revalidation console to preview the payloads. A storefront without a
+ * signing secret is skipped and reported; the others are still planned.
+ *
+ * @param request - Storefront `routes` and cache `tags` to revalidate, and/or literal `path`/`paths`.
+ * @param options - `targets` restricts the plan to some of the configured storefronts.
+ * @returns {Promise<RevalidationPlan | {error: string}>} One delivery per target (payloads may be empty) and the skipped targets, or the configuration error.
+ */
+export async function planRevalidation(
+  request: RevalidationRequest,
+  options: Pick<RevalidationOptions, 'targets'> = {}
+): Promise<RevalidationPlan | { error: string }> {
+  let storefronts = await getStorefronts();
 
-      const result = await response.json();
-      console.log(
-        `Customer app revalidation successful for ${baseUrl}:`,
-        result
-      );
-      return { status: 'fulfilled', url: baseUrl, result };
-    } catch (error: any) {
-      console.error(`Error triggering revalidation for ${baseUrl}:`, error);
-      // Return error information
-      return { status: 'rejected', url: baseUrl, error: error.message };
+  if (storefronts.length === 0) {
+    const error =
+      'No storefronts are configured (storefronts table and CUSTOMER_APP_BASE_URLS are both empty).';
+    console.error(`Error: ${error}`);
+    return { error };
+  }
+
+  if (options.targets) {
+    const selected = options.targets;
+    storefronts = storefronts.filter((storefront) =>
+      selected.includes(storefront.baseUrl)
+    );
+    if (storefronts.length === 0) {
+      return { error: 'None of the selected targets is configured.' };
     }
+  }
+
+  const skipped: RevalidationTargetResult[] = [];
+  storefronts = storefronts.filter((storefront) => {
+    if (storefront.secret || process.env.REVALIDATION_SECRET) return true;
+    const error = `REVALIDATION_SECRET environment variable is not set and ${storefront.baseUrl} has no secret of its own.`;
+    console.error(`Error: ${error}`);
+    skipped.push({
+      url: storefront.baseUrl,
+      ok: false,
+      status: null,
+      latencyMs: 0,
+      error,
+    });
+    return false;
   });
 
-  // Wait for all requests to settle (either succeed or fail)
-  const results = await Promise.allSettled(requests);
+  const literalPaths = [
+    ...(request.path ? [request.path] : []),
+    ...(request.paths || []),
+  ];
+  const tags = Array.from(new Set(request.tags || []));
 
-  results.forEach((result) => {
-    if (result.status === 'rejected') {
-      // Log the reason for rejection if the promise itself failed (e.g., network error before catch block)
-      console.error(
-        `Revalidation request promise rejected for one URL: ${result.reason}`
+  const deliveries = storefronts.map((storefront) => {
+    const payload: RevalidationPayload = {};
+
+    if (storefront.revalidationMode !== 'tags') {
+      const paths = Array.from(
+        new Set([
+          ...literalPaths,
+          ...renderStorefrontPaths(
+            request.routes || [],
+            storefront.routeTemplates,
+            storefront.locales
+          ),
+        ])
       );
+      if (paths.length > 0) payload.paths = paths;
+    }
+    if (storefront.revalidationMode !== 'paths' && tags.length > 0) {
+      payload.tags = tags;
     }
-    // Successful fetches (even with non-2xx status) or caught errors are handled within the map function logging
+
+    return {
+      targetUrl: storefront.baseUrl,
+      revalidationMode: storefront.revalidationMode,
+      payload,
+    };
   });
 
-  console.log(
-    'Finished attempting revalidation for all configured customer apps.'
-  );
+  return { deliveries, skipped };
 }
 
 /**
- * Helper function to get category/brand slugs for revalidation paths.
- * This assumes category/brand pages follow a '/category/[slug]' or '/brand/[slug]' pattern.
- * Adjust the path construction if the customer app uses different URL structures.
+ * Triggers on-demand revalidation in one or more customer applications.
  *
- * @param productId - The ID of the product.
- * @returns {Promise<{categoryPath: string | null, brandPath: string | null}>} Paths for category and brand pages.
+ * Routes are rendered into paths per target using that storefront's route
+ * templates (see `CUSTOMER_APP_ROUTE_TEMPLATES`) and expanded into its
+ * locale variants (see `CUSTOMER_APP_LOCALES`), so every customer app gets
+ * its own payload containing paths, cache tags or both depending on its
+ * `CUSTOMER_APP_REVALIDATION_MODES` setting. Each target gets a row in the
+ * `revalidation_outbox` table before anything is sent, then an immediate
+ * delivery attempt is made.
+ * Unless `options.immediate` is set, requests are first merged into a
+ * per-target batch for `REVALIDATION_BATCH_WINDOW_MS` so a burst of saves
+ * results in one request per storefront; the batch is sent after the
+ * response (with the outbox worker as a fallback).
+ * Failed deliveries stay in the outbox and are retried with exponential
+ * backoff by the outbox worker (`/api/revalidation/outbox`) until they
+ * succeed or are dead-lettered. Requests time out, and a storefront whose
+ * circuit breaker is open is not contacted at all: its deliveries wait in
+ * the outbox until the breaker lets requests through again. Calls and
+ * requests are counted in the metrics served by `/api/metrics`.
+ *
+ * @param request - Storefront `routes` and cache `tags` to revalidate, and/or literal `path`/`paths`.
+ * @param options - `immediate: true` bypasses batching; `trigger` describes the cause for the revalidation history; `targets` limits which storefronts are sent to.
+ * @returns {Promise<RevalidationResult>} Per-target outcome once all revalidation requests have been attempted.
  */
-export async function getProductRelatedPaths(
-  productId: number
-): Promise<{ categoryPath: string | null; brandPath: string | null }> {
-  const supabase = getSupabaseAdmin(); // Use admin client for server-side access
-  if (!supabase) {
-    console.error('Failed to get Supabase admin client.');
-    return { categoryPath: null, brandPath: null };
+export async function revalidateCustomerApp(
+  request: RevalidationRequest,
+  options: RevalidationOptions = {}
+): Promise<RevalidationResult> {
+  const source = options.trigger?.source;
+  const plan = await planRevalidation(request, options);
+  if ('error' in plan) {
+    recordRevalidationCallMetric(source, 'error');
+    return { ok: false, targets: [], error: plan.error };
+  }
+
+  const deliveries: RevalidationDelivery[] = plan.deliveries
+    // A storefront may have none of the affected pages
+    .filter((delivery) => delivery.payload.paths || delivery.payload.tags)
+    .map(({ targetUrl, payload }) => ({ targetUrl, payload }));
+
+  if (deliveries.length === 0) {
+    if (plan.skipped.length > 0) {
+      recordRevalidationCallMetric(source, 'error');
+      return { ok: false, targets: plan.skipped };
+    }
+    console.log(
+      'No paths or tags to revalidate, skipping customer app revalidation.'
+    );
+    recordRevalidationCallMetric(source, 'skipped');
+    return { ok: true, targets: [] };
+  }
+
+  const triggers = options.trigger ? [options.trigger] : [];
+  const batchWindowMs = options.immediate ? 0 : getBatchWindowMs();
+  if (batchWindowMs > 0) {
+    try {
+      const batches = await queueRevalidationBatch(
+        deliveries,
+        batchWindowMs,
+        triggers
+      );
+      scheduleBatchFlush(
+        batches.filter((batch) => batch.opened).map((batch) => batch.entry)
+      );
+      recordRevalidationCallMetric(source, 'batched');
+      return {
+        ok: plan.skipped.length === 0,
+        targets: [
+          ...batches.map(({ entry }) => ({
+            url: entry.target_url,
+            ok: true,
+            status: null,
+            latencyMs: 0,
+            error: null,
+            batched: true,
+          })),
+          ...plan.skipped,
+        ],
+      };
+    } catch (error) {
+      console.error(
+        'Could not queue revalidation batch, sending immediately:',
+        error
+      );
+    }
   }
 
-  const { data, error } = await supabase
-    .from('products')
-    .select(
-      `
-      categories ( slug ),
-      brands ( slug )
-    `
-    )
-    .eq('products_id', productId)
-    .single();
-
-  if (error) {
+  // Persist first so nothing is lost if delivery (or this request) fails
+  let outboxEntries;
+  try {
+    outboxEntries = await enqueueRevalidation(deliveries, triggers);
+  } catch (error) {
     console.error(
-      'Error fetching product category/brand slugs for revalidation:',
+      'Could not write revalidation outbox, falling back to direct delivery:',
       error
     );
-    return { categoryPath: null, brandPath: null };
   }
 
-  // Access the first element if the relationship is inferred as an array
-  const category = Array.isArray(data?.categories)
-    ? data.categories[0]
-    : data?.categories;
-  const brand = Array.isArray(data?.brands) ? data.brands[0] : data?.brands;
+  const requests: Promise<RevalidationTargetResult>[] = outboxEntries
+    ? outboxEntries.map(async (entry) => {
+        const { result } = await deliverOutboxEntry(entry);
+        // A null result means a worker picked the row up first; it is in flight
+        return (
+          result ?? {
+            url: entry.target_url,
+            ok: true,
+            status: null,
+            latencyMs: 0,
+            error: null,
+          }
+        );
+      })
+    : deliveries.map((delivery) =>
+        sendRevalidationWithoutOutbox(delivery, triggers)
+      );
+
+  // Wait for all requests to settle (either succeed or fail)
+  const settled = await Promise.allSettled(requests);
 
-  const categoryPath = category?.slug ? `/category/${category.slug}` : null;
-  const brandPath = brand?.slug ? `/brand/${brand.slug}` : null;
+  const sent = settled.map((result, index): RevalidationTargetResult => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    }
+    // Log the reason for rejection if the promise itself failed (e.g., an outbox update threw)
+    console.error(
+      `Revalidation request promise rejected for one URL: ${result.reason}`
+    );
+    return {
+      url: deliveries[index].targetUrl,
+      ok: false,
+      status: null,
+      latencyMs: 0,
+      error: result.reason?.message || String(result.reason),
+    };
+  });
+
+  const targets = [...sent, ...plan.skipped];
+  const failedCount = targets.filter((target) => !target.ok).length;
+  recordRevalidationCallMetric(source, 'sent');
+  console.log(
+    `Finished attempting revalidation for all configured customer apps (${targets.length - failedCount} succeeded, ${failedCount} failed).`
+  );
 
-  return { categoryPath, brandPath };
+  return { ok: failedCount === 0, targets };
 }
@@ -0,0 +1,196 @@
+import { getSupabaseAdmin } from './supabase';
+import { readPositiveInt } from './env';
+import type { RevalidationTargetResult } from './revalidateCustomerApp';
+import type { Database } from '@/types/supabase';
+
+export type RevalidationCircuitBreaker =
+  Database['public']['Tables']['revalidation_circuit_breakers']['Row'];
+
+// Breaker tuning. Each can be overridden through the environment.
+const DEFAULT_FAILURE_THRESHOLD = 5; // Consecutive failures before the breaker opens
+const DEFAULT_COOLDOWN_MS = 60_000; // How long an open breaker keeps a storefront out
+
+// Start of `last_error` on outbox rows postponed by an open breaker
+export const CIRCUIT_OPEN_ERROR_PREFIX = 'Circuit breaker open';
+
+const failureThreshold = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_BREAKER_FAILURE_THRESHOLD,
+    DEFAULT_FAILURE_THRESHOLD
+  );
+
+const cooldownMs = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_BREAKER_COOLDOWN_MS,
+    DEFAULT_COOLDOWN_MS
+  );
+
+// Only failures that say the storefront itself is in trouble count towards
+// the breaker. A 4xx is a problem with the request (e.g. a bad signature)
+// and would not be fixed by waiting.
+function isStorefrontFailure(result: RevalidationTargetResult): boolean {
+  return !result.ok && (result.status === null || result.status >= 500);
+}
+
+/**
+ * Decides whether a request may be sent to a storefront. A closed breaker
+ * always allows it. Once an open breaker's cooldown has passed, exactly one
+ * caller gets to send a trial request (the breaker goes half open); everyone
+ * else keeps waiting until that trial reports back or its slot expires.
+ * Errors reading the breaker fail open, so a database hiccup never blocks
+ * revalidation.
+ *
+ * @param targetUrl - Base URL of the customer app.
+ * @returns {Promise<{allowed: boolean, openUntil: string | null}>} Whether to send, and when to try again if not.
+ */
+export async function checkCircuitBreaker(
+  targetUrl: string
+): Promise<{ allowed: boolean; openUntil: string | null }> {
+  const supabase = getSupabaseAdmin();
+  const { data: breaker, error } = await supabase
+    .from('revalidation_circuit_breakers')
+    .select('*')
+    .eq('target_url', targetUrl)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error reading circuit breaker for ${targetUrl}:`, error);
+    return { allowed: true, openUntil: null };
+  }
+  if (!breaker || breaker.state === 'closed' || !breaker.open_until) {
+    return { allowed: true, openUntil: null };
+  }
+  if (new Date(breaker.open_until).getTime() > Date.now()) {
+    return { allowed: false, openUntil: breaker.open_until };
+  }
+
+  // Cooldown over: claim the trial request. The update only matches if
+  // nobody else claimed it since we read the row.
+  const trialUntil = new Date(Date.now() + cooldownMs()).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('revalidation_circuit_breakers')
+    .update({
+      state: 'half_open',
+      open_until: trialUntil,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('target_url', targetUrl)
+    .eq('open_until', breaker.open_until)
+    .select('target_url')
+    .maybeSingle();
+
+  if (claimError) {
+    console.error(
+      `Error claiming circuit breaker trial for ${targetUrl}:`,
+      claimError
+    );
+    return { allowed: true, openUntil: null };
+  }
+  return claimed
+    ? { allowed: true, openUntil: null }
+    : { allowed: false, openUntil: trialUntil };
+}
+
+/**
+ * Feeds a request outcome into the storefront's breaker: a success closes
+ * it, a storefront failure counts towards opening it, and a failed trial
+ * request re-opens it for another cooldown. Never throws.
+ *
+ * @param targetUrl - Base URL of the customer app.
+ * @param result - Outcome of the request.
+ * @returns {Promise<void>}
+ */
+export async function recordCircuitBreakerResult(
+  targetUrl: string,
+  result: RevalidationTargetResult
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+
+  try {
+    if (!isStorefrontFailure(result)) {
+      if (!result.ok) return; // A request error says nothing about the storefront
+      const { error } = await supabase
+        .from('revalidation_circuit_breakers')
+        .upsert({
+          target_url: targetUrl,
+          state: 'closed',
+          consecutive_failures: 0,
+          opened_at: null,
+          open_until: null,
+          last_success_at: now,
+          updated_at: now,
+        });
+      if (error) throw error;
+      return;
+    }
+
+    // Counted in the database, so concurrent failures all add up
+    const { data, error } = await supabase.rpc(
+      'record_revalidation_breaker_failure',
+      {
+        target_url: targetUrl,
+        failure_threshold: failureThreshold(),
+        cooldown_ms: cooldownMs(),
+        error: result.error,
+      }
+    );
+    if (error) throw error;
+
+    const [failure] = data ?? [];
+    if (failure?.opened) {
+      console.error(
+        `Circuit breaker opened for ${targetUrl} after ${failure.consecutive_failures} consecutive failures.`
+      );
+    }
+  } catch (error) {
+    console.error(`Error updating circuit breaker for ${targetUrl}:`, error);
+  }
+}
+
+/**
+ * Closes a storefront's breaker by hand, e.g. once the storefront is known
+ * to be back. Its postponed revalidations go out on the next worker run.
+ *
+ * @param targetUrl - Base URL of the customer app.
+ * @returns {Promise<RevalidationCircuitBreaker | null>} The reset breaker, or `null` if the storefront had none.
+ */
+export async function resetCircuitBreaker(
+  targetUrl: string
+): Promise<RevalidationCircuitBreaker | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('revalidation_circuit_breakers')
+    .update({
+      state: 'closed',
+      consecutive_failures: 0,
+      opened_at: null,
+      open_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('target_url', targetUrl)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to reset circuit breaker: ${error.message}`);
+  }
+
+  // Rows postponed by the breaker become due right away
+  const now = new Date().toISOString();
+  const { error: outboxError } = await supabase
+    .from('revalidation_outbox')
+    .update({ next_attempt_at: now, updated_at: now })
+    .eq('target_url', targetUrl)
+    .eq('status', 'pending')
+    .like('last_error', `${CIRCUIT_OPEN_ERROR_PREFIX}%`)
+    .gt('next_attempt_at', now);
+
+  if (outboxError) {
+    console.error(
+      `Error rescheduling postponed revalidations for ${targetUrl}:`,
+      outboxError
+    );
+  }
+  return data;
+}
@@ -0,0 +1,120 @@
+import type { NextRequest } from 'next/server';
+import {
+  planRevalidation,
+  type PlannedRevalidationDelivery,
+} from './revalidateCustomerApp';
+import {
+  computeEntityRevalidation,
+  type EntityChange,
+} from './revalidationPaths';
+import type { StorefrontRoute } from './storefrontRoutes';
+
+// Dry runs let the admin UI show "what will change" before saving: the
+// create/update routes validate the payload and compute the revalidation
+// as usual, then return this instead of writing anything.
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  wouldWrite: {
+    table: string;
+    operation: 'insert' | 'update';
+    data: Record<string, unknown>;
+    changes?: FieldChange[]; // Updates only: fields whose value would change
+    related?: Record<string, number>; // Related rows that would be (re)written
+  };
+  revalidation: {
+    routes: StorefrontRoute[];
+    tags: string[];
+    deliveries: PlannedRevalidationDelivery[]; // What each storefront would be sent
+    error?: string;
+  };
+}
+
+/**
+ * Tells whether a create/update request asks for a dry run (`?dryRun=true`).
+ *
+ * @param req - The incoming API request.
+ * @returns {boolean} `true` if nothing should be written.
+ */
+export function isDryRun(req: NextRequest): boolean {
+  const value = req.nextUrl.searchParams.get('dryRun');
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Applies an update payload to an entity snapshot, so a dry run can compute
+ * the paths of the entity as it would be after the update.
+ *
+ * @param snapshot - The snapshot before the update.
+ * @param update - The data that would be written.
+ * @returns The snapshot with every field present in `update` replaced.
+ */
+export function applyUpdateToSnapshot<T extends object>(
+  snapshot: T,
+  update: Record<string, unknown>
+): T {
+  const next = { ...snapshot } as Record<string, unknown>;
+  Object.keys(snapshot).forEach((key) => {
+    if (key in update) next[key] = update[key];
+  });
+  return next as T;
+}
+
+/**
+ * Lists the fields of an update whose value differs from the current row.
+ *
+ * @param current - The row as stored today.
+ * @param update - The data that would be written.
+ * @returns {FieldChange[]} Changed fields, `updated_at` excluded.
+ */
+export function diffFields(
+  current: Record<string, unknown>,
+  update: Record<string, unknown>
+): FieldChange[] {
+  return Object.keys(update)
+    .filter((field) => field !== 'updated_at')
+    .filter(
+      (field) =>
+        JSON.stringify(current[field] ?? null) !==
+        JSON.stringify(update[field] ?? null)
+    )
+    .map((field) => ({ field, from: current[field], to: update[field] }));
+}
+
+/**
+ * Builds the dry-run response body: what would be written and what every
+ * storefront would be asked to revalidate.
+ *
+ * @param wouldWrite - The table, operation and data that would be written.
+ * @param change - The entity change the write would cause.
+ * @returns {Promise<DryRunResult>} The dry-run result.
+ */
+export async function buildDryRunResult(
+  wouldWrite: DryRunResult['wouldWrite'],
+  change: EntityChange
+): Promise<DryRunResult> {
+  const { routes, tags } = await computeEntityRevalidation(change);
+  const plan = await planRevalidation({ routes, tags });
+
+  return {
+    dryRun: true,
+    wouldWrite,
+    revalidation:
+      'error' in plan
+        ? { routes, tags, deliveries: [], error: plan.error }
+        : {
+            routes,
+            tags,
+            deliveries: plan.deliveries,
+            // Storefronts that would be skipped, e.g. for a missing secret
+            error:
+              plan.skipped.map((target) => target.error).join(' ') || undefined,
+          },
+  };
+}
@@ -0,0 +1,42 @@
+import type { RevalidationResult } from './revalidateCustomerApp';
+
+/**
+ * Builds the warning toast shown after a save when one or more storefronts
+ * did not accept the revalidation request.
+ *
+ * @param revalidation - The `revalidation` object returned by the product, category and brand API routes.
+ * @returns {{title: string, description: string} | null} Toast content, or `null` if every storefront was refreshed.
+ */
+export function getRevalidationWarning(
+  revalidation: RevalidationResult | undefined | null
+): { title: string; description: string } | null {
+  if (!revalidation || revalidation.ok) return null;
+
+  if (revalidation.targets.length === 0) {
+    return {
+      title: 'Storefronts were not refreshed',
+      description: revalidation.error || 'Revalidation could not be attempted.',
+    };
+  }
+
+  const failedTargets = revalidation.targets.filter((target) => !target.ok);
+  const retrying = failedTargets.some((target) => target.retryScheduled);
+
+  return {
+    title: `${failedTargets.length} storefront(s) were not refreshed`,
+    description: `${failedTargets
+      .map(
+        (target) =>
+          `${target.url}${
+            target.circuitOpen
+              ? ' (paused after repeated failures)'
+              : target.status
+                ? ` (HTTP ${target.status})`
+                : ''
+          }`
+      )
+      .join(', ')}${
+      retrying ? '. The update will be retried automatically.' : '.'
+    }`,
+  };
+}
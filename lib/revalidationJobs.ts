@@ -0,0 +1,374 @@
+import { getSupabaseAdmin } from './supabase';
+import { readPositiveInt } from './env';
+import { revalidateCustomerApp } from './revalidateCustomerApp';
+import { cacheTags } from './revalidationPaths';
+import {
+  limitRouteLocales,
+  storefrontRoutes,
+  type StorefrontRoute,
+} from './storefrontRoutes';
+import type { Database } from '@/types/supabase';
+
+export type RevalidationJob =
+  Database['public']['Tables']['revalidation_jobs']['Row'];
+
+// A job without its item list, which is all the admin needs to show progress
+export type RevalidationJobSummary = Omit<RevalidationJob, 'items'>;
+
+export type RevalidationJobAction = 'pause' | 'resume' | 'cancel';
+
+// One page of the catalog, with the cache tag of the entity it shows
+export interface RevalidationJobItem {
+  route: StorefrontRoute;
+  tag: string | null;
+}
+
+// Columns of `revalidation_jobs` except `items`
+export const REVALIDATION_JOB_SUMMARY_COLUMNS =
+  'id, status, targets, total, position, failed, last_error, locked_until, created_by, finished_at, created_at, updated_at';
+
+// Job tuning. Each can be overridden through the environment.
+const DEFAULT_BATCH_SIZE = 50; // Pages per revalidation request
+const DEFAULT_BATCH_DELAY_MS = 2_000; // Pause between batches, so storefronts can keep up
+// How long one runner works on a job before handing it back to the worker;
+// keeps a run inside the serverless function time limit.
+const DEFAULT_RUN_BUDGET_MS = 45_000;
+const LOCK_MARGIN_MS = 30_000; // Extra lock time for the batch in flight when the budget ends
+
+const batchSize = () =>
+  readPositiveInt(process.env.REVALIDATION_JOB_BATCH_SIZE, DEFAULT_BATCH_SIZE);
+
+const batchDelayMs = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_JOB_BATCH_DELAY_MS,
+    DEFAULT_BATCH_DELAY_MS
+  );
+
+const runBudgetMs = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_JOB_RUN_BUDGET_MS,
+    DEFAULT_RUN_BUDGET_MS
+  );
+
+/**
+ * Lists every storefront page of the active catalog: the list pages, then
+ * each active category, subcategory (of an active category), brand and
+ * product.
+ *
+ * @returns {Promise<RevalidationJobItem[]>} The pages, in the order they are revalidated.
+ */
+export async function collectCatalogItems(): Promise<RevalidationJobItem[]> {
+  const supabase = getSupabaseAdmin();
+  const [categories, subcategories, brands, products] = await Promise.all([
+    supabase
+      .from('categories')
+      .select('categories_id, slug')
+      .eq('status', 'active'),
+    supabase.from('subcategories').select('id, slug, category_id'),
+    supabase.from('brands').select('brands_id, slug').eq('status', 'active'),
+    supabase
+      .from('products')
+      .select('products_id, slug, published_locales')
+      .eq('status', 'active'),
+  ]);
+
+  const error =
+    categories.error || subcategories.error || brands.error || products.error;
+  if (error) {
+    throw new Error(`Failed to load the catalog: ${error.message}`);
+  }
+
+  const items: RevalidationJobItem[] = [
+    { route: storefrontRoutes.home(), tag: null },
+    { route: storefrontRoutes.productList(), tag: cacheTags.productList() },
+    { route: storefrontRoutes.categoryList(), tag: cacheTags.categoryList() },
+    { route: storefrontRoutes.brandList(), tag: cacheTags.brandList() },
+  ];
+
+  const categorySlugs = new Map<number, string>();
+  (categories.data || []).forEach((category) => {
+    if (!category.slug) return;
+    categorySlugs.set(category.categories_id, category.slug);
+    items.push({
+      route: storefrontRoutes.category(category.slug),
+      tag: cacheTags.category(category.categories_id),
+    });
+  });
+  (subcategories.data || []).forEach(
+    (sub: { id: number; slug: string | null; category_id: number }) => {
+      const categorySlug = categorySlugs.get(sub.category_id);
+      if (!categorySlug || !sub.slug) return;
+      items.push({
+        route: storefrontRoutes.subcategory(categorySlug, sub.slug),
+        tag: cacheTags.subcategory(sub.id),
+      });
+    }
+  );
+  (brands.data || []).forEach((brand) => {
+    if (!brand.slug) return;
+    items.push({
+      route: storefrontRoutes.brand(brand.slug),
+      tag: cacheTags.brand(brand.brands_id),
+    });
+  });
+  (products.data || []).forEach((product) => {
+    if (!product.slug) return;
+    const [route] = limitRouteLocales(
+      [storefrontRoutes.product(product.slug)],
+      product.published_locales
+    );
+    items.push({ route, tag: cacheTags.product(product.products_id) });
+  });
+
+  return items;
+}
+
+/**
+ * Creates a job that revalidates the whole active catalog. It starts out
+ * `running`; call `runRevalidationJob` (or let the worker pick it up) to
+ * make progress.
+ *
+ * @param options - `targets` limits the job to some storefronts; `createdBy` is the admin who started it.
+ * @returns {Promise<RevalidationJobSummary>} The new job.
+ */
+export async function createRevalidationJob(
+  options: { targets?: string[] | null; createdBy?: string | null } = {}
+): Promise<RevalidationJobSummary> {
+  const items = await collectCatalogItems();
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('revalidation_jobs')
+    .insert({
+      items: items as unknown as Record<string, any>[],
+      targets: options.targets?.length ? options.targets : null,
+      total: items.length,
+      created_by: options.createdBy ?? null,
+    })
+    .select(REVALIDATION_JOB_SUMMARY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(
+      `Failed to create revalidation job: ${error?.message || 'no row returned'}`
+    );
+  }
+  return data;
+}
+
+/**
+ * Pauses, resumes or cancels a job. Only valid transitions match: a
+ * running job can be paused, a paused one resumed, and either cancelled.
+ * The runner notices between batches.
+ *
+ * @param jobId - The ID of the job.
+ * @param action - What to do with it.
+ * @returns {Promise<RevalidationJobSummary | null>} The updated job, or `null` if it doesn't exist or is not in a state that allows the action.
+ */
+export async function updateRevalidationJobStatus(
+  jobId: number,
+  action: RevalidationJobAction
+): Promise<RevalidationJobSummary | null> {
+  const transitions: Record<
+    RevalidationJobAction,
+    { from: RevalidationJob['status'][]; to: RevalidationJob['status'] }
+  > = {
+    pause: { from: ['running'], to: 'paused' },
+    resume: { from: ['paused'], to: 'running' },
+    cancel: { from: ['running', 'paused'], to: 'cancelled' },
+  };
+  const { from, to } = transitions[action];
+  const now = new Date().toISOString();
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('revalidation_jobs')
+    .update({
+      status: to,
+      finished_at: to === 'cancelled' ? now : null,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .in('status', from)
+    .select(REVALIDATION_JOB_SUMMARY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to ${action} revalidation job: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Takes the job's lock for one run. The update only matches if no other
+ * runner holds an unexpired lock, so a job is never worked on twice at once.
+ */
+async function claimJob(
+  jobId: number,
+  lockUntil: Date
+): Promise<RevalidationJob | null> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('revalidation_jobs')
+    .update({ locked_until: lockUntil.toISOString(), updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .or(`locked_until.is.null,locked_until.lt.${now}`)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error claiming revalidation job ${jobId}:`, error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Works on a running job for up to `REVALIDATION_JOB_RUN_BUDGET_MS`:
+ * sends `REVALIDATION_JOB_BATCH_SIZE` pages at a time to the storefronts
+ * (skipping the revalidation batch window, through the outbox so failed
+ * deliveries are retried) and waits `REVALIDATION_JOB_BATCH_DELAY_MS`
+ * between batches. Progress is saved after every batch, so a paused,
+ * cancelled or interrupted job never resends what was already sent.
+ *
+ * @param jobId - The ID of the job.
+ * @returns {Promise<RevalidationJobSummary | null>} The job after this run, or `null` if it was not running or another runner holds it.
+ */
+export async function runRevalidationJob(
+  jobId: number
+): Promise<RevalidationJobSummary | null> {
+  const budgetMs = runBudgetMs();
+  const deadline = Date.now() + budgetMs;
+  const job = await claimJob(jobId, new Date(deadline + LOCK_MARGIN_MS));
+  if (!job) return null;
+
+  const supabase = getSupabaseAdmin();
+  const items = (job.items as unknown as RevalidationJobItem[]) || [];
+  let position = job.position;
+  let failed = job.failed;
+  let lastError = job.last_error;
+  let status: RevalidationJob['status'] = job.status;
+
+  try {
+    while (position < items.length && Date.now() < deadline) {
+      // Pick up a pause or cancel from the admin
+      const { data: current } = await supabase
+        .from('revalidation_jobs')
+        .select('status')
+        .eq('id', jobId)
+        .single();
+      if (current && current.status !== 'running') {
+        status = current.status;
+        break;
+      }
+
+      const batch = items.slice(position, position + batchSize());
+      const revalidation = await revalidateCustomerApp(
+        {
+          routes: batch.map((item) => item.route),
+          tags: batch
+            .map((item) => item.tag)
+            .filter((tag): tag is string => !!tag),
+        },
+        {
+          immediate: true,
+          targets: job.targets ?? undefined,
+          trigger: { source: `Revalidation job #${jobId}` },
+        }
+      );
+
+      if (revalidation.error) {
+        // Nothing could be sent (e.g. no storefronts configured); retrying
+        // the next batch would fail the same way.
+        status = 'failed';
+        lastError = revalidation.error;
+        break;
+      }
+      const failedTarget = revalidation.targets.find((target) => !target.ok);
+      if (failedTarget) {
+        failed += batch.length;
+        lastError = failedTarget.error;
+      }
+      position += batch.length;
+
+      const { error } = await supabase
+        .from('revalidation_jobs')
+        .update({
+          position,
+          failed,
+          last_error: lastError,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId);
+      if (error) {
+        console.error(
+          `Error saving progress of revalidation job ${jobId}:`,
+          error
+        );
+      }
+
+      if (position < items.length) {
+        await new Promise((resolve) => setTimeout(resolve, batchDelayMs()));
+      }
+    }
+  } catch (error: any) {
+    console.error(`Error running revalidation job ${jobId}:`, error);
+    status = 'failed';
+    lastError = error?.message || String(error);
+  }
+
+  if (status === 'running' && position >= items.length) {
+    status = 'completed';
+  }
+  const finished = status === 'completed' || status === 'failed';
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('revalidation_jobs')
+    .update({
+      ...(finished ? { status, finished_at: now } : {}),
+      position,
+      failed,
+      last_error: lastError,
+      locked_until: null,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .select(REVALIDATION_JOB_SUMMARY_COLUMNS)
+    .single();
+
+  if (error) {
+    // The lock expires and the worker carries on from the saved position
+    console.error(`Error releasing revalidation job ${jobId}:`, error);
+    return null;
+  }
+  console.log(
+    `Revalidation job ${jobId}: ${position}/${items.length} pages sent (${data.status}).`
+  );
+  return data;
+}
+
+/**
+ * Continues the oldest running job that no runner is working on. Jobs are
+ * worked on one at a time, since each one already keeps the storefronts
+ * busy. Meant to be called periodically by the job worker route.
+ *
+ * @returns {Promise<RevalidationJobSummary | null>} The job after this run, or `null` if there was nothing to do.
+ */
+export async function processRevalidationJobs(): Promise<RevalidationJobSummary | null> {
+  const supabase = getSupabaseAdmin();
+  const { data: job, error } = await supabase
+    .from('revalidation_jobs')
+    .select('id')
+    .eq('status', 'running')
+    .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read revalidation jobs: ${error.message}`);
+  }
+  return job ? runRevalidationJob(job.id) : null;
+}
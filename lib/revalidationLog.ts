@@ -0,0 +1,53 @@
+import { getSupabaseAdmin } from './supabase';
+import type {
+  RevalidationPayload,
+  RevalidationTargetResult,
+  RevalidationTrigger,
+} from './revalidateCustomerApp';
+import type { Database } from '@/types/supabase';
+
+export type RevalidationLogEntry =
+  Database['public']['Tables']['revalidation_log']['Row'];
+
+// Storefront responses are kept for debugging, not archival
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/**
+ * Persists one revalidation attempt in `revalidation_log`. Never throws: a
+ * failure to write the history must not affect the revalidation itself.
+ *
+ * @param attempt - The target, payload and triggers that were sent, the outcome and (when delivered through the outbox) the outbox row and attempt number.
+ * @returns {Promise<void>}
+ */
+export async function recordRevalidationAttempt(attempt: {
+  targetUrl: string;
+  payload: RevalidationPayload;
+  triggers: RevalidationTrigger[];
+  result: RevalidationTargetResult;
+  responseBody: string | null;
+  outboxId?: number;
+  attemptNumber?: number;
+}): Promise<void> {
+  try {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.from('revalidation_log').insert({
+      outbox_id: attempt.outboxId ?? null,
+      target_url: attempt.targetUrl,
+      payload: attempt.payload as Record<string, any>,
+      triggers: attempt.triggers as Record<string, any>[],
+      attempt: attempt.attemptNumber ?? null,
+      ok: attempt.result.ok,
+      status_code: attempt.result.status,
+      response_body:
+        attempt.responseBody?.slice(0, MAX_RESPONSE_BODY_LENGTH) ?? null,
+      error: attempt.result.error,
+      duration_ms: attempt.result.latencyMs,
+    });
+
+    if (error) {
+      console.error('Error writing revalidation log:', error);
+    }
+  } catch (error) {
+    console.error('Error writing revalidation log:', error);
+  }
+}
@@ -0,0 +1,700 @@
+import { getSupabaseAdmin } from './supabase';
+import { readPositiveInt } from './env';
+import { signRevalidationBody } from './revalidationSigning';
+import { getStorefrontSecrets } from './storefrontConfig';
+import { recordRevalidationAttempt } from './revalidationLog';
+import { scheduleWarmUp } from './revalidationWarmup';
+import {
+  recordCircuitOpenMetric,
+  recordRevalidationRequestMetrics,
+} from './metrics';
+import {
+  CIRCUIT_OPEN_ERROR_PREFIX,
+  checkCircuitBreaker,
+  recordCircuitBreakerResult,
+} from './revalidationCircuitBreaker';
+import type {
+  RevalidationDelivery,
+  RevalidationPayload,
+  RevalidationTargetResult,
+  RevalidationTrigger,
+} from './revalidateCustomerApp';
+import type { Database } from '@/types/supabase';
+
+export type RevalidationOutboxEntry =
+  Database['public']['Tables']['revalidation_outbox']['Row'];
+
+// A request outcome plus the raw response body, which only goes to the log
+export interface RevalidationAttempt extends RevalidationTargetResult {
+  responseBody: string | null;
+}
+
+// Cap on triggers kept per batch row; a bulk session can merge hundreds
+const MAX_TRIGGERS_PER_ENTRY = 50;
+// Times a save re-reads an open batch that changed under it before it opens
+// a new batch instead
+const MAX_BATCH_MERGE_ATTEMPTS = 5;
+
+// Delivery tuning. Each can be overridden through the environment.
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BACKOFF_BASE_MS = 30_000; // 30s, 1m, 2m, 4m, ...
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // Never wait more than an hour between attempts
+// How long a worker "leases" a row while delivering it. If the worker dies
+// mid-delivery the row simply becomes due again once the lease expires.
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+// How long a queued revalidation waits for further changes to the same
+// storefront before it is sent. 0 disables batching.
+const DEFAULT_BATCH_WINDOW_MS = 10_000;
+// A storefront that takes longer than this to answer counts as failed, so
+// one hung storefront can't hold a save (or a worker run) open.
+const DEFAULT_REQUEST_TIMEOUT_MS = 5_000;
+// Revalidation requests in flight at once from one server instance
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+
+const maxAttempts = () =>
+  readPositiveInt(process.env.REVALIDATION_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS);
+
+const backoffBaseMs = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_BACKOFF_BASE_MS,
+    DEFAULT_BACKOFF_BASE_MS
+  );
+
+const requestTimeoutMs = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_REQUEST_TIMEOUT_MS,
+    DEFAULT_REQUEST_TIMEOUT_MS
+  );
+
+const maxConcurrentRequests = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_MAX_CONCURRENT_REQUESTS,
+    DEFAULT_MAX_CONCURRENT_REQUESTS
+  );
+
+let activeRequests = 0;
+const waitingForSlot: (() => void)[] = [];
+
+async function acquireRequestSlot(): Promise<void> {
+  if (activeRequests < maxConcurrentRequests()) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>((resolve) => waitingForSlot.push(resolve));
+}
+
+function releaseRequestSlot(): void {
+  const next = waitingForSlot.shift();
+  if (next) {
+    next(); // Hands the slot straight to the next waiting request
+  } else {
+    activeRequests--;
+  }
+}
+
+/**
+ * Returns the batching window from `REVALIDATION_BATCH_WINDOW_MS`.
+ *
+ * @returns {number} Window in milliseconds; 0 means every revalidation is sent immediately.
+ */
+export function getBatchWindowMs(): number {
+  const value = process.env.REVALIDATION_BATCH_WINDOW_MS;
+  if (value === '0') return 0;
+  return readPositiveInt(value, DEFAULT_BATCH_WINDOW_MS);
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with
+ * a little jitter so retries from many rows don't land on the same second.
+ *
+ * @param attempts - Number of attempts already made (1 after the first failure).
+ * @returns {number} Delay in milliseconds.
+ */
+export function getBackoffDelayMs(attempts: number): number {
+  const exponential = backoffBaseMs() * 2 ** Math.max(attempts - 1, 0);
+  const jitter = Math.random() * 0.2 * exponential;
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
+
+/**
+ * Sends a single revalidation request to one customer app, signed with the
+ * storefront's secret or the active revalidation secrets (see
+ * `getStorefrontSecrets` and `signRevalidationBody`). Requests time
+ * out after `REVALIDATION_REQUEST_TIMEOUT_MS` and at most
+ * `REVALIDATION_MAX_CONCURRENT_REQUESTS` run at once; the rest wait their turn.
+ * Never throws: network errors, timeouts and non-2xx responses are reported in the result.
+ *
+ * @param baseUrl - Base URL of the customer app (without `/api/revalidate`).
+ * @param payload - Paths and/or cache tags to revalidate.
+ * @returns {Promise<RevalidationAttempt>} Outcome of the request, including status, latency and response body.
+ */
+export async function sendRevalidationRequest(
+  baseUrl: string,
+  payload: RevalidationPayload
+): Promise<RevalidationAttempt> {
+  const secrets = await getStorefrontSecrets(baseUrl);
+  if (secrets.length === 0) {
+    return {
+      url: baseUrl,
+      ok: false,
+      status: null,
+      latencyMs: 0,
+      error: `REVALIDATION_SECRET environment variable is not set and ${baseUrl} has no secret of its own.`,
+      responseBody: null,
+    };
+  }
+
+  await acquireRequestSlot();
+  try {
+    return await postRevalidation(baseUrl, payload, secrets);
+  } finally {
+    releaseRequestSlot();
+  }
+}
+
+async function postRevalidation(
+  baseUrl: string,
+  payload: RevalidationPayload,
+  secrets: string[]
+): Promise<RevalidationAttempt> {
+  const startedAt = Date.now();
+  const timeoutMs = requestTimeoutMs();
+
+  const revalidateUrl = `${baseUrl}/api/revalidate`;
+  console.log(
+    `Attempting to revalidate customer app paths: ${JSON.stringify(payload)} at ${revalidateUrl}`
+  );
+
+  try {
+    const body = JSON.stringify(payload);
+    const response = await fetch(revalidateUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...signRevalidationBody(body, secrets),
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs), // Also covers reading the body
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      return {
+        url: baseUrl,
+        ok: false,
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+        error: `Revalidation failed for ${baseUrl} with status ${response.status}: ${errorBody}`,
+        responseBody: errorBody,
+      };
+    }
+
+    const responseBody = await response.text().catch(() => null);
+    console.log(
+      `Customer app revalidation successful for ${baseUrl}:`,
+      responseBody
+    );
+    return {
+      url: baseUrl,
+      ok: true,
+      status: response.status,
+      latencyMs: Date.now() - startedAt,
+      error: null,
+      responseBody,
+    };
+  } catch (error: any) {
+    return {
+      url: baseUrl,
+      ok: false,
+      status: null,
+      latencyMs: Date.now() - startedAt,
+      error:
+        error?.name === 'TimeoutError'
+          ? `Revalidation request to ${baseUrl} timed out after ${timeoutMs} ms`
+          : error?.message || String(error),
+      responseBody: null,
+    };
+  }
+}
+
+/**
+ * Sends a revalidation request, records the attempt in the revalidation
+ * history (`revalidation_log`) and feeds the outcome into the target's
+ * circuit breaker and the metrics. Successful deliveries start the optional warm-up crawl
+ * (see `scheduleWarmUp`).
+ *
+ * @param delivery - Customer app base URL and the payload rendered for it.
+ * @param triggers - What caused the revalidation, for the history.
+ * @param outbox - The outbox row and attempt number, when delivered through the outbox.
+ * @returns {Promise<RevalidationTargetResult>} Outcome of the request.
+ */
+export async function sendAndRecordRevalidation(
+  delivery: RevalidationDelivery,
+  triggers: RevalidationTrigger[],
+  outbox?: { id: number; attempt: number }
+): Promise<RevalidationTargetResult> {
+  const { responseBody, ...result } = await sendRevalidationRequest(
+    delivery.targetUrl,
+    delivery.payload
+  );
+  await recordRevalidationAttempt({
+    targetUrl: delivery.targetUrl,
+    payload: delivery.payload,
+    triggers,
+    result,
+    responseBody,
+    outboxId: outbox?.id,
+    attemptNumber: outbox?.attempt,
+  });
+  await recordCircuitBreakerResult(delivery.targetUrl, result);
+  recordRevalidationRequestMetrics(delivery.targetUrl, result, outbox?.attempt);
+  if (result.ok) scheduleWarmUp(delivery, outbox?.id);
+  return result;
+}
+
+/**
+ * Sends a revalidation that could not be written to the outbox, unless the
+ * target's circuit breaker is open. Nothing retries it, so a held-back
+ * delivery is reported as failed.
+ *
+ * @param delivery - Customer app base URL and the payload rendered for it.
+ * @param triggers - What caused the revalidation, for the history.
+ * @returns {Promise<RevalidationTargetResult>} Outcome of the request.
+ */
+export async function sendRevalidationWithoutOutbox(
+  delivery: RevalidationDelivery,
+  triggers: RevalidationTrigger[]
+): Promise<RevalidationTargetResult> {
+  const circuit = await checkCircuitBreaker(delivery.targetUrl);
+  if (!circuit.allowed) {
+    recordCircuitOpenMetric(delivery.targetUrl);
+    return {
+      url: delivery.targetUrl,
+      ok: false,
+      status: null,
+      latencyMs: 0,
+      error: `${CIRCUIT_OPEN_ERROR_PREFIX} for ${delivery.targetUrl} until ${circuit.openUntil}`,
+      circuitOpen: true,
+    };
+  }
+  return sendAndRecordRevalidation(delivery, triggers);
+}
+
+/**
+ * Writes one outbox row per target so the revalidation survives a failed
+ * delivery, a crashed request or a storefront that is temporarily down.
+ *
+ * @param deliveries - Customer app base URLs and the payload rendered for each of them.
+ * @param triggers - What caused the revalidation, for the history.
+ * @returns {Promise<RevalidationOutboxEntry[]>} The persisted outbox rows, in the same order as `deliveries`.
+ */
+export async function enqueueRevalidation(
+  deliveries: RevalidationDelivery[],
+  triggers: RevalidationTrigger[] = []
+): Promise<RevalidationOutboxEntry[]> {
+  const supabase = getSupabaseAdmin();
+  const limit = maxAttempts();
+
+  const { data, error } = await supabase
+    .from('revalidation_outbox')
+    .insert(
+      deliveries.map(({ targetUrl, payload }) => ({
+        target_url: targetUrl,
+        payload: payload as Record<string, any>,
+        triggers: triggers as Record<string, any>[],
+        max_attempts: limit,
+      }))
+    )
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to write revalidation outbox: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+function entryTriggers(entry: RevalidationOutboxEntry): RevalidationTrigger[] {
+  return Array.isArray(entry.triggers)
+    ? (entry.triggers as unknown as RevalidationTrigger[])
+    : [];
+}
+
+function mergePayloads(
+  current: RevalidationPayload,
+  incoming: RevalidationPayload
+): RevalidationPayload {
+  const merged: RevalidationPayload = {};
+  const paths = new Set([
+    ...(current.path ? [current.path] : []),
+    ...(current.paths || []),
+    ...(incoming.path ? [incoming.path] : []),
+    ...(incoming.paths || []),
+  ]);
+  const tags = new Set([...(current.tags || []), ...(incoming.tags || [])]);
+  if (paths.size > 0) merged.paths = Array.from(paths);
+  if (tags.size > 0) merged.tags = Array.from(tags);
+  return merged;
+}
+
+/**
+ * Adds a payload to the open batch of a target, or opens a new batch that
+ * becomes due once the window has passed. Duplicate paths and tags are
+ * collapsed, so each storefront gets one request per window no matter how
+ * many saves happened in it.
+ *
+ * @param delivery - Customer app base URL and the payload rendered for it.
+ * @param windowMs - How long a new batch stays open for further changes.
+ * @param triggers - What caused the revalidation, appended to the batch's triggers.
+ * @returns {Promise<{entry: RevalidationOutboxEntry, opened: boolean}>}
+ *   The batch row, and whether this call opened it (and is therefore expected to flush it).
+ */
+async function addToBatch(
+  delivery: RevalidationDelivery,
+  windowMs: number,
+  triggers: RevalidationTrigger[]
+): Promise<{ entry: RevalidationOutboxEntry; opened: boolean }> {
+  const supabase = getSupabaseAdmin();
+
+  for (let attempt = 0; attempt < MAX_BATCH_MERGE_ATTEMPTS; attempt++) {
+    const now = new Date().toISOString();
+    const { data: openBatch, error: openBatchError } = await supabase
+      .from('revalidation_outbox')
+      .select('*')
+      .eq('target_url', delivery.targetUrl)
+      .eq('status', 'pending')
+      .eq('attempts', 0)
+      .gt('coalesce_until', now)
+      .order('coalesce_until', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (openBatchError) {
+      console.error(
+        `Error looking up open revalidation batch for ${delivery.targetUrl}:`,
+        openBatchError
+      );
+    }
+    if (!openBatch) break;
+
+    // Always later than the version read, so a merge made in the same
+    // millisecond still changes it
+    const updatedAt = new Date(
+      Math.max(Date.now(), new Date(openBatch.updated_at).getTime() + 1)
+    ).toISOString();
+
+    // Only matches while the batch is still open and unchanged since it was
+    // read: a save that merged in between would otherwise lose its paths and
+    // tags to this write. Once a worker claims the batch (clearing
+    // `coalesce_until`) the lookup finds none and a new batch is opened.
+    const { data: merged, error: mergeError } = await supabase
+      .from('revalidation_outbox')
+      .update({
+        payload: mergePayloads(
+          openBatch.payload as RevalidationPayload,
+          delivery.payload
+        ) as Record<string, any>,
+        triggers: [...entryTriggers(openBatch), ...triggers].slice(
+          -MAX_TRIGGERS_PER_ENTRY
+        ) as Record<string, any>[],
+        updated_at: updatedAt,
+      })
+      .eq('id', openBatch.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', openBatch.next_attempt_at)
+      .eq('updated_at', openBatch.updated_at)
+      .gt('coalesce_until', now)
+      .select('*')
+      .maybeSingle();
+
+    if (mergeError) {
+      console.error(
+        `Error merging into revalidation batch ${openBatch.id}:`,
+        mergeError
+      );
+      break;
+    }
+    if (merged) return { entry: merged, opened: false };
+  }
+
+  const dueAt = new Date(Date.now() + windowMs).toISOString();
+  const { data, error } = await supabase
+    .from('revalidation_outbox')
+    .insert({
+      target_url: delivery.targetUrl,
+      payload: delivery.payload as Record<string, any>,
+      triggers: triggers as Record<string, any>[],
+      max_attempts: maxAttempts(),
+      next_attempt_at: dueAt,
+      coalesce_until: dueAt,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(
+      `Failed to write revalidation outbox: ${error?.message || 'no row returned'}`
+    );
+  }
+  return { entry: data, opened: true };
+}
+
+/**
+ * Queues revalidations into per-target batches instead of sending them
+ * right away. The rows are delivered by `flushRevalidationBatch` (or, as a
+ * fallback, by the outbox worker) once the window has passed.
+ *
+ * @param deliveries - Customer app base URLs and the payload rendered for each of them.
+ * @param windowMs - How long a new batch stays open for further changes.
+ * @param triggers - What caused the revalidation, for the history.
+ * @returns {Promise<{entry: RevalidationOutboxEntry, opened: boolean}[]>} The batch row per target, in the same order as `deliveries`.
+ */
+export async function queueRevalidationBatch(
+  deliveries: RevalidationDelivery[],
+  windowMs: number,
+  triggers: RevalidationTrigger[] = []
+): Promise<{ entry: RevalidationOutboxEntry; opened: boolean }[]> {
+  return Promise.all(
+    deliveries.map((delivery) => addToBatch(delivery, windowMs, triggers))
+  );
+}
+
+/**
+ * Waits until a batch is due, then delivers it. Meant to run after the
+ * response has been sent (see `after` in `revalidateCustomerApp`).
+ *
+ * @param entry - The batch row returned by `queueRevalidationBatch`.
+ * @returns {Promise<RevalidationTargetResult | null>} The delivery outcome, or `null` if a worker delivered it first.
+ */
+export async function flushRevalidationBatch(
+  entry: RevalidationOutboxEntry
+): Promise<RevalidationTargetResult | null> {
+  const waitMs = new Date(entry.next_attempt_at).getTime() - Date.now();
+  if (waitMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+  const { result } = await deliverOutboxEntry(entry);
+  return result;
+}
+
+/**
+ * Claims an outbox row for delivery by pushing its `next_attempt_at` forward.
+ * The update only matches if nobody else claimed the row in the meantime, so
+ * overlapping workers never deliver the same row twice at once.
+ */
+async function claimEntry(
+  entry: RevalidationOutboxEntry
+): Promise<RevalidationOutboxEntry | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('revalidation_outbox')
+    .update({
+      next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_MS).toISOString(),
+      coalesce_until: null, // Closes the batch; later changes open a new one
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', entry.id)
+    .eq('status', 'pending')
+    .eq('next_attempt_at', entry.next_attempt_at)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error claiming revalidation outbox row ${entry.id}:`, error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Puts a claimed row back in the queue until the target's circuit breaker
+ * allows requests again. Not an attempt, so it doesn't count towards
+ * `max_attempts`.
+ */
+async function postponeUntilCircuitCloses(
+  entry: RevalidationOutboxEntry,
+  openUntil: string | null
+): Promise<{
+  entry: RevalidationOutboxEntry;
+  result: RevalidationTargetResult;
+}> {
+  const supabase = getSupabaseAdmin();
+  const retryAt =
+    openUntil || new Date(Date.now() + backoffBaseMs()).toISOString();
+  const error = `${CIRCUIT_OPEN_ERROR_PREFIX} for ${entry.target_url}; retrying after ${retryAt}`;
+  console.log(`Revalidation outbox row ${entry.id} postponed: ${error}`);
+  recordCircuitOpenMetric(entry.target_url);
+
+  const update = {
+    next_attempt_at: retryAt,
+    last_error: error,
+    updated_at: new Date().toISOString(),
+  };
+  const { data, error: updateError } = await supabase
+    .from('revalidation_outbox')
+    .update(update)
+    .eq('id', entry.id)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    // The lease expires and the row is picked up again, which is fine
+    console.error(
+      `Error postponing revalidation outbox row ${entry.id}:`,
+      updateError
+    );
+  }
+  return {
+    entry: data || { ...entry, ...update },
+    result: {
+      url: entry.target_url,
+      ok: false,
+      status: null,
+      latencyMs: 0,
+      error,
+      retryScheduled: true,
+      circuitOpen: true,
+    },
+  };
+}
+
+/**
+ * Attempts delivery of a single outbox row and records the outcome:
+ * `delivered` on success, a rescheduled retry on failure, or `dead_letter`
+ * once `max_attempts` is exhausted. While the target's circuit breaker is
+ * open nothing is sent and the row waits for the breaker instead.
+ *
+ * @param entry - The outbox row to deliver.
+ * @returns {Promise<{entry: RevalidationOutboxEntry, result: RevalidationTargetResult | null}>}
+ *   The row as stored after the attempt, and the request outcome (`null` if another worker had already claimed the row).
+ */
+export async function deliverOutboxEntry(
+  entry: RevalidationOutboxEntry
+): Promise<{
+  entry: RevalidationOutboxEntry;
+  result: RevalidationTargetResult | null;
+}> {
+  const supabase = getSupabaseAdmin();
+  const claimed = await claimEntry(entry);
+  if (!claimed) {
+    // Another worker is already on it (or it was delivered meanwhile)
+    return { entry, result: null };
+  }
+
+  const circuit = await checkCircuitBreaker(claimed.target_url);
+  if (!circuit.allowed) {
+    return postponeUntilCircuitCloses(claimed, circuit.openUntil);
+  }
+
+  const attempts = claimed.attempts + 1;
+  const result = await sendAndRecordRevalidation(
+    {
+      targetUrl: claimed.target_url,
+      payload: claimed.payload as RevalidationPayload,
+    },
+    entryTriggers(claimed),
+    { id: claimed.id, attempt: attempts }
+  );
+  let update: Database['public']['Tables']['revalidation_outbox']['Update'];
+
+  if (result.ok) {
+    update = {
+      status: 'delivered',
+      attempts,
+      last_error: null,
+      delivered_at: new Date().toISOString(),
+    };
+  } else {
+    console.error(
+      `Error triggering revalidation for ${claimed.target_url} (attempt ${attempts}/${claimed.max_attempts}):`,
+      result.error
+    );
+    if (attempts >= claimed.max_attempts) {
+      console.error(
+        `Revalidation outbox row ${claimed.id} moved to dead letter after ${attempts} attempts.`
+      );
+      update = { status: 'dead_letter', attempts, last_error: result.error };
+    } else {
+      update = {
+        attempts,
+        last_error: result.error,
+        next_attempt_at: new Date(
+          Date.now() + getBackoffDelayMs(attempts)
+        ).toISOString(),
+      };
+    }
+  }
+
+  const outcome = { ...result, retryScheduled: update.status === undefined };
+
+  const { data, error } = await supabase
+    .from('revalidation_outbox')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', claimed.id)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    // The lease will expire and the row will be retried, which is safe
+    // because revalidation is idempotent.
+    console.error(
+      `Error recording revalidation outcome for outbox row ${claimed.id}:`,
+      error
+    );
+    return {
+      entry: { ...claimed, ...update } as RevalidationOutboxEntry,
+      result: outcome,
+    };
+  }
+  return { entry: data, result: outcome };
+}
+
+/**
+ * Delivers every due `pending` row in the outbox. Meant to be called
+ * periodically by the outbox worker route. The summary only counts the rows
+ * this run claimed; `retrying` are the ones whose attempt failed, and
+ * `postponed` the ones an open circuit breaker kept from being sent.
+ *
+ * @param batchSize - Maximum number of rows to process in one run.
+ * @returns {Promise<{processed: number, delivered: number, retrying: number, postponed: number, deadLettered: number}>} Run summary.
+ */
+export async function processRevalidationOutbox(batchSize = 50): Promise<{
+  processed: number;
+  delivered: number;
+  retrying: number;
+  postponed: number;
+  deadLettered: number;
+}> {
+  const supabase = getSupabaseAdmin();
+  const { data: dueEntries, error } = await supabase
+    .from('revalidation_outbox')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(batchSize);
+
+  if (error) {
+    throw new Error(`Failed to read revalidation outbox: ${error.message}`);
+  }
+
+  // Rows another worker claimed first are theirs to report
+  const results = (
+    await Promise.all(
+      (dueEntries || []).map((entry) => deliverOutboxEntry(entry))
+    )
+  ).filter(({ result }) => result !== null);
+
+  const count = (status: RevalidationOutboxEntry['status']) =>
+    results.filter(
+      ({ entry, result }) => entry.status === status && !result?.circuitOpen
+    ).length;
+
+  return {
+    processed: results.length,
+    delivered: count('delivered'),
+    retrying: count('pending'),
+    postponed: results.filter(({ result }) => result?.circuitOpen).length,
+    deadLettered: count('dead_letter'),
+  };
+}
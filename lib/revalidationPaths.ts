@@ -0,0 +1,714 @@
+import slugify from 'slugify';
+import { getSupabaseAdmin } from './supabase';
+import {
+  limitRouteLocales,
+  storefrontRoutes,
+  type StorefrontRoute,
+} from './storefrontRoutes';
+
+// Entity dependency graph for storefront revalidation.
+// Given what changed (entity type, before/after snapshots and the changed
+// fields), this module works out every storefront page that shows that
+// entity, so API routes no longer build their own path lists by hand.
+// Pages are returned as storefront routes (see ./storefrontRoutes), not as
+// URLs, because every storefront renders them with its own templates. Cache
+// tags are returned alongside for storefronts that use `revalidateTag`.
+
+export type RevalidationEntityType =
+  | 'product'
+  | 'category'
+  | 'subcategory'
+  | 'brand'
+  | 'testimonial';
+
+export interface ProductSnapshot {
+  products_id: number;
+  slug: string;
+  status?: string | null;
+  category_id?: number | null;
+  subcategory_id?: number | null;
+  brand_id?: number | null;
+  featured_in_collection_slug?: string | null;
+  tags?: string[];
+  price?: number | null;
+  compare_at_price?: number | null;
+  published_locales?: string[] | null; // null: published in every locale
+}
+
+export interface CategorySnapshot {
+  categories_id: number;
+  slug: string | null;
+  parent_category_id?: number | null;
+}
+
+export interface SubcategorySnapshot {
+  id: number;
+  slug: string | null;
+  category_id: number;
+}
+
+export interface BrandSnapshot {
+  brands_id: number;
+  slug: string | null;
+}
+
+export interface TestimonialSnapshot {
+  id: number;
+  product_id?: number | null;
+}
+
+// `before` is null for creates, `after` is null for deletes.
+// `changedFields` is optional; when given it lets us skip pages that cannot
+// be affected (e.g. only the cost price changed).
+export type EntityChange =
+  | {
+      entity: 'product';
+      before: ProductSnapshot | null;
+      after: ProductSnapshot | null;
+      changedFields?: string[];
+    }
+  | {
+      entity: 'category';
+      before: CategorySnapshot | null;
+      after: CategorySnapshot | null;
+      changedFields?: string[];
+    }
+  | {
+      entity: 'subcategory';
+      before: SubcategorySnapshot | null;
+      after: SubcategorySnapshot | null;
+      changedFields?: string[];
+    }
+  | {
+      entity: 'brand';
+      before: BrandSnapshot | null;
+      after: BrandSnapshot | null;
+      changedFields?: string[];
+    }
+  | {
+      entity: 'testimonial';
+      before: TestimonialSnapshot | null;
+      after: TestimonialSnapshot | null;
+      changedFields?: string[];
+    };
+
+// What the pipeline produces for one change: storefront pages (rendered per
+// storefront into paths) and cache tags for storefronts using `revalidateTag`.
+export interface EntityRevalidation {
+  routes: StorefrontRoute[];
+  tags: string[];
+}
+
+// Cache tag names. Storefronts tag their data fetches with these, e.g.
+// `fetch(url, { next: { tags: ['product:123'] } })`.
+export const cacheTags = {
+  product: (id: number) => `product:${id}`,
+  productList: () => 'products',
+  category: (id: number) => `category:${id}`,
+  categoryList: () => 'categories',
+  subcategory: (id: number) => `subcategory:${id}`,
+  brand: (id: number) => `brand:${id}`,
+  brandList: () => 'brands',
+  tag: (slug: string) => `tag:${slug}`,
+  collection: (slug: string) => `collection:${slug}`,
+  testimonialList: () => 'testimonials',
+  redirects: () => 'redirects', // The old-slug redirects feed (/api/redirects)
+};
+
+// Fields that never show up on the storefront. A change limited to these
+// does not need any revalidation.
+const INTERNAL_FIELDS: Record<RevalidationEntityType, string[]> = {
+  product: [
+    'cost_price',
+    'initial_stock',
+    'reserved_quantity',
+    'low_stock_threshold',
+    'max_stock',
+    'updated_at',
+  ],
+  category: ['updated_at'],
+  subcategory: ['updated_at'],
+  brand: ['updated_at'],
+  testimonial: ['updated_at'],
+};
+
+// Fields whose change alters how the entity is displayed on *other* pages
+// (e.g. a category rename shows up on every product page in it).
+const DISPLAY_FIELDS = ['name', 'slug', 'status'];
+
+function touchesOnlyInternalFields(change: EntityChange): boolean {
+  if (!change.changedFields || change.changedFields.length === 0) {
+    return false;
+  }
+  const internal = INTERNAL_FIELDS[change.entity];
+  return change.changedFields.every((field) => internal.includes(field));
+}
+
+function touchesDisplayFields(change: EntityChange): boolean {
+  // Creates, deletes and unknown changes are treated as display changes
+  if (!change.before || !change.after || !change.changedFields) return true;
+  return change.changedFields.some((field) => DISPLAY_FIELDS.includes(field));
+}
+
+function uniqueIds(ids: (number | null | undefined)[]): number[] {
+  return Array.from(new Set(ids.filter((id): id is number => !!id)));
+}
+
+function tagSlug(tag: string): string {
+  return slugify(tag, { lower: true, strict: true });
+}
+
+async function fetchCategorySlugs(ids: number[]): Promise<Map<number, string>> {
+  const slugs = new Map<number, string>();
+  if (ids.length === 0) return slugs;
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('categories')
+    .select('categories_id, slug')
+    .in('categories_id', ids);
+
+  if (error) {
+    console.error('Error fetching category slugs for revalidation:', error);
+    return slugs;
+  }
+  data?.forEach((row: { categories_id: number; slug: string | null }) => {
+    if (row.slug) slugs.set(row.categories_id, row.slug);
+  });
+  return slugs;
+}
+
+async function fetchSubcategories(
+  filter: { ids: number[] } | { categoryIds: number[] }
+): Promise<SubcategorySnapshot[]> {
+  const values = 'ids' in filter ? filter.ids : filter.categoryIds;
+  if (values.length === 0) return [];
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('subcategories')
+    .select('id, slug, category_id')
+    .in('ids' in filter ? 'id' : 'category_id', values);
+
+  if (error) {
+    console.error('Error fetching subcategories for revalidation:', error);
+    return [];
+  }
+  return data || [];
+}
+
+async function fetchBrandSlugs(ids: number[]): Promise<Map<number, string>> {
+  const slugs = new Map<number, string>();
+  if (ids.length === 0) return slugs;
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('brands')
+    .select('brands_id, slug')
+    .in('brands_id', ids);
+
+  if (error) {
+    console.error('Error fetching brand slugs for revalidation:', error);
+    return slugs;
+  }
+  data?.forEach((row: { brands_id: number; slug: string | null }) => {
+    if (row.slug) slugs.set(row.brands_id, row.slug);
+  });
+  return slugs;
+}
+
+async function fetchProductSlugs(
+  column: 'products_id' | 'category_id' | 'subcategory_id' | 'brand_id',
+  ids: number[]
+): Promise<string[]> {
+  if (ids.length === 0) return [];
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('products')
+    .select('slug')
+    .in(column, ids);
+
+  if (error) {
+    console.error(
+      `Error fetching products by ${column} for revalidation:`,
+      error
+    );
+    return [];
+  }
+  return (data || []).map((row: { slug: string }) => row.slug).filter(Boolean);
+}
+
+function slugChanged(change: EntityChange): boolean {
+  if (change.entity === 'testimonial' || !change.before || !change.after) {
+    return false;
+  }
+  return !!change.before.slug && change.before.slug !== change.after.slug;
+}
+
+// Slugs the entity had before earlier renames (from the `slug_history`
+// table). Storefronts redirect them to the current URL, so a rename changes
+// what those pages answer too.
+async function fetchPreviousSlugs(
+  entity: Exclude<RevalidationEntityType, 'testimonial'>,
+  id: number
+): Promise<string[]> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('slug_history')
+    .select('old_slug')
+    .eq('entity', entity)
+    .eq('entity_id', id);
+
+  if (error) {
+    console.error('Error fetching slug history for revalidation:', error);
+    return [];
+  }
+  return Array.from(new Set((data || []).map((row) => row.old_slug)));
+}
+
+async function subcategoryRoutes(
+  subcategories: SubcategorySnapshot[]
+): Promise<StorefrontRoute[]> {
+  const categorySlugs = await fetchCategorySlugs(
+    uniqueIds(subcategories.map((sub) => sub.category_id))
+  );
+  return subcategories.flatMap((sub) => {
+    const categorySlug = categorySlugs.get(sub.category_id);
+    return categorySlug && sub.slug
+      ? [storefrontRoutes.subcategory(categorySlug, sub.slug)]
+      : [];
+  });
+}
+
+// The product only appears in its published locales, so its pages (and the
+// lists showing it) need revalidating there only: in the locales it was
+// published in before the change and those it is published in after.
+function productChangeLocales(
+  snapshots: ProductSnapshot[]
+): string[] | undefined {
+  if (
+    snapshots.length === 0 ||
+    snapshots.some((snapshot) => !snapshot.published_locales)
+  ) {
+    return undefined;
+  }
+  return Array.from(
+    new Set(snapshots.flatMap((snapshot) => snapshot.published_locales!))
+  );
+}
+
+async function productChangeRoutes(
+  change: Extract<EntityChange, { entity: 'product' }>
+): Promise<StorefrontRoute[]> {
+  const snapshots = [change.before, change.after].filter(
+    (snapshot): snapshot is ProductSnapshot => !!snapshot
+  );
+  const routes = [storefrontRoutes.home(), storefrontRoutes.productList()];
+
+  snapshots.forEach((snapshot) => {
+    routes.push(storefrontRoutes.product(snapshot.slug));
+    snapshot.tags?.forEach((tag) => {
+      const slug = tagSlug(tag);
+      if (slug) routes.push(storefrontRoutes.tag(slug));
+    });
+    if (snapshot.featured_in_collection_slug) {
+      routes.push(
+        storefrontRoutes.collection(snapshot.featured_in_collection_slug)
+      );
+    }
+  });
+
+  if (slugChanged(change)) {
+    const previousSlugs = await fetchPreviousSlugs(
+      'product',
+      change.after!.products_id
+    );
+    previousSlugs.forEach((slug) =>
+      routes.push(storefrontRoutes.product(slug))
+    );
+  }
+
+  const [categorySlugs, brandSlugs, subcategories] = await Promise.all([
+    fetchCategorySlugs(uniqueIds(snapshots.map((s) => s.category_id))),
+    fetchBrandSlugs(uniqueIds(snapshots.map((s) => s.brand_id))),
+    fetchSubcategories({
+      ids: uniqueIds(snapshots.map((s) => s.subcategory_id)),
+    }),
+  ]);
+
+  categorySlugs.forEach((slug) => routes.push(storefrontRoutes.category(slug)));
+  brandSlugs.forEach((slug) => routes.push(storefrontRoutes.brand(slug)));
+  routes.push(...(await subcategoryRoutes(subcategories)));
+
+  return limitRouteLocales(routes, productChangeLocales(snapshots));
+}
+
+async function categoryChangeRoutes(
+  change: Extract<EntityChange, { entity: 'category' }>
+): Promise<StorefrontRoute[]> {
+  const snapshots = [change.before, change.after].filter(
+    (snapshot): snapshot is CategorySnapshot => !!snapshot
+  );
+  const routes = [storefrontRoutes.home(), storefrontRoutes.categoryList()];
+
+  const slugs = snapshots
+    .map((snapshot) => snapshot.slug)
+    .filter((slug): slug is string => !!slug);
+  if (slugChanged(change)) {
+    slugs.push(
+      ...(await fetchPreviousSlugs('category', change.after!.categories_id))
+    );
+  }
+  slugs.forEach((slug) => routes.push(storefrontRoutes.category(slug)));
+
+  // Parent category pages list their children
+  const parentSlugs = await fetchCategorySlugs(
+    uniqueIds(snapshots.map((s) => s.parent_category_id))
+  );
+  parentSlugs.forEach((slug) => routes.push(storefrontRoutes.category(slug)));
+
+  if (touchesDisplayFields(change)) {
+    const categoryIds = uniqueIds(snapshots.map((s) => s.categories_id));
+    const [subcategories, productSlugs] = await Promise.all([
+      fetchSubcategories({ categoryIds }),
+      fetchProductSlugs('category_id', categoryIds),
+    ]);
+
+    // Subcategory URLs are nested under the category slug, so a rename
+    // affects them under the old slugs as well as the new one.
+    new Set(slugs).forEach((slug) => {
+      subcategories.forEach((sub) => {
+        if (sub.slug) {
+          routes.push(storefrontRoutes.subcategory(slug, sub.slug));
+        }
+      });
+    });
+    productSlugs.forEach((slug) => routes.push(storefrontRoutes.product(slug)));
+  }
+
+  return routes;
+}
+
+async function subcategoryChangeRoutes(
+  change: Extract<EntityChange, { entity: 'subcategory' }>
+): Promise<StorefrontRoute[]> {
+  const snapshots = [change.before, change.after].filter(
+    (snapshot): snapshot is SubcategorySnapshot => !!snapshot
+  );
+  const routes = [storefrontRoutes.home()];
+
+  const categorySlugs = await fetchCategorySlugs(
+    uniqueIds(snapshots.map((s) => s.category_id))
+  );
+  categorySlugs.forEach((slug) => routes.push(storefrontRoutes.category(slug)));
+  routes.push(...(await subcategoryRoutes(snapshots)));
+
+  if (slugChanged(change)) {
+    const after = change.after!;
+    const previousSlugs = await fetchPreviousSlugs('subcategory', after.id);
+    routes.push(
+      ...(await subcategoryRoutes(
+        previousSlugs.map((slug) => ({ ...after, slug }))
+      ))
+    );
+  }
+
+  if (touchesDisplayFields(change)) {
+    const productSlugs = await fetchProductSlugs(
+      'subcategory_id',
+      uniqueIds(snapshots.map((s) => s.id))
+    );
+    productSlugs.forEach((slug) => routes.push(storefrontRoutes.product(slug)));
+  }
+
+  return routes;
+}
+
+async function brandChangeRoutes(
+  change: Extract<EntityChange, { entity: 'brand' }>
+): Promise<StorefrontRoute[]> {
+  const snapshots = [change.before, change.after].filter(
+    (snapshot): snapshot is BrandSnapshot => !!snapshot
+  );
+  const routes = [storefrontRoutes.home(), storefrontRoutes.brandList()];
+
+  snapshots.forEach((snapshot) => {
+    if (snapshot.slug) routes.push(storefrontRoutes.brand(snapshot.slug));
+  });
+  if (slugChanged(change)) {
+    const previousSlugs = await fetchPreviousSlugs(
+      'brand',
+      change.after!.brands_id
+    );
+    previousSlugs.forEach((slug) => routes.push(storefrontRoutes.brand(slug)));
+  }
+
+  if (touchesDisplayFields(change)) {
+    const productSlugs = await fetchProductSlugs(
+      'brand_id',
+      uniqueIds(snapshots.map((s) => s.brands_id))
+    );
+    productSlugs.forEach((slug) => routes.push(storefrontRoutes.product(slug)));
+  }
+
+  return routes;
+}
+
+// Testimonials are shown on the home page and on the product they are for
+async function testimonialChangeRoutes(
+  change: Extract<EntityChange, { entity: 'testimonial' }>
+): Promise<StorefrontRoute[]> {
+  const routes = [storefrontRoutes.home()];
+  const productSlugs = await fetchProductSlugs(
+    'products_id',
+    uniqueIds([change.before?.product_id, change.after?.product_id])
+  );
+  productSlugs.forEach((slug) => routes.push(storefrontRoutes.product(slug)));
+  return routes;
+}
+
+// Tags don't need the fan-out the paths do: a storefront page that shows a
+// category name on a product page tags that fetch with the category tag.
+function changeTags(change: EntityChange): string[] {
+  const tags: string[] = [];
+
+  switch (change.entity) {
+    case 'product':
+      tags.push(cacheTags.productList());
+      [change.before, change.after].forEach((snapshot) => {
+        if (!snapshot) return;
+        // A dry-run create has no ID yet (0), so there is no product tag
+        if (snapshot.products_id) {
+          tags.push(cacheTags.product(snapshot.products_id));
+        }
+        if (snapshot.category_id) {
+          tags.push(cacheTags.category(snapshot.category_id));
+        }
+        if (snapshot.subcategory_id) {
+          tags.push(cacheTags.subcategory(snapshot.subcategory_id));
+        }
+        if (snapshot.brand_id) tags.push(cacheTags.brand(snapshot.brand_id));
+        snapshot.tags?.forEach((tag) => {
+          const slug = tagSlug(tag);
+          if (slug) tags.push(cacheTags.tag(slug));
+        });
+        if (snapshot.featured_in_collection_slug) {
+          tags.push(cacheTags.collection(snapshot.featured_in_collection_slug));
+        }
+      });
+      break;
+    case 'category':
+      tags.push(cacheTags.categoryList());
+      [change.before, change.after].forEach((snapshot) => {
+        if (!snapshot) return;
+        if (snapshot.categories_id) {
+          tags.push(cacheTags.category(snapshot.categories_id));
+        }
+        if (snapshot.parent_category_id) {
+          tags.push(cacheTags.category(snapshot.parent_category_id));
+        }
+      });
+      break;
+    case 'subcategory':
+      [change.before, change.after].forEach((snapshot) => {
+        if (!snapshot) return;
+        tags.push(cacheTags.subcategory(snapshot.id));
+        tags.push(cacheTags.category(snapshot.category_id));
+      });
+      break;
+    case 'brand':
+      tags.push(cacheTags.brandList());
+      [change.before, change.after].forEach((snapshot) => {
+        if (snapshot?.brands_id) tags.push(cacheTags.brand(snapshot.brands_id));
+      });
+      break;
+    case 'testimonial':
+      tags.push(cacheTags.testimonialList());
+      [change.before, change.after].forEach((snapshot) => {
+        if (snapshot?.product_id) {
+          tags.push(cacheTags.product(snapshot.product_id));
+        }
+      });
+      break;
+  }
+
+  // A rename adds a redirect to the feed storefronts load from /api/redirects
+  if (slugChanged(change)) tags.push(cacheTags.redirects());
+
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Computes every storefront page and cache tag affected by a change to a
+ * catalog entity. Routes are rendered into concrete paths per storefront by
+ * `revalidateCustomerApp`, since each storefront has its own URL scheme.
+ *
+ * @param change - The entity type, its snapshot before and after the change, and optionally the changed fields.
+ * @returns {Promise<EntityRevalidation>} De-duplicated routes and tags to revalidate (both empty if nothing visible changed).
+ */
+export async function computeEntityRevalidation(
+  change: EntityChange
+): Promise<EntityRevalidation> {
+  if (touchesOnlyInternalFields(change)) {
+    console.log(
+      `Only internal ${change.entity} fields changed (${change.changedFields?.join(', ')}), skipping revalidation.`
+    );
+    return { routes: [], tags: [] };
+  }
+
+  let routes: StorefrontRoute[];
+  switch (change.entity) {
+    case 'product':
+      routes = await productChangeRoutes(change);
+      break;
+    case 'category':
+      routes = await categoryChangeRoutes(change);
+      break;
+    case 'subcategory':
+      routes = await subcategoryChangeRoutes(change);
+      break;
+    case 'brand':
+      routes = await brandChangeRoutes(change);
+      break;
+    case 'testimonial':
+      routes = await testimonialChangeRoutes(change);
+      break;
+  }
+
+  const uniqueRoutes = new Map(
+    routes.map((route) => [
+      JSON.stringify([route.name, route.params, route.locales]),
+      route,
+    ])
+  );
+  return {
+    routes: Array.from(uniqueRoutes.values()),
+    tags: changeTags(change),
+  };
+}
+
+/**
+ * Tells whether a change is urgent enough to skip revalidation batching,
+ * i.e. a price shown on the storefront changed.
+ *
+ * @param change - The entity change, as passed to `computeEntityRevalidation`.
+ * @returns {boolean} `true` if the change should be sent to storefronts immediately.
+ */
+export function isUrgentChange(change: EntityChange): boolean {
+  if (change.entity !== 'product' || !change.before || !change.after) {
+    return false;
+  }
+  const { before, after } = change;
+  return (
+    before.price !== after.price ||
+    before.compare_at_price !== after.compare_at_price
+  );
+}
+
+// A product snapshot as `getProductSnapshot` selects it, tags embedded
+type ProductSnapshotRow = Omit<ProductSnapshot, 'tags'> & {
+  product_tags: { tag_text: string }[] | null;
+};
+
+/**
+ * Loads the fields of a product that determine which storefront pages show it.
+ *
+ * @param productId - The ID of the product.
+ * @returns {Promise<ProductSnapshot | null>} The snapshot, or `null` if the product does not exist.
+ * @throws {Error} If the product cannot be loaded.
+ */
+export async function getProductSnapshot(
+  productId: number
+): Promise<ProductSnapshot | null> {
+  const supabase = getSupabaseAdmin(); // Use admin client for server-side access
+  const { data, error } = await supabase
+    .from('products')
+    .select(
+      `
+      products_id,
+      slug,
+      status,
+      category_id,
+      subcategory_id,
+      brand_id,
+      featured_in_collection_slug,
+      price,
+      compare_at_price,
+      published_locales,
+      product_tags ( tag_text )
+    `
+    )
+    .eq('products_id', productId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load product snapshot: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const { product_tags, ...snapshot }: ProductSnapshotRow = data;
+  return {
+    ...snapshot,
+    tags: (product_tags || []).map((tag) => tag.tag_text),
+  };
+}
+
+/**
+ * Loads the fields of a category that determine which storefront pages show it.
+ *
+ * @param categoryId - The ID of the category.
+ * @returns {Promise<CategorySnapshot | null>} The snapshot, or `null` if the category does not exist.
+ */
+export async function getCategorySnapshot(
+  categoryId: number
+): Promise<CategorySnapshot | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('categories')
+    .select('categories_id, slug, parent_category_id')
+    .eq('categories_id', categoryId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching category snapshot for revalidation:', error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Loads the fields of a subcategory that determine which storefront pages show it.
+ *
+ * @param subcategoryId - The ID of the subcategory.
+ * @returns {Promise<SubcategorySnapshot | null>} The snapshot, or `null` if the subcategory does not exist.
+ */
+export async function getSubcategorySnapshot(
+  subcategoryId: number
+): Promise<SubcategorySnapshot | null> {
+  const [snapshot] = await fetchSubcategories({ ids: [subcategoryId] });
+  return snapshot ?? null;
+}
+
+/**
+ * Loads the fields of a brand that determine which storefront pages show it.
+ *
+ * @param brandId - The ID of the brand.
+ * @returns {Promise<BrandSnapshot | null>} The snapshot, or `null` if the brand does not exist.
+ */
+export async function getBrandSnapshot(
+  brandId: number
+): Promise<BrandSnapshot | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('brands')
+    .select('brands_id, slug')
+    .eq('brands_id', brandId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching brand snapshot for revalidation:', error);
+    return null;
+  }
+  return data;
+}
@@ -0,0 +1,59 @@
+import { randomUUID } from 'node:crypto';
+import {
+  REVALIDATION_HEADERS,
+  computeRevalidationSignature,
+} from './storefront/verifyRevalidationRequest';
+
+/**
+ * Returns the secrets revalidation requests are currently signed with:
+ * `REVALIDATION_SECRET` and, while a rotation is in progress,
+ * `REVALIDATION_SECRET_PREVIOUS`.
+ *
+ * @returns {string[]} The active secrets, current one first (empty if none is configured).
+ */
+export function getActiveRevalidationSecrets(): string[] {
+  return [
+    process.env.REVALIDATION_SECRET,
+    process.env.REVALIDATION_SECRET_PREVIOUS,
+  ].filter((secret): secret is string => !!secret);
+}
+
+/**
+ * Builds the signature headers for a revalidation request body. A fresh
+ * timestamp and nonce are used every time, so retries are signed anew.
+ *
+ * The body is signed once per active secret, which lets storefronts switch
+ * to a new secret before or after the admin does. Storefronts verify the
+ * headers with `lib/storefront/verifyRevalidationRequest.ts`.
+ *
+ * @param body - The exact JSON string that will be sent.
+ * @param secrets - The active secrets (see `getActiveRevalidationSecrets`).
+ * @returns {Record<string, string>} Headers to add to the request.
+ */
+export function signRevalidationBody(
+  body: string,
+  secrets: string[]
+): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = randomUUID();
+  const signature = secrets
+    .map(
+      (secret) =>
+        `v1=${computeRevalidationSignature(secret, timestamp, nonce, body)}`
+    )
+    .join(',');
+
+  const headers: Record<string, string> = {
+    [REVALIDATION_HEADERS.timestamp]: timestamp,
+    [REVALIDATION_HEADERS.nonce]: nonce,
+    [REVALIDATION_HEADERS.signature]: signature,
+  };
+
+  // Temporary escape hatch for storefronts that still check the Bearer
+  // token. Remove once every storefront verifies signatures.
+  if (process.env.REVALIDATION_SEND_LEGACY_BEARER === 'true') {
+    headers.Authorization = `Bearer ${secrets[0]}`;
+  }
+
+  return headers;
+}
@@ -0,0 +1,205 @@
+import { after } from 'next/server';
+import { getSupabaseAdmin } from './supabase';
+import { readPositiveInt } from './env';
+import type { RevalidationDelivery } from './revalidateCustomerApp';
+import type { Database } from '@/types/supabase';
+
+export type RevalidationWarmup =
+  Database['public']['Tables']['revalidation_warmups']['Row'];
+
+// Outcome of fetching one revalidated page
+export interface WarmUpResult {
+  path: string;
+  status: number | null; // HTTP status, null when no response was received
+  ttfbMs: number | null; // Time until the response headers arrived
+  durationMs: number;
+  error: string | null;
+  flagged: boolean; // 404, 5xx or no response: the page looks broken
+}
+
+// Warm-up tuning. Each can be overridden through the environment.
+const DEFAULT_CONCURRENCY = 4; // Pages fetched at once per storefront
+const DEFAULT_TIMEOUT_MS = 10_000; // A page regenerates on this request, so allow more than for revalidation
+const DEFAULT_MAX_PATHS = 100; // A category rename can revalidate hundreds of product pages
+
+const WARMUP_USER_AGENT = 'catalog-admin-warmup/1.0';
+
+const concurrency = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_WARMUP_CONCURRENCY,
+    DEFAULT_CONCURRENCY
+  );
+
+const timeoutMs = () =>
+  readPositiveInt(
+    process.env.REVALIDATION_WARMUP_TIMEOUT_MS,
+    DEFAULT_TIMEOUT_MS
+  );
+
+const maxPaths = () =>
+  readPositiveInt(process.env.REVALIDATION_WARMUP_MAX_PATHS, DEFAULT_MAX_PATHS);
+
+/**
+ * Tells whether pages are fetched after a successful revalidation
+ * (`REVALIDATION_WARMUP_ENABLED=true`). Off by default.
+ *
+ * @returns {boolean} `true` if the warm-up crawl is enabled.
+ */
+export function isWarmUpEnabled(): boolean {
+  return process.env.REVALIDATION_WARMUP_ENABLED === 'true';
+}
+
+function isBroken(status: number | null): boolean {
+  return status === null || status === 404 || status >= 500;
+}
+
+async function fetchPage(baseUrl: string, path: string): Promise<WarmUpResult> {
+  const startedAt = Date.now();
+  const limitMs = timeoutMs();
+  let ttfbMs: number | null = null;
+
+  try {
+    const response = await fetch(new URL(path, baseUrl), {
+      headers: { 'User-Agent': WARMUP_USER_AGENT },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(limitMs), // Also covers reading the body
+    });
+    ttfbMs = Date.now() - startedAt;
+    // Read the whole page so a streamed render runs to completion
+    await response.arrayBuffer();
+
+    return {
+      path,
+      status: response.status,
+      ttfbMs,
+      durationMs: Date.now() - startedAt,
+      error: null,
+      flagged: isBroken(response.status),
+    };
+  } catch (error: any) {
+    return {
+      path,
+      status: null,
+      ttfbMs,
+      durationMs: Date.now() - startedAt,
+      error:
+        error?.name === 'TimeoutError'
+          ? `Timed out after ${limitMs} ms`
+          : error?.message || String(error),
+      flagged: true,
+    };
+  }
+}
+
+// Runs `task` over `items` with at most `limit` in flight, keeping order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index]);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Fetches revalidated pages from a storefront so the first shopper does
+ * not pay for the regeneration, and records status codes and
+ * time-to-first-byte in `revalidation_warmups`. Pages that come back as a
+ * 404, a 5xx or not at all are flagged. At most
+ * `REVALIDATION_WARMUP_MAX_PATHS` pages are fetched,
+ * `REVALIDATION_WARMUP_CONCURRENCY` at a time. Never throws.
+ *
+ * @param baseUrl - Base URL of the customer app.
+ * @param paths - The revalidated paths.
+ * @param outboxId - The outbox row that was delivered, if any.
+ * @returns {Promise<WarmUpResult[]>} One result per fetched page.
+ */
+export async function warmUpStorefront(
+  baseUrl: string,
+  paths: string[],
+  outboxId?: number
+): Promise<WarmUpResult[]> {
+  const uniquePaths = Array.from(new Set(paths));
+  const selected = uniquePaths.slice(0, maxPaths());
+  if (selected.length < uniquePaths.length) {
+    console.log(
+      `Warming up ${selected.length} of ${uniquePaths.length} revalidated paths on ${baseUrl}.`
+    );
+  }
+
+  const results = await mapWithConcurrency(selected, concurrency(), (path) =>
+    fetchPage(baseUrl, path)
+  );
+
+  const flagged = results.filter((result) => result.flagged);
+  if (flagged.length > 0) {
+    console.warn(
+      `Warm-up found ${flagged.length} broken page(s) on ${baseUrl} after revalidation:`,
+      flagged.map(
+        (result) => `${result.path} (${result.status ?? result.error})`
+      )
+    );
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.from('revalidation_warmups').insert(
+      results.map((result) => ({
+        outbox_id: outboxId ?? null,
+        target_url: baseUrl,
+        path: result.path,
+        status_code: result.status,
+        ttfb_ms: result.ttfbMs,
+        duration_ms: result.durationMs,
+        error: result.error,
+        flagged: result.flagged,
+      }))
+    );
+    if (error) {
+      console.error('Error writing revalidation warm-up results:', error);
+    }
+  } catch (error) {
+    console.error('Error writing revalidation warm-up results:', error);
+  }
+
+  return results;
+}
+
+/**
+ * Starts the warm-up crawl for a delivered revalidation once the response
+ * has been sent, if the warm-up is enabled and the payload had paths
+ * (tag-only payloads don't say which pages changed).
+ *
+ * @param delivery - Customer app base URL and the payload it accepted.
+ * @param outboxId - The outbox row that was delivered, if any.
+ */
+export function scheduleWarmUp(
+  delivery: RevalidationDelivery,
+  outboxId?: number
+): void {
+  const paths = [
+    ...(delivery.payload.path ? [delivery.payload.path] : []),
+    ...(delivery.payload.paths || []),
+  ];
+  if (!isWarmUpEnabled() || paths.length === 0) return;
+
+  const run = () => warmUpStorefront(delivery.targetUrl, paths, outboxId);
+  try {
+    after(run);
+  } catch {
+    // Outside a request (e.g. a script) there is no `after`; nothing waits
+    // on the warm-up, so just let it run.
+    void run();
+  }
+}
@@ -0,0 +1,309 @@
+import { getSupabaseAdmin } from './supabase';
+import {
+  DEFAULT_ROUTE_TEMPLATES,
+  localizeStorefrontPath,
+  renderStorefrontPath,
+  renderStorefrontPaths,
+  storefrontRoutes,
+  type StorefrontLocale,
+  type StorefrontRoute,
+  type StorefrontRouteTemplates,
+} from './storefrontRoutes';
+import type { Database } from '@/types/supabase';
+
+// Redirects from the URLs of renamed products, categories, subcategories and
+// brands to their current URL, built from the `slug_history` table (filled
+// by a database trigger on every rename). Storefronts load them from
+// `/api/redirects` and answer old URLs with a 301.
+
+export type SlugHistoryEntry =
+  Database['public']['Tables']['slug_history']['Row'];
+
+// Same shape as an entry of `redirects()` in a Next.js config
+export interface SlugRedirect {
+  source: string;
+  destination: string;
+  permanent: true;
+}
+
+// Every entity that has a live page an old URL could point to or collide with
+interface CurrentSlugs {
+  products: Map<number, string>;
+  categories: Map<number, string>;
+  subcategories: Map<number, { slug: string; category_id: number }>;
+  brands: Map<number, string>;
+}
+
+function historyOf(
+  history: SlugHistoryEntry[],
+  entity: SlugHistoryEntry['entity']
+): { ids: number[]; oldSlugs: string[] } {
+  const entries = history.filter((entry) => entry.entity === entity);
+  return {
+    ids: Array.from(new Set(entries.map((entry) => entry.entity_id))),
+    oldSlugs: Array.from(new Set(entries.map((entry) => entry.old_slug))),
+  };
+}
+
+// PostgREST `or` filter matching any of the given values of each column
+function anyOf(filters: [string, (string | number)[]][]): string {
+  return filters
+    .filter(([, values]) => values.length > 0)
+    .map(
+      ([column, values]) =>
+        `${column}.in.(${values.map((value) => JSON.stringify(String(value))).join(',')})`
+    )
+    .join(',');
+}
+
+function slugMap<Row, Value>(
+  rows: Row[],
+  entry: (row: Row) => [number, Value | null]
+): Map<number, Value> {
+  return new Map(
+    rows.map(entry).filter((pair): pair is [number, Value] => !!pair[1])
+  );
+}
+
+// Loads the renamed entities with their current slug, plus any entity that
+// now uses one of the old slugs. Deleted entities are simply missing.
+async function fetchCurrentSlugs(
+  history: SlugHistoryEntry[]
+): Promise<CurrentSlugs> {
+  const supabase = getSupabaseAdmin();
+  const products = historyOf(history, 'product');
+  const categories = historyOf(history, 'category');
+  const subcategories = historyOf(history, 'subcategory');
+  const brands = historyOf(history, 'brand');
+
+  const none = { data: [], error: null };
+  const [productRows, brandRows, subcategoryRows] = await Promise.all([
+    products.ids.length > 0
+      ? supabase
+          .from('products')
+          .select('products_id, slug')
+          .or(
+            anyOf([
+              ['products_id', products.ids],
+              ['slug', products.oldSlugs],
+            ])
+          )
+      : none,
+    brands.ids.length > 0
+      ? supabase
+          .from('brands')
+          .select('brands_id, slug')
+          .or(
+            anyOf([
+              ['brands_id', brands.ids],
+              ['slug', brands.oldSlugs],
+            ])
+          )
+      : none,
+    // Subcategory URLs are nested under the category slug, so a renamed
+    // category redirects the URLs of all its subcategories too
+    subcategories.ids.length > 0 || categories.ids.length > 0
+      ? supabase
+          .from('subcategories')
+          .select('id, slug, category_id')
+          .or(
+            anyOf([
+              ['id', subcategories.ids],
+              ['slug', subcategories.oldSlugs],
+              ['category_id', categories.ids],
+            ])
+          )
+      : none,
+  ]);
+  const error = productRows.error || brandRows.error || subcategoryRows.error;
+  if (error) {
+    throw new Error(`Failed to read current slugs: ${error.message}`);
+  }
+
+  const subcategoryList = (subcategoryRows.data || []) as {
+    id: number;
+    slug: string | null;
+    category_id: number;
+  }[];
+  const categoryIds = Array.from(
+    new Set([
+      ...categories.ids,
+      ...subcategoryList.map((sub) => sub.category_id),
+    ])
+  );
+  const categoryRows =
+    categoryIds.length > 0
+      ? await supabase
+          .from('categories')
+          .select('categories_id, slug')
+          .or(
+            anyOf([
+              ['categories_id', categoryIds],
+              ['slug', categories.oldSlugs],
+            ])
+          )
+      : none;
+  if (categoryRows.error) {
+    throw new Error(
+      `Failed to read current slugs: ${categoryRows.error.message}`
+    );
+  }
+
+  return {
+    products: slugMap(
+      (productRows.data || []) as {
+        products_id: number;
+        slug: string | null;
+      }[],
+      (row) => [row.products_id, row.slug]
+    ),
+    categories: slugMap(
+      (categoryRows.data || []) as {
+        categories_id: number;
+        slug: string | null;
+      }[],
+      (row) => [row.categories_id, row.slug]
+    ),
+    subcategories: slugMap(subcategoryList, (row) => [
+      row.id,
+      row.slug ? { slug: row.slug, category_id: row.category_id } : null,
+    ]),
+    brands: slugMap(
+      (brandRows.data || []) as { brands_id: number; slug: string | null }[],
+      (row) => [row.brands_id, row.slug]
+    ),
+  };
+}
+
+// Current routes of all loaded entities, i.e. URLs that must not redirect
+function liveRoutes(current: CurrentSlugs): StorefrontRoute[] {
+  const routes: StorefrontRoute[] = [];
+  current.products.forEach((slug) =>
+    routes.push(storefrontRoutes.product(slug))
+  );
+  current.brands.forEach((slug) => routes.push(storefrontRoutes.brand(slug)));
+  current.categories.forEach((slug) =>
+    routes.push(storefrontRoutes.category(slug))
+  );
+  current.subcategories.forEach((sub) => {
+    const categorySlug = current.categories.get(sub.category_id);
+    if (categorySlug) {
+      routes.push(storefrontRoutes.subcategory(categorySlug, sub.slug));
+    }
+  });
+  return routes;
+}
+
+// The old and current route of one history entry; a renamed category yields
+// one pair for its own page and one per subcategory nested under it
+function routePairs(
+  entry: SlugHistoryEntry,
+  current: CurrentSlugs
+): [StorefrontRoute, StorefrontRoute][] {
+  switch (entry.entity) {
+    case 'product': {
+      const slug = current.products.get(entry.entity_id);
+      return slug
+        ? [
+            [
+              storefrontRoutes.product(entry.old_slug),
+              storefrontRoutes.product(slug),
+            ],
+          ]
+        : [];
+    }
+    case 'brand': {
+      const slug = current.brands.get(entry.entity_id);
+      return slug
+        ? [
+            [
+              storefrontRoutes.brand(entry.old_slug),
+              storefrontRoutes.brand(slug),
+            ],
+          ]
+        : [];
+    }
+    case 'category': {
+      const slug = current.categories.get(entry.entity_id);
+      if (!slug) return [];
+      const pairs: [StorefrontRoute, StorefrontRoute][] = [
+        [
+          storefrontRoutes.category(entry.old_slug),
+          storefrontRoutes.category(slug),
+        ],
+      ];
+      current.subcategories.forEach((sub) => {
+        if (sub.category_id !== entry.entity_id) return;
+        pairs.push([
+          storefrontRoutes.subcategory(entry.old_slug, sub.slug),
+          storefrontRoutes.subcategory(slug, sub.slug),
+        ]);
+      });
+      return pairs;
+    }
+    case 'subcategory': {
+      const sub = current.subcategories.get(entry.entity_id);
+      const categorySlug = sub && current.categories.get(sub.category_id);
+      return sub && categorySlug
+        ? [
+            [
+              storefrontRoutes.subcategory(categorySlug, entry.old_slug),
+              storefrontRoutes.subcategory(categorySlug, sub.slug),
+            ],
+          ]
+        : [];
+    }
+  }
+}
+
+/**
+ * Builds the redirects for every renamed entity, rendered with one
+ * storefront's route templates and locale prefixes (one redirect per
+ * locale). Redirects always point at the current URL, so renaming twice
+ * does not create a chain. An old URL that is the current URL of another
+ * entity (the slug was reused) is not redirected.
+ *
+ * @param templates - The storefront's route templates (defaults to the shared defaults).
+ * @param locales - The storefront's locales (none means unprefixed paths only).
+ * @returns {Promise<SlugRedirect[]>} One redirect per old path, oldest rename first.
+ */
+export async function getSlugRedirects(
+  templates: StorefrontRouteTemplates = DEFAULT_ROUTE_TEMPLATES,
+  locales: StorefrontLocale[] = []
+): Promise<SlugRedirect[]> {
+  const supabase = getSupabaseAdmin();
+  const { data: history, error } = await supabase
+    .from('slug_history')
+    .select('*')
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to read slug history: ${error.message}`);
+  }
+  if (!history || history.length === 0) return [];
+
+  const current = await fetchCurrentSlugs(history);
+  const pairs = history.flatMap((entry) => routePairs(entry, current));
+  const livePaths = new Set(
+    renderStorefrontPaths(liveRoutes(current), templates, locales)
+  );
+
+  const redirects = new Map<string, SlugRedirect>();
+  pairs.forEach(([from, to]) => {
+    const source = renderStorefrontPath(from, templates);
+    const destination = renderStorefrontPath(to, templates);
+    if (!source || !destination || source === destination) return;
+
+    // Neither route is limited to locales, so the variants line up
+    const destinations = localizeStorefrontPath(destination, to, locales);
+    localizeStorefrontPath(source, from, locales).forEach((localized, i) => {
+      if (livePaths.has(localized)) return;
+      redirects.set(localized, {
+        source: localized,
+        destination: destinations[i],
+        permanent: true,
+      });
+    });
+  });
+  return Array.from(redirects.values());
+}
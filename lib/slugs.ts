@@ -0,0 +1,178 @@
+import slugify from 'slugify';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from './supabase';
+
+// Slugs for products, categories, subcategories and brands, picked on the
+// server so every route builds them the same way. A taken slug gets the
+// lowest free numeric suffix (`classic-tee-1`); the unique indexes from
+// supabase/migrations/20261019001400_unique_slugs.sql make a concurrent save
+// that picked the same suffix fail, and `writeWithUniqueSlug` then retries
+// with the next one.
+
+export type SlugEntity = 'product' | 'category' | 'subcategory' | 'brand';
+
+// Words that would shadow storefront or admin pages (e.g. `/products/new`)
+export const RESERVED_SLUGS: ReadonlySet<string> = new Set([
+  'account',
+  'admin',
+  'all',
+  'api',
+  'cart',
+  'checkout',
+  'create',
+  'delete',
+  'edit',
+  'login',
+  'logout',
+  'new',
+  'page',
+  'register',
+  'search',
+  'sitemap',
+]);
+
+const SLUG_TABLES: Record<SlugEntity, { table: string; idColumn: string }> = {
+  product: { table: 'products', idColumn: 'products_id' },
+  category: { table: 'categories', idColumn: 'categories_id' },
+  subcategory: { table: 'subcategories', idColumn: 'id' },
+  brand: { table: 'brands', idColumn: 'brands_id' },
+};
+
+// Writes tried before giving up when concurrent saves keep taking the slug
+const MAX_SLUG_ATTEMPTS = 5;
+
+export interface SlugScope {
+  entity: SlugEntity;
+  base: string; // Normalized slug to start from (see `requestedSlug`)
+  excludeId?: number; // The entity being updated, whose own slug is free
+  currentSlug?: string | null; // Kept as is, even if reserved or suffixed
+  categoryId?: number | null; // Subcategories: slugs are unique per category
+}
+
+export interface SlugWriteResult<T> {
+  data: T | null;
+  error: PostgrestError | null;
+}
+
+/**
+ * Turns a name or an editor-supplied slug into a URL slug.
+ *
+ * @param value - The name or slug.
+ * @returns {string} Lowercase letters, digits and dashes only (may be empty).
+ */
+export function toSlug(value: string): string {
+  return slugify(value, { lower: true, strict: true });
+}
+
+/**
+ * Picks what the slug of a create/update is built from: the custom slug the
+ * editor typed if one was sent, else the name. A custom slug must not be a
+ * reserved word, unless it is the entity's current slug; a name that is one
+ * just gets a suffix.
+ *
+ * @param input - The `slug` and `name` fields of the request, and the slug saved now on updates.
+ * @returns {{ base?: string; error?: string }} No base when neither was sent, an error for an unusable slug.
+ */
+export function requestedSlug(input: {
+  slug?: string | null;
+  name?: string | null;
+  currentSlug?: string | null;
+}): { base?: string; error?: string } {
+  if (input.slug?.trim()) {
+    const base = toSlug(input.slug);
+    if (!base) return { error: 'Slug must contain letters or numbers' };
+    if (RESERVED_SLUGS.has(base) && base !== input.currentSlug) {
+      return { error: `"${base}" is reserved and cannot be used as a slug` };
+    }
+    return { base };
+  }
+  if (input.name?.trim()) {
+    const base = toSlug(input.name);
+    if (!base) {
+      return { error: 'Name must contain letters or numbers to build a slug' };
+    }
+    return { base };
+  }
+  return {};
+}
+
+/**
+ * Finds the slug to write: the base itself if it is free and not reserved,
+ * else the base with the lowest free numeric suffix.
+ *
+ * @param scope - The entity, base slug and the entity being updated, if any.
+ * @returns {Promise<string>} The slug to write.
+ */
+export async function findAvailableSlug(scope: SlugScope): Promise<string> {
+  if (scope.base === scope.currentSlug) return scope.base;
+
+  const { table, idColumn } = SLUG_TABLES[scope.entity];
+  const supabase = getSupabaseAdmin();
+  // Slugs only hold [a-z0-9-], so the base needs no escaping in `like`
+  let query = supabase
+    .from(table)
+    .select('slug')
+    .or(`slug.eq.${scope.base},slug.like.${scope.base}-%`);
+  if (scope.excludeId !== undefined) {
+    query = query.neq(idColumn, scope.excludeId);
+  }
+  if (scope.entity === 'subcategory' && scope.categoryId) {
+    query = query.eq('category_id', scope.categoryId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to check ${table} slugs: ${error.message}`);
+  }
+
+  const taken = new Set(
+    ((data || []) as { slug: string | null }[]).map((row) => row.slug)
+  );
+  if (!taken.has(scope.base) && !RESERVED_SLUGS.has(scope.base)) {
+    return scope.base;
+  }
+  let suffix = 1;
+  while (taken.has(`${scope.base}-${suffix}`)) suffix++;
+  return `${scope.base}-${suffix}`;
+}
+
+/**
+ * Tells whether a failed write hit a unique index on a slug.
+ *
+ * @param error - The error returned by Supabase.
+ * @returns {boolean} `true` for a duplicate slug.
+ */
+export function isSlugConflict(error: PostgrestError | null): boolean {
+  return (
+    error?.code === '23505' &&
+    `${error.message} ${error.details}`.includes('slug')
+  );
+}
+
+/**
+ * Runs a write with the given slug and, if a concurrent save took the slug
+ * in the meantime, retries with the next free one.
+ *
+ * @param scope - The slug scope, or `null` when the write does not set a slug.
+ * @param slug - The slug picked by `findAvailableSlug` (ignored without a scope).
+ * @param write - Performs the write with the slug to use.
+ * @returns The result of the last write and the slug it used.
+ */
+export async function writeWithUniqueSlug<T>(
+  scope: SlugScope | null,
+  slug: string | undefined,
+  write: (slug: string | undefined) => PromiseLike<SlugWriteResult<T>>
+): Promise<SlugWriteResult<T> & { slug: string | undefined }> {
+  if (!scope) {
+    return { ...(await write(undefined)), slug: undefined };
+  }
+
+  let attemptSlug = slug ?? (await findAvailableSlug(scope));
+  for (let attempt = 1; ; attempt++) {
+    const result = await write(attemptSlug);
+    if (!isSlugConflict(result.error) || attempt >= MAX_SLUG_ATTEMPTS) {
+      return { ...result, slug: attemptSlug };
+    }
+    attemptSlug = await findAvailableSlug(scope);
+  }
+}
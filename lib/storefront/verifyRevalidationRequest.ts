@@ -0,0 +1,152 @@
+// Verification helper for storefront `/api/revalidate` routes.
+//
+// This file is self-contained on purpose (it only depends on `node:crypto`)
+// so storefronts can copy it as-is. The admin signs every revalidation
+// request with it too, so keep it free of imports from this repo.
+//
+// Usage in a storefront route handler:
+//
+//   const verification = await verifyRevalidationRequest(request, [
+//     process.env.REVALIDATION_SECRET!,
+//     process.env.REVALIDATION_SECRET_PREVIOUS, // optional, during rotation
+//   ]);
+//   if (!verification.ok) {
+//     return NextResponse.json({ message: verification.reason }, { status: 401 });
+//   }
+//   const { paths, tags, healthCheck } = JSON.parse(verification.body);
+//   if (healthCheck) {
+//     // The admin's periodic health check: signature verified, nothing to do
+//     return NextResponse.json({ ok: true });
+//   }
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const REVALIDATION_HEADERS = {
+  timestamp: 'x-revalidation-timestamp', // Unix time in seconds
+  nonce: 'x-revalidation-nonce',
+  signature: 'x-revalidation-signature', // `v1=<hex>`, comma-separated when several keys are active
+} as const;
+
+const SIGNATURE_VERSION = 'v1';
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Computes the signature of a request: HMAC-SHA256 over
+ * `<timestamp>.<nonce>.<body>`, hex encoded.
+ */
+export function computeRevalidationSignature(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: string
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Remembers nonces until their timestamp falls out of the tolerance window.
+ * The default store is in memory, which only protects a single instance;
+ * storefronts running several instances should pass a shared store instead.
+ */
+export interface NonceStore {
+  /** Returns `true` if the nonce was unused (and records it), `false` if it was seen before. */
+  claim(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export function createMemoryNonceStore(): NonceStore {
+  const seen = new Map<string, number>();
+  return {
+    claim(nonce, expiresAt) {
+      const now = Date.now();
+      seen.forEach((expiry, key) => {
+        if (expiry <= now) seen.delete(key);
+      });
+      if (seen.has(nonce)) return false;
+      seen.set(nonce, expiresAt);
+      return true;
+    },
+  };
+}
+
+const defaultNonceStore = createMemoryNonceStore();
+
+export type RevalidationVerification =
+  | { ok: true; body: string }
+  | { ok: false; reason: string };
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Checks the signature, timestamp and nonce of an incoming revalidation
+ * request. Any of the given secrets may have signed it, so the admin and
+ * the storefronts can rotate keys independently.
+ *
+ * @param request - The incoming request. Its body is consumed.
+ * @param secrets - The active secrets; empty entries are ignored.
+ * @param options - `toleranceSeconds` (default 300) and a shared `nonceStore`.
+ * @returns {Promise<RevalidationVerification>} The raw body when the request is valid, otherwise the reason it was rejected.
+ */
+export async function verifyRevalidationRequest(
+  request: Request,
+  secrets: (string | undefined | null)[],
+  options: { toleranceSeconds?: number; nonceStore?: NonceStore } = {}
+): Promise<RevalidationVerification> {
+  const toleranceSeconds =
+    options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const nonceStore = options.nonceStore ?? defaultNonceStore;
+  const activeSecrets = secrets.filter((secret): secret is string => !!secret);
+
+  const timestamp = request.headers.get(REVALIDATION_HEADERS.timestamp);
+  const nonce = request.headers.get(REVALIDATION_HEADERS.nonce);
+  const signatureHeader = request.headers.get(REVALIDATION_HEADERS.signature);
+
+  if (activeSecrets.length === 0) {
+    return { ok: false, reason: 'No revalidation secret configured' };
+  }
+  if (!timestamp || !nonce || !signatureHeader) {
+    return { ok: false, reason: 'Missing signature headers' };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (
+    !Number.isInteger(timestampSeconds) ||
+    Math.abs(Date.now() / 1000 - timestampSeconds) > toleranceSeconds
+  ) {
+    return { ok: false, reason: 'Stale or invalid timestamp' };
+  }
+
+  const body = await request.text();
+  const signatures = signatureHeader
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((part) => part.slice(SIGNATURE_VERSION.length + 1));
+
+  const valid = activeSecrets.some((secret) => {
+    const expected = computeRevalidationSignature(
+      secret,
+      timestamp,
+      nonce,
+      body
+    );
+    return signatures.some((signature) => safeEqualHex(signature, expected));
+  });
+  if (!valid) {
+    return { ok: false, reason: 'Invalid signature' };
+  }
+
+  // Only record the nonce once the signature checks out, so unsigned junk
+  // cannot fill the store.
+  const expiresAt = (timestampSeconds + toleranceSeconds) * 1000;
+  if (!(await nonceStore.claim(nonce, expiresAt))) {
+    return { ok: false, reason: 'Replayed request' };
+  }
+
+  return { ok: true, body };
+}
@@ -0,0 +1,277 @@
+import { z } from 'zod';
+import { getSupabaseAdmin } from './supabase';
+import { getActiveRevalidationSecrets } from './revalidationSigning';
+import {
+  DEFAULT_ROUTE_TEMPLATES,
+  STOREFRONT_ROUTE_NAMES,
+  type StorefrontLocale,
+  type StorefrontRouteName,
+  type StorefrontRouteTemplates,
+} from './storefrontRoutes';
+import type { Database } from '@/types/supabase';
+
+// The storefronts (customer apps) that get revalidation requests and their
+// settings. They are managed in the `storefronts` table; while that table is
+// empty the CUSTOMER_APP_* env vars are used instead. Storefronts are
+// identified by their base URL; anything not configured for a storefront
+// falls back to the defaults below.
+
+// How a storefront wants to be told about changes: page paths
+// (`revalidatePath`), cache tags (`revalidateTag`), or both.
+export const REVALIDATION_MODES = ['paths', 'tags', 'both'] as const;
+export type RevalidationMode = (typeof REVALIDATION_MODES)[number];
+
+const DEFAULT_REVALIDATION_MODE: RevalidationMode = 'paths';
+
+export const STOREFRONT_ENVIRONMENTS = ['staging', 'production'] as const;
+export type StorefrontEnvironment = (typeof STOREFRONT_ENVIRONMENTS)[number];
+
+export type StorefrontRow = Database['public']['Tables']['storefronts']['Row'];
+
+export interface StorefrontConfig {
+  baseUrl: string;
+  name: string;
+  environment: StorefrontEnvironment;
+  routeTemplates: StorefrontRouteTemplates;
+  revalidationMode: RevalidationMode;
+  locales: StorefrontLocale[]; // Empty: the storefront has unprefixed paths only
+  secret: string | null; // The storefront's own signing secret; null means REVALIDATION_SECRET
+  source: 'database' | 'env';
+}
+
+// Overrides of the default route templates for one storefront, e.g.
+// {"product": "/p/:slug", "category": "/c/:slug"}; null drops a route.
+export const routeTemplateOverridesSchema = z
+  .object(
+    Object.fromEntries(
+      STOREFRONT_ROUTE_NAMES.map((name) => [
+        name,
+        z.string().startsWith('/').nullable().optional(),
+      ])
+    ) as Record<StorefrontRouteName, z.ZodOptional<z.ZodNullable<z.ZodString>>>
+  )
+  .strict();
+
+// CUSTOMER_APP_ROUTE_TEMPLATES, e.g.
+// {"https://shop-b.example.com": {"product": "/p/:slug", "category": "/c/:slug"}}
+const routeTemplateOverridesMapSchema = z.record(
+  z.string(),
+  routeTemplateOverridesSchema
+);
+
+// Locales and markets of one storefront, e.g.
+// [{"locale": "en", "prefix": ""}, {"locale": "fr", "prefix": "/fr"}]
+export const storefrontLocalesSchema = z.array(
+  z.object({
+    locale: z.string().regex(/^[A-Za-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/),
+    prefix: z.union([z.literal(''), z.string().regex(/^(\/[A-Za-z0-9_-]+)+$/)]),
+  })
+);
+
+// CUSTOMER_APP_LOCALES, e.g.
+// {"https://shop.example.com": [{"locale": "en", "prefix": ""}, {"locale": "de", "prefix": "/de"}]}
+const storefrontLocalesMapSchema = z.record(
+  z.string(),
+  storefrontLocalesSchema
+);
+
+// CUSTOMER_APP_REVALIDATION_MODES, e.g. {"https://shop-b.example.com": "tags"}
+const revalidationModesSchema = z.record(
+  z.string(),
+  z.enum(REVALIDATION_MODES)
+);
+
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Reads a JSON object keyed by storefront base URL from the environment.
+ * Invalid configuration is logged and ignored so revalidation keeps working
+ * with the defaults.
+ */
+function readStorefrontMap<T>(
+  variable: string,
+  schema: z.ZodType<Record<string, T>, z.ZodTypeDef, unknown>
+): Record<string, T> {
+  const raw = process.env[variable];
+  if (!raw) return {};
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    console.error(`${variable} is not valid JSON, using defaults:`, error);
+    return {};
+  }
+
+  const validation = schema.safeParse(json);
+  if (!validation.success) {
+    console.error(
+      `${variable} is invalid, using defaults:`,
+      validation.error.flatten()
+    );
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(validation.data).map(([url, value]) => [
+      normalizeBaseUrl(url),
+      value,
+    ])
+  );
+}
+
+// Storefronts are read on every revalidation and every delivery, so they are
+// cached briefly. Changes made through the settings API clear the cache of
+// the instance that made them; other instances pick them up within the TTL.
+const STOREFRONT_CACHE_TTL_MS = 30_000;
+let storefrontCache: {
+  loadedAt: number;
+  storefronts: StorefrontConfig[];
+} | null = null;
+
+/**
+ * Forgets the cached storefront list, e.g. after a storefront was changed.
+ */
+export function clearStorefrontCache(): void {
+  storefrontCache = null;
+}
+
+function hostnameOf(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).hostname;
+  } catch {
+    return baseUrl;
+  }
+}
+
+/**
+ * Builds the storefront list from `CUSTOMER_APP_BASE_URLS` (comma-separated
+ * base URLs), `CUSTOMER_APP_ROUTE_TEMPLATES`,
+ * `CUSTOMER_APP_REVALIDATION_MODES` and `CUSTOMER_APP_LOCALES`.
+ */
+function getEnvStorefronts(): StorefrontConfig[] {
+  const templateOverrides = readStorefrontMap(
+    'CUSTOMER_APP_ROUTE_TEMPLATES',
+    routeTemplateOverridesMapSchema
+  );
+  const revalidationModes = readStorefrontMap(
+    'CUSTOMER_APP_REVALIDATION_MODES',
+    revalidationModesSchema
+  );
+  const locales = readStorefrontMap(
+    'CUSTOMER_APP_LOCALES',
+    storefrontLocalesMapSchema
+  );
+
+  return (process.env.CUSTOMER_APP_BASE_URLS || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url)
+    .map((baseUrl) => {
+      const key = normalizeBaseUrl(baseUrl);
+      return {
+        baseUrl,
+        name: hostnameOf(baseUrl),
+        environment: 'production',
+        routeTemplates: {
+          ...DEFAULT_ROUTE_TEMPLATES,
+          ...templateOverrides[key],
+        },
+        revalidationMode: revalidationModes[key] ?? DEFAULT_REVALIDATION_MODE,
+        locales: locales[key] ?? [],
+        secret: null,
+        source: 'env',
+      };
+    });
+}
+
+function toStorefrontConfig(row: StorefrontRow): StorefrontConfig {
+  const templates = routeTemplateOverridesSchema.safeParse(
+    row.route_templates ?? {}
+  );
+  if (!templates.success) {
+    console.error(
+      `Route templates of storefront ${row.base_url} are invalid, using defaults:`,
+      templates.error.flatten()
+    );
+  }
+
+  const locales = storefrontLocalesSchema.safeParse(row.locales ?? []);
+  if (!locales.success) {
+    console.error(
+      `Locales of storefront ${row.base_url} are invalid, sending unprefixed paths:`,
+      locales.error.flatten()
+    );
+  }
+
+  return {
+    baseUrl: normalizeBaseUrl(row.base_url),
+    name: row.name,
+    environment: row.environment,
+    routeTemplates: {
+      ...DEFAULT_ROUTE_TEMPLATES,
+      ...(templates.success ? templates.data : {}),
+    },
+    revalidationMode: row.revalidation_mode,
+    locales: locales.success ? locales.data : [],
+    secret: row.secret || null,
+    source: 'database',
+  };
+}
+
+/**
+ * Lists the storefronts that get revalidation requests: the enabled rows of
+ * the `storefronts` table or, while that table is empty (or unreadable), the
+ * storefronts configured through `CUSTOMER_APP_BASE_URLS`.
+ *
+ * @returns {Promise<StorefrontConfig[]>} The active storefronts (empty if none are configured).
+ */
+export async function getStorefronts(): Promise<StorefrontConfig[]> {
+  if (
+    storefrontCache &&
+    Date.now() - storefrontCache.loadedAt < STOREFRONT_CACHE_TTL_MS
+  ) {
+    return storefrontCache.storefronts;
+  }
+
+  let storefronts: StorefrontConfig[];
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('storefronts')
+    .select('*')
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error(
+      'Error reading storefronts, falling back to CUSTOMER_APP_BASE_URLS:',
+      error
+    );
+    storefronts = getEnvStorefronts();
+  } else if (!data || data.length === 0) {
+    storefronts = getEnvStorefronts();
+  } else {
+    storefronts = data.filter((row) => row.enabled).map(toStorefrontConfig);
+  }
+
+  storefrontCache = { loadedAt: Date.now(), storefronts };
+  return storefronts;
+}
+
+/**
+ * Resolves the secrets to sign a storefront's requests with: its own secret
+ * if it has one, otherwise the active `REVALIDATION_SECRET`(s).
+ *
+ * @param baseUrl - Base URL of the customer app.
+ * @returns {Promise<string[]>} The secrets to sign with (empty if none is configured).
+ */
+export async function getStorefrontSecrets(baseUrl: string): Promise<string[]> {
+  const key = normalizeBaseUrl(baseUrl);
+  const storefront = (await getStorefronts()).find(
+    (candidate) => normalizeBaseUrl(candidate.baseUrl) === key
+  );
+  return storefront?.secret
+    ? [storefront.secret]
+    : getActiveRevalidationSecrets();
+}
@@ -0,0 +1,183 @@
+import { getSupabaseAdmin } from './supabase';
+import { readPositiveInt } from './env';
+import { signRevalidationBody } from './revalidationSigning';
+import { getStorefrontSecrets, getStorefronts } from './storefrontConfig';
+import type { Database } from '@/types/supabase';
+
+export type StorefrontHealth =
+  Database['public']['Tables']['storefront_health']['Row'];
+
+export type StorefrontHealthStatus = StorefrontHealth['status'];
+
+// A configured storefront and its latest check (`null` if never checked)
+export interface StorefrontHealthEntry {
+  targetUrl: string;
+  health: StorefrontHealth | null;
+}
+
+// An authenticated no-op: storefronts verify the signature as for any
+// revalidation, then answer without revalidating anything.
+const HEALTH_CHECK_BODY = JSON.stringify({
+  healthCheck: true,
+  paths: [],
+  tags: [],
+});
+
+const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 5_000;
+
+function healthCheckTimeoutMs(): number {
+  return readPositiveInt(
+    process.env.STOREFRONT_HEALTH_CHECK_TIMEOUT_MS,
+    DEFAULT_HEALTH_CHECK_TIMEOUT_MS
+  );
+}
+
+/**
+ * Pings a storefront's revalidate endpoint with a signed no-op request.
+ * `unauthorized` means the storefront answered but rejected our signature
+ * (401/403); anything else that is not a 2xx is `unhealthy`. Never throws.
+ *
+ * @param baseUrl - Base URL of the customer app (without `/api/revalidate`).
+ * @returns {Promise<StorefrontHealth>} The check's outcome (`last_success_at` is only set when healthy).
+ */
+export async function checkStorefrontHealth(
+  baseUrl: string
+): Promise<StorefrontHealth> {
+  const checkedAt = new Date().toISOString();
+  const startedAt = Date.now();
+  const timeoutMs = healthCheckTimeoutMs();
+
+  const secrets = await getStorefrontSecrets(baseUrl);
+  if (secrets.length === 0) {
+    return {
+      target_url: baseUrl,
+      status: 'unauthorized',
+      status_code: null,
+      latency_ms: 0,
+      error: `REVALIDATION_SECRET environment variable is not set and ${baseUrl} has no secret of its own.`,
+      checked_at: checkedAt,
+      last_success_at: null,
+    };
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/api/revalidate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...signRevalidationBody(HEALTH_CHECK_BODY, secrets),
+      },
+      body: HEALTH_CHECK_BODY,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const responseBody = await response.text().catch(() => '');
+    const latencyMs = Date.now() - startedAt;
+
+    if (response.ok) {
+      return {
+        target_url: baseUrl,
+        status: 'healthy',
+        status_code: response.status,
+        latency_ms: latencyMs,
+        error: null,
+        checked_at: checkedAt,
+        last_success_at: checkedAt,
+      };
+    }
+
+    const unauthorized = response.status === 401 || response.status === 403;
+    return {
+      target_url: baseUrl,
+      status: unauthorized ? 'unauthorized' : 'unhealthy',
+      status_code: response.status,
+      latency_ms: latencyMs,
+      error: `${
+        unauthorized
+          ? 'Storefront rejected the revalidation signature'
+          : 'Storefront returned an error'
+      } (HTTP ${response.status})${responseBody ? `: ${responseBody.slice(0, 500)}` : ''}`,
+      checked_at: checkedAt,
+      last_success_at: null,
+    };
+  } catch (error: any) {
+    return {
+      target_url: baseUrl,
+      status: 'unhealthy',
+      status_code: null,
+      latency_ms: Date.now() - startedAt,
+      error:
+        error?.name === 'TimeoutError'
+          ? `No answer within ${timeoutMs} ms`
+          : error?.message || String(error),
+      checked_at: checkedAt,
+      last_success_at: null,
+    };
+  }
+}
+
+/**
+ * Checks every configured storefront and stores the results. A failed check
+ * keeps the storefront's previous `last_success_at`.
+ *
+ * @returns {Promise<StorefrontHealthEntry[]>} One entry per configured storefront.
+ */
+export async function runStorefrontHealthChecks(): Promise<
+  StorefrontHealthEntry[]
+> {
+  const supabase = getSupabaseAdmin();
+  const storefronts = await getStorefronts();
+  const results = await Promise.all(
+    storefronts.map((storefront) => checkStorefrontHealth(storefront.baseUrl))
+  );
+
+  // One upsert per storefront: leaving `last_success_at` out of a failed
+  // check's row is what keeps the previous value.
+  return Promise.all(
+    results.map(async ({ last_success_at, ...result }) => {
+      const { data, error } = await supabase
+        .from('storefront_health')
+        .upsert(last_success_at ? { ...result, last_success_at } : result)
+        .select('*')
+        .single();
+
+      if (error) {
+        console.error(
+          `Error recording health check for ${result.target_url}:`,
+          error
+        );
+      }
+      return {
+        targetUrl: result.target_url,
+        health: data ?? { ...result, last_success_at },
+      };
+    })
+  );
+}
+
+/**
+ * Returns the latest stored check of every configured storefront, without
+ * contacting them.
+ *
+ * @returns {Promise<StorefrontHealthEntry[]>} One entry per configured storefront.
+ */
+export async function getStorefrontHealth(): Promise<StorefrontHealthEntry[]> {
+  const supabase = getSupabaseAdmin();
+  const baseUrls = (await getStorefronts()).map(
+    (storefront) => storefront.baseUrl
+  );
+  if (baseUrls.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('storefront_health')
+    .select('*')
+    .in('target_url', baseUrls);
+
+  if (error) {
+    throw new Error(`Failed to read storefront health: ${error.message}`);
+  }
+
+  return baseUrls.map((targetUrl) => ({
+    targetUrl,
+    health: data?.find((row) => row.target_url === targetUrl) ?? null,
+  }));
+}
@@ -0,0 +1,177 @@
+// Storefront pages are described by a route name plus params instead of a
+// finished URL, because not every customer app uses the same URL scheme
+// (one uses `/p/[slug]` where another uses `/products/[slug]`). The paths
+// are only rendered once we know which storefront they are sent to.
+
+export const STOREFRONT_ROUTE_NAMES = [
+  'home',
+  'productList',
+  'product',
+  'categoryList',
+  'category',
+  'subcategory',
+  'brandList',
+  'brand',
+  'tag',
+  'collection',
+] as const;
+
+export type StorefrontRouteName = (typeof STOREFRONT_ROUTE_NAMES)[number];
+
+export interface StorefrontRoute {
+  name: StorefrontRouteName;
+  params: Record<string, string>;
+  // Only send the page in these locales (e.g. a product published in some
+  // of them); left out, it is sent in every locale the storefront serves
+  locales?: string[];
+}
+
+// A locale or market a storefront serves and the path prefix of its pages,
+// e.g. {locale: 'fr', prefix: '/fr'} or {locale: 'fr', prefix: '/ch/fr'}.
+// An empty prefix is the locale served without one.
+export interface StorefrontLocale {
+  locale: string;
+  prefix: string;
+}
+
+// `null` means the storefront has no such page, so nothing is sent for it.
+export type StorefrontRouteTemplates = Record<
+  StorefrontRouteName,
+  string | null
+>;
+
+// Templates used for any storefront (or route) that has no override.
+export const DEFAULT_ROUTE_TEMPLATES: StorefrontRouteTemplates = {
+  home: '/',
+  productList: '/products',
+  product: '/products/:slug',
+  categoryList: '/categories',
+  category: '/category/:slug',
+  subcategory: '/category/:categorySlug/:subcategorySlug',
+  brandList: '/brands',
+  brand: '/brand/:slug',
+  tag: '/tags/:slug',
+  collection: '/collections/:slug',
+};
+
+export const storefrontRoutes = {
+  home: (): StorefrontRoute => ({ name: 'home', params: {} }),
+  productList: (): StorefrontRoute => ({ name: 'productList', params: {} }),
+  product: (slug: string): StorefrontRoute => ({
+    name: 'product',
+    params: { slug },
+  }),
+  categoryList: (): StorefrontRoute => ({ name: 'categoryList', params: {} }),
+  category: (slug: string): StorefrontRoute => ({
+    name: 'category',
+    params: { slug },
+  }),
+  subcategory: (
+    categorySlug: string,
+    subcategorySlug: string
+  ): StorefrontRoute => ({
+    name: 'subcategory',
+    params: { categorySlug, subcategorySlug },
+  }),
+  brandList: (): StorefrontRoute => ({ name: 'brandList', params: {} }),
+  brand: (slug: string): StorefrontRoute => ({
+    name: 'brand',
+    params: { slug },
+  }),
+  tag: (slug: string): StorefrontRoute => ({ name: 'tag', params: { slug } }),
+  collection: (slug: string): StorefrontRoute => ({
+    name: 'collection',
+    params: { slug },
+  }),
+};
+
+/**
+ * Renders a single route with the given templates.
+ *
+ * @param route - The route name and its params.
+ * @param templates - The storefront's route templates.
+ * @returns {string | null} The path, or `null` if the storefront has no such page or a param is missing.
+ */
+export function renderStorefrontPath(
+  route: StorefrontRoute,
+  templates: StorefrontRouteTemplates
+): string | null {
+  const template = templates[route.name];
+  if (template === null) return null;
+
+  let missingParam = false;
+  const path = template.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_, param) => {
+    const value = route.params[param];
+    if (!value) {
+      missingParam = true;
+      return '';
+    }
+    return encodeURIComponent(value);
+  });
+
+  if (missingParam) {
+    console.warn(
+      `Route template "${template}" for ${route.name} uses a param that was not provided:`,
+      route.params
+    );
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Limits routes to the locales an entity is published in.
+ *
+ * @param routes - The routes to limit.
+ * @param locales - The locales, or `null`/`undefined` for all of them.
+ * @returns {StorefrontRoute[]} The routes, limited if `locales` is given.
+ */
+export function limitRouteLocales(
+  routes: StorefrontRoute[],
+  locales: string[] | null | undefined
+): StorefrontRoute[] {
+  if (!locales) return routes;
+  return routes.map((route) => ({ ...route, locales }));
+}
+
+/**
+ * Expands a rendered path into its locale variants. Storefronts without
+ * locales get the path as is; so does a route limited to locales when the
+ * storefront has none configured, since there is nothing to match against.
+ *
+ * @param path - The unprefixed path, e.g. `/products/blue-shirt`.
+ * @param route - The route it was rendered from (for its locale limit).
+ * @param locales - The storefront's locales.
+ * @returns {string[]} The prefixed paths (possibly none if the route is limited to locales the storefront doesn't serve).
+ */
+export function localizeStorefrontPath(
+  path: string,
+  route: StorefrontRoute,
+  locales: StorefrontLocale[]
+): string[] {
+  if (locales.length === 0) return [path];
+  return locales
+    .filter(({ locale }) => !route.locales || route.locales.includes(locale))
+    .map(({ prefix }) => (path === '/' ? prefix || '/' : `${prefix}${path}`));
+}
+
+/**
+ * Renders a list of routes for one storefront, dropping pages it does not
+ * have and expanding each into the storefront's locale variants.
+ *
+ * @param routes - The routes to render.
+ * @param templates - The storefront's route templates.
+ * @param locales - The storefront's locales (none means unprefixed paths only).
+ * @returns {string[]} De-duplicated list of paths.
+ */
+export function renderStorefrontPaths(
+  routes: StorefrontRoute[],
+  templates: StorefrontRouteTemplates,
+  locales: StorefrontLocale[] = []
+): string[] {
+  const paths = routes.flatMap((route) => {
+    const path = renderStorefrontPath(route, templates);
+    return path ? localizeStorefrontPath(path, route, locales) : [];
+  });
+  return Array.from(new Set(paths));
+}
@@ -11,6 +11,18 @@ export const supabase = createClient<Database>(
   supabaseAnonKey || ''
 );
 
+// Headers for admin-only API routes, which check the signed-in user's access
+// token (see `getAdminUserFromRequest`). Browser only.
+export async function getAdminAuthHeaders(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+  };
+}
+
 // Only create supabaseAdmin in a server environment
 export const supabaseAdmin =
   typeof window === 'undefined'
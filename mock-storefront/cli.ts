@@ -0,0 +1,45 @@
+import { startMockStorefront } from './server';
+
+// Runs the mock storefront on its own for local development:
+//
+//   REVALIDATION_SECRET=dev-secret pnpm mock-storefront
+//
+// then point the admin at it with CUSTOMER_APP_BASE_URLS=http://127.0.0.1:4010
+// and the same REVALIDATION_SECRET. MOCK_STOREFRONT_PORT changes the port.
+
+async function main() {
+  const secrets = [
+    process.env.REVALIDATION_SECRET,
+    process.env.REVALIDATION_SECRET_PREVIOUS,
+  ];
+  if (!secrets.some((secret) => secret)) {
+    console.error(
+      'Set REVALIDATION_SECRET to the secret the admin signs with.'
+    );
+    process.exit(1);
+  }
+
+  const storefront = await startMockStorefront({
+    port: Number(process.env.MOCK_STOREFRONT_PORT || 4010),
+    secrets,
+  });
+  console.log(`Mock storefront listening on ${storefront.url}`);
+
+  // Log each request as it comes in
+  let logged = 0;
+  setInterval(() => {
+    storefront.requests.slice(logged).forEach((request) => {
+      console.log(
+        request.verified ? 'accepted' : `rejected (${request.reason})`,
+        JSON.stringify(request.payload)
+      );
+    });
+    logged = storefront.requests.length;
+  }, 250);
+
+  const shutdown = () => storefront.close().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
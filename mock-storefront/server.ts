@@ -0,0 +1,210 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import {
+  createMemoryNonceStore,
+  verifyRevalidationRequest,
+} from '../lib/storefront/verifyRevalidationRequest';
+
+// A stand-in customer app for development and the integration tests. It
+// implements `POST /api/revalidate` like a real storefront (signature,
+// timestamp and nonce checks included), records every request it gets and
+// can be told to fail, to answer slowly or not to answer at all.
+//
+// Besides the programmatic API below, it can be scripted over HTTP, which
+// is handy when it runs on its own (`pnpm mock-storefront`):
+//
+//   GET  /__mock/requests  → everything received so far
+//   POST /__mock/behavior  → {"status": 503, "delayMs": 200, "times": 2}
+//                            or {"hang": true}; `times` omitted = until reset
+//   POST /__mock/reset     → forget requests and behaviors
+
+// How the storefront answers a revalidation request
+export interface MockBehavior {
+  status?: number; // Default 200
+  body?: unknown; // JSON response body; defaults to `{ revalidated: true }`
+  delayMs?: number; // Wait before answering
+  hang?: boolean; // Never answer (until the server closes), to test timeouts
+}
+
+export interface MockRevalidationRequest {
+  receivedAt: number;
+  headers: Record<string, string>;
+  verified: boolean;
+  reason: string | null; // Why verification failed
+  payload: {
+    paths?: string[];
+    path?: string;
+    tags?: string[];
+    healthCheck?: boolean;
+  } | null;
+}
+
+export interface MockStorefront {
+  url: string; // Base URL, e.g. http://127.0.0.1:4010
+  requests: MockRevalidationRequest[];
+  // Answer every following request like this (until reset)
+  setBehavior(behavior: MockBehavior): void;
+  // Answer the next request(s) like this, then go back to the default
+  enqueueBehavior(behavior: MockBehavior, times?: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export interface MockStorefrontOptions {
+  port?: number; // 0 (default) picks a free port
+  host?: string;
+  secrets: (string | undefined)[]; // Secrets the storefront accepts
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Starts a mock storefront on localhost.
+ *
+ * @param options - Port, host and the secrets it accepts.
+ * @returns {Promise<MockStorefront>} The running storefront.
+ */
+export async function startMockStorefront(
+  options: MockStorefrontOptions
+): Promise<MockStorefront> {
+  const nonceStore = createMemoryNonceStore();
+  const sockets = new Set<Socket>();
+  const requests: MockRevalidationRequest[] = [];
+  let defaultBehavior: MockBehavior = {};
+  let queued: MockBehavior[] = [];
+
+  const nextBehavior = () => queued.shift() ?? defaultBehavior;
+
+  async function handleRevalidate(req: IncomingMessage, res: ServerResponse) {
+    const body = await readBody(req);
+    const headers = Object.fromEntries(
+      Object.entries(req.headers).map(([name, value]) => [
+        name,
+        Array.isArray(value) ? value.join(', ') : value || '',
+      ])
+    );
+    const verification = await verifyRevalidationRequest(
+      new Request(`http://localhost${req.url}`, {
+        method: 'POST',
+        headers,
+        body,
+      }),
+      options.secrets,
+      { nonceStore }
+    );
+
+    let payload: MockRevalidationRequest['payload'] = null;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      // Recorded as received; a real storefront would fail on it too
+    }
+    requests.push({
+      receivedAt: Date.now(),
+      headers,
+      verified: verification.ok,
+      reason: verification.ok ? null : verification.reason,
+      payload,
+    });
+
+    if (!verification.ok) {
+      return sendJson(res, 401, { message: verification.reason });
+    }
+
+    const behavior = nextBehavior();
+    if (behavior.hang) return; // The socket is destroyed on close
+    if (behavior.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, behavior.delayMs));
+    }
+    sendJson(
+      res,
+      behavior.status ?? 200,
+      behavior.body ?? {
+        revalidated: true,
+        paths: payload?.paths ?? [],
+        tags: payload?.tags ?? [],
+      }
+    );
+  }
+
+  async function handleControl(req: IncomingMessage, res: ServerResponse) {
+    if (req.method === 'GET' && req.url === '/__mock/requests') {
+      return sendJson(res, 200, { requests });
+    }
+    if (req.method === 'POST' && req.url === '/__mock/reset') {
+      storefront.reset();
+      return sendJson(res, 200, { ok: true });
+    }
+    if (req.method === 'POST' && req.url === '/__mock/behavior') {
+      const { times, ...behavior } = JSON.parse((await readBody(req)) || '{}');
+      if (times) storefront.enqueueBehavior(behavior, times);
+      else storefront.setBehavior(behavior);
+      return sendJson(res, 200, { ok: true });
+    }
+    sendJson(res, 404, { message: 'Not found' });
+  }
+
+  const server = createServer((req, res) => {
+    const handler =
+      req.method === 'POST' && req.url?.split('?')[0] === '/api/revalidate'
+        ? handleRevalidate
+        : req.url?.startsWith('/__mock/')
+          ? handleControl
+          : async () => sendJson(res, 404, { message: 'Not found' });
+
+    handler(req, res).catch((error) => {
+      console.error('[mock-storefront] Error handling request:', error);
+      if (!res.headersSent) sendJson(res, 500, { message: String(error) });
+    });
+  });
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve)
+  );
+  const { address, port } = server.address() as AddressInfo;
+
+  const storefront: MockStorefront = {
+    url: `http://${address}:${port}`,
+    requests,
+    setBehavior(behavior) {
+      defaultBehavior = behavior;
+    },
+    enqueueBehavior(behavior, times = 1) {
+      queued.push(...Array.from({ length: times }, () => behavior));
+    },
+    reset() {
+      requests.length = 0;
+      defaultBehavior = {};
+      queued = [];
+    },
+    close() {
+      // Hanging requests would otherwise keep the server open forever
+      sockets.forEach((socket) => socket.destroy());
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+  return storefront;
+}
@@ -0,0 +1,29 @@
+-- Durable outbox for customer-app revalidation requests.
+-- Every revalidation is written here (one row per target) before delivery is
+-- attempted, so a storefront that is down never silently misses a change.
+
+create table if not exists public.revalidation_outbox (
+  id bigint generated by default as identity primary key,
+  target_url text not null,
+  payload jsonb not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivered', 'dead_letter')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 8,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- The worker only ever looks for due pending rows.
+create index if not exists revalidation_outbox_due_idx
+  on public.revalidation_outbox (next_attempt_at)
+  where status = 'pending';
+
+create index if not exists revalidation_outbox_status_idx
+  on public.revalidation_outbox (status, created_at desc);
+
+-- Only the service role (API routes / worker) touches the outbox.
+alter table public.revalidation_outbox enable row level security;
@@ -0,0 +1,12 @@
+-- Debounced revalidation batches.
+-- A freshly queued row stays open for merging until `coalesce_until`, so
+-- saves made in quick succession add their paths/tags to the same row and
+-- each storefront receives one request per window. Claiming a row for
+-- delivery clears the column, which closes the batch.
+
+alter table public.revalidation_outbox
+  add column if not exists coalesce_until timestamptz;
+
+create index if not exists revalidation_outbox_open_batch_idx
+  on public.revalidation_outbox (target_url, coalesce_until)
+  where status = 'pending' and coalesce_until is not null;
@@ -0,0 +1,44 @@
+-- History of every revalidation attempt, so "did the storefront get told
+-- about my change?" can be answered from the admin instead of server logs.
+
+-- What caused a revalidation (API route plus entity), carried from the
+-- outbox row to each attempt. A batch can merge several triggers.
+alter table public.revalidation_outbox
+  add column if not exists triggers jsonb not null default '[]'::jsonb;
+
+create table if not exists public.revalidation_log (
+  id bigint generated by default as identity primary key,
+  outbox_id bigint references public.revalidation_outbox (id) on delete set null,
+  target_url text not null,
+  payload jsonb not null,
+  triggers jsonb not null default '[]'::jsonb,
+  attempt integer,
+  ok boolean not null,
+  status_code integer,
+  response_body text,
+  error text,
+  duration_ms integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists revalidation_log_created_at_idx
+  on public.revalidation_log (created_at desc);
+
+create index if not exists revalidation_log_target_idx
+  on public.revalidation_log (target_url, created_at desc);
+
+create index if not exists revalidation_log_failed_idx
+  on public.revalidation_log (created_at desc)
+  where not ok;
+
+create index if not exists revalidation_log_triggers_idx
+  on public.revalidation_log using gin (triggers jsonb_path_ops);
+
+-- Written by the service role only; admins can read it from the browser.
+alter table public.revalidation_log enable row level security;
+
+create policy "Admins can read revalidation log"
+  on public.revalidation_log
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
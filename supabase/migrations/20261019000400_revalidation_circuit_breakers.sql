@@ -0,0 +1,87 @@
+-- Per-storefront circuit breakers for revalidation delivery. After a run of
+-- failures a storefront is left alone for a cooldown; its revalidations stay
+-- in the outbox until the breaker lets a trial request through.
+
+create table if not exists public.revalidation_circuit_breakers (
+  target_url text primary key,
+  state text not null default 'closed'
+    check (state in ('closed', 'open', 'half_open')),
+  consecutive_failures integer not null default 0,
+  opened_at timestamptz,
+  -- While open: no requests before this. While half open: when the trial
+  -- request's slot expires if it never reported back.
+  open_until timestamptz,
+  last_error text,
+  last_failure_at timestamptz,
+  last_success_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+-- Written by the service role only; admins can read it from the browser.
+alter table public.revalidation_circuit_breakers enable row level security;
+
+create policy "Admins can read revalidation circuit breakers"
+  on public.revalidation_circuit_breakers
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
+
+-- Counts a storefront failure in one statement, so concurrent failures each
+-- add one instead of overwriting each other's count. The breaker opens (or
+-- re-opens, for a failed trial request) once the count reaches
+-- `failure_threshold`, for `cooldown_ms`. Called by
+-- `recordCircuitBreakerResult` in lib/revalidationCircuitBreaker.ts:
+--
+--   select * from public.record_revalidation_breaker_failure(target_url, failure_threshold, cooldown_ms, error);
+--
+-- Returns the new count, and whether this failure opened a breaker that
+-- was not open before.
+create or replace function public.record_revalidation_breaker_failure(
+  target_url text,
+  failure_threshold integer,
+  cooldown_ms integer,
+  error text
+)
+returns table (consecutive_failures integer, opened boolean)
+language plpgsql
+set search_path = ''
+as $$
+declare
+  breaker public.revalidation_circuit_breakers;
+  previous_state text;
+  opens boolean;
+begin
+  insert into public.revalidation_circuit_breakers (target_url)
+  values (record_revalidation_breaker_failure.target_url)
+  on conflict do nothing;
+
+  -- Locked, so a concurrent failure waits for this one's count
+  select * into breaker
+  from public.revalidation_circuit_breakers
+  where revalidation_circuit_breakers.target_url = record_revalidation_breaker_failure.target_url
+  for update;
+
+  previous_state := breaker.state;
+  opens := breaker.state = 'half_open' or breaker.consecutive_failures + 1 >= failure_threshold;
+
+  update public.revalidation_circuit_breakers
+  set consecutive_failures = breaker.consecutive_failures + 1,
+      state = case when opens then 'open' else breaker.state end,
+      opened_at = case when opens then now() else breaker.opened_at end,
+      open_until = case
+        when opens then now() + make_interval(secs => cooldown_ms / 1000.0)
+        else breaker.open_until
+      end,
+      last_error = error,
+      last_failure_at = now(),
+      updated_at = now()
+  where revalidation_circuit_breakers.target_url = record_revalidation_breaker_failure.target_url
+  returning * into breaker;
+
+  return query select breaker.consecutive_failures, opens and previous_state <> 'open';
+end;
+$$;
+
+-- Server only: the revalidation worker calls it with the service role
+revoke execute on function public.record_revalidation_breaker_failure(text, integer, integer, text) from public, anon, authenticated;
+grant execute on function public.record_revalidation_breaker_failure(text, integer, integer, text) to service_role;
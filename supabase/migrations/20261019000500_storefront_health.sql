@@ -0,0 +1,22 @@
+-- Latest health check per storefront: is its revalidate endpoint reachable
+-- and does it accept our signature? Shown on the admin dashboard.
+
+create table if not exists public.storefront_health (
+  target_url text primary key,
+  status text not null
+    check (status in ('healthy', 'unauthorized', 'unhealthy')),
+  status_code integer,
+  latency_ms integer not null default 0,
+  error text,
+  checked_at timestamptz not null default now(),
+  last_success_at timestamptz
+);
+
+-- Written by the service role only; admins can read it from the browser.
+alter table public.storefront_health enable row level security;
+
+create policy "Admins can read storefront health"
+  on public.storefront_health
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
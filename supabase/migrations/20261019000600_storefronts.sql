@@ -0,0 +1,25 @@
+-- Storefront registry: the customer apps that get revalidation requests.
+-- Replaces the CUSTOMER_APP_BASE_URLS / CUSTOMER_APP_ROUTE_TEMPLATES /
+-- CUSTOMER_APP_REVALIDATION_MODES env vars, which are only used while this
+-- table is empty.
+
+create table if not exists public.storefronts (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  base_url text not null unique,
+  environment text not null default 'production'
+    check (environment in ('staging', 'production')),
+  -- Signing secret for this storefront; null means REVALIDATION_SECRET.
+  secret text,
+  enabled boolean not null default true,
+  revalidation_mode text not null default 'paths'
+    check (revalidation_mode in ('paths', 'tags', 'both')),
+  -- Overrides of the default route templates, e.g. {"product": "/p/:slug"};
+  -- null for a route the storefront doesn't have.
+  route_templates jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Holds secrets, so only the service role (API routes) reads or writes it.
+alter table public.storefronts enable row level security;
@@ -0,0 +1,89 @@
+-- Sends catalog changes made outside the admin API routes (Supabase Studio,
+-- SQL scripts, pages writing through the browser client) to
+-- /api/webhooks/database, which revalidates the affected storefront pages.
+--
+-- Events are signed like our revalidation requests: HMAC-SHA256 over
+-- `<timestamp>.<nonce>.<body>` in the x-revalidation-* headers. Store the
+-- endpoint and the secret (same value as DATABASE_WEBHOOK_SECRET) in Vault:
+--
+--   select vault.create_secret('https://admin.example.com/api/webhooks/database', 'catalog_webhook_url');
+--   select vault.create_secret('<secret>', 'catalog_webhook_secret');
+--
+-- Until both exist the triggers do nothing.
+
+create extension if not exists pg_net;
+create extension if not exists pgcrypto with schema extensions;
+
+create or replace function public.notify_catalog_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  webhook_url text;
+  webhook_secret text;
+  body text;
+  sent_at text;
+  nonce text;
+begin
+  -- The API routes (service role) revalidate their own writes
+  if auth.role() = 'service_role' then
+    return null;
+  end if;
+
+  select decrypted_secret into webhook_url
+    from vault.decrypted_secrets where name = 'catalog_webhook_url';
+  select decrypted_secret into webhook_secret
+    from vault.decrypted_secrets where name = 'catalog_webhook_secret';
+  if webhook_url is null or webhook_secret is null then
+    return null;
+  end if;
+
+  -- Same shape as a Supabase database webhook
+  body := jsonb_build_object(
+    'type', tg_op,
+    'table', tg_table_name,
+    'schema', tg_table_schema,
+    'record', case when tg_op = 'DELETE' then null else to_jsonb(new) end,
+    'old_record', case when tg_op = 'INSERT' then null else to_jsonb(old) end
+  )::text;
+  sent_at := floor(extract(epoch from now()))::bigint::text;
+  nonce := gen_random_uuid()::text;
+
+  perform net.http_post(
+    url := webhook_url,
+    body := body::jsonb,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-revalidation-timestamp', sent_at,
+      'x-revalidation-nonce', nonce,
+      'x-revalidation-signature', 'v1=' || encode(
+        extensions.hmac(sent_at || '.' || nonce || '.' || body, webhook_secret, 'sha256'),
+        'hex'
+      )
+    )
+  );
+  return null;
+end;
+$$;
+
+create or replace trigger products_catalog_change
+  after insert or update or delete on public.products
+  for each row execute function public.notify_catalog_change();
+
+create or replace trigger categories_catalog_change
+  after insert or update or delete on public.categories
+  for each row execute function public.notify_catalog_change();
+
+create or replace trigger subcategories_catalog_change
+  after insert or update or delete on public.subcategories
+  for each row execute function public.notify_catalog_change();
+
+create or replace trigger brands_catalog_change
+  after insert or update or delete on public.brands
+  for each row execute function public.notify_catalog_change();
+
+create or replace trigger customer_testimonials_catalog_change
+  after insert or update or delete on public.customer_testimonials
+  for each row execute function public.notify_catalog_change();
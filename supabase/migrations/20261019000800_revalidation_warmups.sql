@@ -0,0 +1,33 @@
+-- Results of the optional warm-up crawl that follows a successful
+-- revalidation: one row per page fetched, so pages that broke after a
+-- change (404 or 5xx) show up in the admin.
+
+create table if not exists public.revalidation_warmups (
+  id bigint generated by default as identity primary key,
+  outbox_id bigint references public.revalidation_outbox (id) on delete set null,
+  target_url text not null,
+  path text not null,
+  status_code integer,
+  ttfb_ms integer,
+  duration_ms integer not null default 0,
+  error text,
+  -- 404, 5xx or no response at all
+  flagged boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists revalidation_warmups_created_at_idx
+  on public.revalidation_warmups (created_at desc);
+
+create index if not exists revalidation_warmups_flagged_idx
+  on public.revalidation_warmups (created_at desc)
+  where flagged;
+
+-- Written by the service role only; admins can read it from the browser.
+alter table public.revalidation_warmups enable row level security;
+
+create policy "Admins can read revalidation warm-ups"
+  on public.revalidation_warmups
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
@@ -0,0 +1,39 @@
+-- "Revalidate everything" jobs: every active product, category,
+-- subcategory and brand page, sent to the storefronts in throttled batches
+-- (e.g. after a storefront template change).
+
+create table if not exists public.revalidation_jobs (
+  id bigint generated by default as identity primary key,
+  status text not null default 'running'
+    check (status in ('running', 'paused', 'cancelled', 'completed', 'failed')),
+  -- The pages to revalidate, in order: [{"route": {...}, "tag": "product:1"}]
+  items jsonb not null default '[]'::jsonb,
+  -- Storefront base URLs to send to; null means every storefront.
+  targets text[],
+  total integer not null default 0,
+  position integer not null default 0, -- Items sent so far
+  failed integer not null default 0, -- Items whose first delivery failed (the outbox retries them)
+  last_error text,
+  -- Held by the runner working on the job, so two runners never overlap
+  locked_until timestamptz,
+  created_by uuid,
+  finished_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists revalidation_jobs_created_at_idx
+  on public.revalidation_jobs (created_at desc);
+
+create index if not exists revalidation_jobs_running_idx
+  on public.revalidation_jobs (created_at)
+  where status = 'running';
+
+-- Written by the service role only; admins can read it from the browser.
+alter table public.revalidation_jobs enable row level security;
+
+create policy "Admins can read revalidation jobs"
+  on public.revalidation_jobs
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
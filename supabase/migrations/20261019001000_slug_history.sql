@@ -0,0 +1,67 @@
+-- Every slug a product, category, subcategory or brand had before it was
+-- renamed, so storefronts can redirect old URLs (see /api/redirects) and
+-- revalidation can refresh them.
+--
+-- Filled by a trigger rather than by the API routes so renames made in
+-- Supabase Studio or by scripts are recorded too.
+
+create table if not exists public.slug_history (
+  id bigint generated by default as identity primary key,
+  entity text not null check (entity in ('product', 'category', 'subcategory', 'brand')),
+  entity_id bigint not null,
+  old_slug text not null,
+  new_slug text not null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists slug_history_entity_idx
+  on public.slug_history (entity, entity_id);
+
+create index if not exists slug_history_old_slug_idx
+  on public.slug_history (entity, old_slug);
+
+-- Arguments: the entity name and the table's ID column
+create or replace function public.record_slug_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if old.slug is not null and new.slug is distinct from old.slug then
+    insert into public.slug_history (entity, entity_id, old_slug, new_slug)
+    values (
+      tg_argv[0],
+      (to_jsonb(new) ->> tg_argv[1])::bigint,
+      old.slug,
+      coalesce(new.slug, '')
+    );
+  end if;
+  return null;
+end;
+$$;
+
+create or replace trigger products_slug_history
+  after update of slug on public.products
+  for each row execute function public.record_slug_change('product', 'products_id');
+
+create or replace trigger categories_slug_history
+  after update of slug on public.categories
+  for each row execute function public.record_slug_change('category', 'categories_id');
+
+create or replace trigger subcategories_slug_history
+  after update of slug on public.subcategories
+  for each row execute function public.record_slug_change('subcategory', 'id');
+
+create or replace trigger brands_slug_history
+  after update of slug on public.brands
+  for each row execute function public.record_slug_change('brand', 'brands_id');
+
+-- Written by the trigger only; admins can read it from the browser.
+alter table public.slug_history enable row level security;
+
+create policy "Admins can read slug history"
+  on public.slug_history
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
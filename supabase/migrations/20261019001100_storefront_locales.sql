@@ -0,0 +1,13 @@
+-- Localized storefronts: the locales and markets a storefront serves and
+-- the path prefix of each, e.g.
+--   [{"locale": "en", "prefix": ""}, {"locale": "fr", "prefix": "/fr"},
+--    {"locale": "fr", "prefix": "/ch/fr"}]
+-- Revalidation sends every page once per entry. Empty means unprefixed
+-- paths only.
+alter table public.storefronts
+  add column if not exists locales jsonb not null default '[]'::jsonb;
+
+-- The locales a product is published in; null means all of them. Its pages
+-- are only revalidated in these locales.
+alter table public.products
+  add column if not exists published_locales text[];
@@ -0,0 +1,160 @@
+-- Writes a product together with its images, features, tags, FAQs,
+-- testimonial videos, customer testimonials and variants (with their
+-- attributes and features) in one transaction, so a failed write leaves
+-- nothing behind instead of a half-built product.
+--
+-- Called by /api/products/create and /api/products/update:
+--
+--   select public.create_product_graph(product, related);
+--   select public.update_product_graph(product, related);
+--
+-- `product` holds the columns of `products` to write (only the keys present
+-- are written, so column defaults still apply). `related` holds one array
+-- per related table, already normalized by the API route; see
+-- `productGraphRelated` in lib/productGraph.ts for its shape.
+
+-- Inserts the related rows of a product from `related`
+create or replace function public.insert_product_related(target_products_id bigint, related jsonb)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  variant jsonb;
+  new_variant_id bigint;
+begin
+  -- A URL listed twice is stored once, where it was first listed
+  insert into public.product_images (product_id, url, is_primary, sort_order)
+  select target_products_id, listed.url, listed.position = 1, listed.position - 1
+  from (
+    select image.url, row_number() over (order by min(image.ordinality)) as position
+    from jsonb_array_elements_text(coalesce(related -> 'images', '[]'::jsonb))
+      with ordinality as image(url, ordinality)
+    group by image.url
+  ) as listed;
+
+  insert into public.product_features (product_id, feature_text)
+  select target_products_id, feature.feature_text
+  from jsonb_populate_recordset(null::public.product_features, coalesce(related -> 'features', '[]'::jsonb)) as feature;
+
+  insert into public.product_tags (product_id, tag_text)
+  select distinct target_products_id, tag.tag_text
+  from jsonb_array_elements_text(coalesce(related -> 'tags', '[]'::jsonb)) as tag(tag_text);
+
+  insert into public.product_faqs (product_id, question, answer)
+  select target_products_id, faq.question, faq.answer
+  from jsonb_populate_recordset(null::public.product_faqs, coalesce(related -> 'faqs', '[]'::jsonb)) as faq;
+
+  insert into public.product_testimonial_videos (product_id, video_url, title, description, uploader_name)
+  select target_products_id, video.video_url, video.title, video.description, video.uploader_name
+  from jsonb_populate_recordset(null::public.product_testimonial_videos, coalesce(related -> 'testimonial_videos', '[]'::jsonb)) as video;
+
+  insert into public.customer_testimonials (products_id, customer_name, testimonial_text, rating, customer_image_url)
+  select target_products_id, testimonial.customer_name, testimonial.testimonial_text, testimonial.rating, testimonial.customer_image_url
+  from jsonb_populate_recordset(null::public.customer_testimonials, coalesce(related -> 'customer_testimonials', '[]'::jsonb)) as testimonial;
+
+  for variant in
+    select value from jsonb_array_elements(coalesce(related -> 'variants', '[]'::jsonb))
+  loop
+    insert into public.product_variants (product_id, name, price, compare_at_price, sku, quantity, image_url, icon_url)
+    select target_products_id, v.name, v.price, v.compare_at_price, v.sku, v.quantity, v.image_url, v.icon_url
+    from jsonb_populate_record(null::public.product_variants, variant) as v
+    returning id into new_variant_id;
+
+    insert into public.variant_attributes (variant_id, name, value)
+    select new_variant_id, attribute.name, attribute.value
+    from jsonb_populate_recordset(null::public.variant_attributes, coalesce(variant -> 'attributes', '[]'::jsonb)) as attribute;
+
+    insert into public.variant_features (variant_id, feature_text, icon_url)
+    select new_variant_id, feature.feature_text, feature.icon_url
+    from jsonb_populate_recordset(null::public.variant_features, coalesce(variant -> 'variant_features', '[]'::jsonb)) as feature;
+  end loop;
+end;
+$$;
+
+-- Comma-separated, quoted names of the `products` columns present in `product`
+create or replace function public.product_graph_columns(product jsonb)
+returns text
+language sql
+stable
+set search_path = ''
+as $$
+  select string_agg(quote_ident(attribute.attname), ', ' order by attribute.attnum)
+  from pg_catalog.pg_attribute as attribute
+  where attribute.attrelid = 'public.products'::regclass
+    and attribute.attnum > 0
+    and not attribute.attisdropped
+    and attribute.attname <> 'products_id'
+    and product ? attribute.attname;
+$$;
+
+create or replace function public.create_product_graph(product jsonb, related jsonb)
+returns public.products
+language plpgsql
+set search_path = ''
+as $$
+declare
+  columns text := public.product_graph_columns(product);
+  created public.products;
+begin
+  execute format(
+    'insert into public.products (%1$s) select %1$s from jsonb_populate_record(null::public.products, $1) returning *',
+    columns
+  ) using product into created;
+
+  perform public.insert_product_related(created.products_id, related);
+  return created;
+end;
+$$;
+
+-- Replaces every related row of the product, so `related` must hold the
+-- complete lists. Raises no_data_found (P0002) for an unknown product.
+create or replace function public.update_product_graph(product jsonb, related jsonb)
+returns public.products
+language plpgsql
+set search_path = ''
+as $$
+declare
+  target_products_id bigint := (product ->> 'products_id')::bigint;
+  columns text := public.product_graph_columns(product);
+  updated public.products;
+begin
+  if columns is null then
+    select * into updated from public.products where products_id = target_products_id;
+  else
+    execute format(
+      'update public.products set (%1$s) = (select %1$s from jsonb_populate_record(null::public.products, $1)) where products_id = $2 returning *',
+      columns
+    ) using product, target_products_id into updated;
+  end if;
+
+  if updated.products_id is null then
+    raise exception 'Product % not found', target_products_id using errcode = 'no_data_found';
+  end if;
+
+  delete from public.variant_attributes
+  where variant_id in (select id from public.product_variants where product_id = target_products_id);
+  delete from public.variant_features
+  where variant_id in (select id from public.product_variants where product_id = target_products_id);
+  delete from public.product_variants where product_id = target_products_id;
+  delete from public.product_images where product_id = target_products_id;
+  delete from public.product_features where product_id = target_products_id;
+  delete from public.product_tags where product_id = target_products_id;
+  delete from public.product_faqs where product_id = target_products_id;
+  delete from public.product_testimonial_videos where product_id = target_products_id;
+  delete from public.customer_testimonials where products_id = target_products_id;
+
+  perform public.insert_product_related(target_products_id, related);
+  return updated;
+end;
+$$;
+
+-- Server only: the API routes call these with the service role
+revoke execute on function public.insert_product_related(bigint, jsonb) from public, anon, authenticated;
+revoke execute on function public.product_graph_columns(jsonb) from public, anon, authenticated;
+revoke execute on function public.create_product_graph(jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.update_product_graph(jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.create_product_graph(jsonb, jsonb) to service_role;
+grant execute on function public.update_product_graph(jsonb, jsonb) to service_role;
+grant execute on function public.insert_product_related(bigint, jsonb) to service_role;
+grant execute on function public.product_graph_columns(jsonb) to service_role;
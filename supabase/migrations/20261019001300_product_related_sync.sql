@@ -0,0 +1,285 @@
+-- Product updates used to delete every related row and insert it again, so
+-- variant, FAQ and testimonial IDs changed on every save and broke anything
+-- referencing them (carts, analytics). `update_product_graph` now diffs the
+-- incoming arrays against the stored rows instead:
+--
+--   * rows whose `id` (`faq_id` for FAQs) is listed are updated in place,
+--   * rows without an ID, or with the ID of another product's row, are inserted,
+--   * stored rows missing from the arrays are deleted.
+--
+-- Images are matched by URL and tags by text, since they carry no ID.
+
+-- IDs listed in `items` under `id_key`, for `not in` / `in` checks
+create or replace function public.product_related_ids(items jsonb, id_key text default 'id')
+returns bigint[]
+language sql
+immutable
+set search_path = ''
+as $$
+  select coalesce(array_agg((item ->> id_key)::bigint), '{}')
+  from jsonb_array_elements(coalesce(items, '[]'::jsonb)) as item
+  where item ->> id_key is not null;
+$$;
+
+-- Brings the attributes and features of one variant in line with `variant`
+create or replace function public.sync_variant_related(target_variant_id bigint, variant jsonb)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  attributes jsonb := coalesce(variant -> 'attributes', '[]'::jsonb);
+  features jsonb := coalesce(variant -> 'variant_features', '[]'::jsonb);
+begin
+  delete from public.variant_attributes
+  where variant_id = target_variant_id
+    and id <> all (public.product_related_ids(attributes));
+
+  update public.variant_attributes as attribute
+  set name = incoming.name, value = incoming.value
+  from jsonb_populate_recordset(null::public.variant_attributes, attributes) as incoming
+  where attribute.id = incoming.id and attribute.variant_id = target_variant_id;
+
+  insert into public.variant_attributes (variant_id, name, value)
+  select target_variant_id, incoming.name, incoming.value
+  from jsonb_populate_recordset(null::public.variant_attributes, attributes) as incoming
+  where not exists (
+    select 1 from public.variant_attributes as attribute
+    where attribute.id = incoming.id and attribute.variant_id = target_variant_id
+  );
+
+  delete from public.variant_features
+  where variant_id = target_variant_id
+    and id <> all (public.product_related_ids(features));
+
+  update public.variant_features as feature
+  set feature_text = incoming.feature_text, icon_url = incoming.icon_url
+  from jsonb_populate_recordset(null::public.variant_features, features) as incoming
+  where feature.id = incoming.id and feature.variant_id = target_variant_id;
+
+  insert into public.variant_features (variant_id, feature_text, icon_url)
+  select target_variant_id, incoming.feature_text, incoming.icon_url
+  from jsonb_populate_recordset(null::public.variant_features, features) as incoming
+  where not exists (
+    select 1 from public.variant_features as feature
+    where feature.id = incoming.id and feature.variant_id = target_variant_id
+  );
+end;
+$$;
+
+-- Brings the related rows of a product in line with `related`, keeping the
+-- IDs of the rows that are still listed
+create or replace function public.sync_product_related(target_products_id bigint, related jsonb)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  -- A URL listed twice is stored once, where it was first listed
+  images jsonb := (
+    select coalesce(jsonb_agg(listed.url order by listed.first_ordinality), '[]'::jsonb)
+    from (
+      select image.url, min(image.ordinality) as first_ordinality
+      from jsonb_array_elements_text(coalesce(related -> 'images', '[]'::jsonb))
+        with ordinality as image(url, ordinality)
+      group by image.url
+    ) as listed
+  );
+  features jsonb := coalesce(related -> 'features', '[]'::jsonb);
+  tags jsonb := coalesce(related -> 'tags', '[]'::jsonb);
+  faqs jsonb := coalesce(related -> 'faqs', '[]'::jsonb);
+  videos jsonb := coalesce(related -> 'testimonial_videos', '[]'::jsonb);
+  testimonials jsonb := coalesce(related -> 'customer_testimonials', '[]'::jsonb);
+  variants jsonb := coalesce(related -> 'variants', '[]'::jsonb);
+  variant jsonb;
+  target_variant_id bigint;
+begin
+  -- Images, by URL; the first listed is the primary one
+  delete from public.product_images
+  where product_id = target_products_id
+    and url not in (select value from jsonb_array_elements_text(images));
+
+  update public.product_images as image
+  set is_primary = incoming.ordinality = 1, sort_order = incoming.ordinality - 1
+  from jsonb_array_elements_text(images) with ordinality as incoming(url, ordinality)
+  where image.product_id = target_products_id and image.url = incoming.url;
+
+  insert into public.product_images (product_id, url, is_primary, sort_order)
+  select target_products_id, incoming.url, incoming.ordinality = 1, incoming.ordinality - 1
+  from jsonb_array_elements_text(images) with ordinality as incoming(url, ordinality)
+  where not exists (
+    select 1 from public.product_images as image
+    where image.product_id = target_products_id and image.url = incoming.url
+  );
+
+  -- Tags, by text
+  delete from public.product_tags
+  where product_id = target_products_id
+    and tag_text not in (select value from jsonb_array_elements_text(tags));
+
+  insert into public.product_tags (product_id, tag_text)
+  select distinct target_products_id, incoming.tag_text
+  from jsonb_array_elements_text(tags) as incoming(tag_text)
+  where not exists (
+    select 1 from public.product_tags as tag
+    where tag.product_id = target_products_id and tag.tag_text = incoming.tag_text
+  );
+
+  -- Features
+  delete from public.product_features
+  where product_id = target_products_id
+    and id <> all (public.product_related_ids(features));
+
+  update public.product_features as feature
+  set feature_text = incoming.feature_text
+  from jsonb_populate_recordset(null::public.product_features, features) as incoming
+  where feature.id = incoming.id and feature.product_id = target_products_id;
+
+  insert into public.product_features (product_id, feature_text)
+  select target_products_id, incoming.feature_text
+  from jsonb_populate_recordset(null::public.product_features, features) as incoming
+  where not exists (
+    select 1 from public.product_features as feature
+    where feature.id = incoming.id and feature.product_id = target_products_id
+  );
+
+  -- FAQs
+  delete from public.product_faqs
+  where product_id = target_products_id
+    and faq_id <> all (public.product_related_ids(faqs, 'faq_id'));
+
+  update public.product_faqs as faq
+  set question = incoming.question, answer = incoming.answer
+  from jsonb_populate_recordset(null::public.product_faqs, faqs) as incoming
+  where faq.faq_id = incoming.faq_id and faq.product_id = target_products_id;
+
+  insert into public.product_faqs (product_id, question, answer)
+  select target_products_id, incoming.question, incoming.answer
+  from jsonb_populate_recordset(null::public.product_faqs, faqs) as incoming
+  where not exists (
+    select 1 from public.product_faqs as faq
+    where faq.faq_id = incoming.faq_id and faq.product_id = target_products_id
+  );
+
+  -- Testimonial videos
+  delete from public.product_testimonial_videos
+  where product_id = target_products_id
+    and id <> all (public.product_related_ids(videos));
+
+  update public.product_testimonial_videos as video
+  set video_url = incoming.video_url,
+      title = incoming.title,
+      description = incoming.description,
+      uploader_name = incoming.uploader_name
+  from jsonb_populate_recordset(null::public.product_testimonial_videos, videos) as incoming
+  where video.id = incoming.id and video.product_id = target_products_id;
+
+  insert into public.product_testimonial_videos (product_id, video_url, title, description, uploader_name)
+  select target_products_id, incoming.video_url, incoming.title, incoming.description, incoming.uploader_name
+  from jsonb_populate_recordset(null::public.product_testimonial_videos, videos) as incoming
+  where not exists (
+    select 1 from public.product_testimonial_videos as video
+    where video.id = incoming.id and video.product_id = target_products_id
+  );
+
+  -- Customer testimonials
+  delete from public.customer_testimonials
+  where products_id = target_products_id
+    and id <> all (public.product_related_ids(testimonials));
+
+  update public.customer_testimonials as testimonial
+  set customer_name = incoming.customer_name,
+      testimonial_text = incoming.testimonial_text,
+      rating = incoming.rating,
+      customer_image_url = incoming.customer_image_url
+  from jsonb_populate_recordset(null::public.customer_testimonials, testimonials) as incoming
+  where testimonial.id = incoming.id and testimonial.products_id = target_products_id;
+
+  insert into public.customer_testimonials (products_id, customer_name, testimonial_text, rating, customer_image_url)
+  select target_products_id, incoming.customer_name, incoming.testimonial_text, incoming.rating, incoming.customer_image_url
+  from jsonb_populate_recordset(null::public.customer_testimonials, testimonials) as incoming
+  where not exists (
+    select 1 from public.customer_testimonials as testimonial
+    where testimonial.id = incoming.id and testimonial.products_id = target_products_id
+  );
+
+  -- Variants, with their attributes and features
+  delete from public.variant_attributes
+  where variant_id in (
+    select id from public.product_variants
+    where product_id = target_products_id
+      and id <> all (public.product_related_ids(variants))
+  );
+  delete from public.variant_features
+  where variant_id in (
+    select id from public.product_variants
+    where product_id = target_products_id
+      and id <> all (public.product_related_ids(variants))
+  );
+  delete from public.product_variants
+  where product_id = target_products_id
+    and id <> all (public.product_related_ids(variants));
+
+  for variant in
+    select value from jsonb_array_elements(variants)
+  loop
+    update public.product_variants as stored
+    set name = incoming.name,
+        price = incoming.price,
+        compare_at_price = incoming.compare_at_price,
+        sku = incoming.sku,
+        quantity = incoming.quantity,
+        image_url = incoming.image_url,
+        icon_url = incoming.icon_url
+    from jsonb_populate_record(null::public.product_variants, variant) as incoming
+    where stored.id = incoming.id and stored.product_id = target_products_id
+    returning stored.id into target_variant_id;
+
+    if target_variant_id is null then
+      insert into public.product_variants (product_id, name, price, compare_at_price, sku, quantity, image_url, icon_url)
+      select target_products_id, incoming.name, incoming.price, incoming.compare_at_price, incoming.sku, incoming.quantity, incoming.image_url, incoming.icon_url
+      from jsonb_populate_record(null::public.product_variants, variant) as incoming
+      returning id into target_variant_id;
+    end if;
+
+    perform public.sync_variant_related(target_variant_id, variant);
+  end loop;
+end;
+$$;
+
+-- Same as before, but syncs the related rows instead of replacing them
+create or replace function public.update_product_graph(product jsonb, related jsonb)
+returns public.products
+language plpgsql
+set search_path = ''
+as $$
+declare
+  target_products_id bigint := (product ->> 'products_id')::bigint;
+  columns text := public.product_graph_columns(product);
+  updated public.products;
+begin
+  if columns is null then
+    select * into updated from public.products where products_id = target_products_id;
+  else
+    execute format(
+      'update public.products set (%1$s) = (select %1$s from jsonb_populate_record(null::public.products, $1)) where products_id = $2 returning *',
+      columns
+    ) using product, target_products_id into updated;
+  end if;
+
+  if updated.products_id is null then
+    raise exception 'Product % not found', target_products_id using errcode = 'no_data_found';
+  end if;
+
+  perform public.sync_product_related(target_products_id, related);
+  return updated;
+end;
+$$;
+
+-- Server only: the API routes call these with the service role
+revoke execute on function public.product_related_ids(jsonb, text) from public, anon, authenticated;
+revoke execute on function public.sync_variant_related(bigint, jsonb) from public, anon, authenticated;
+revoke execute on function public.sync_product_related(bigint, jsonb) from public, anon, authenticated;
+grant execute on function public.product_related_ids(jsonb, text) to service_role;
+grant execute on function public.sync_variant_related(bigint, jsonb) to service_role;
+grant execute on function public.sync_product_related(bigint, jsonb) to service_role;
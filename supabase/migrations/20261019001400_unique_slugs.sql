@@ -0,0 +1,51 @@
+-- Unique slugs for products, categories and brands, and per category for
+-- subcategories. The API routes pick a free slug before writing (see
+-- lib/slugs.ts); these indexes make a concurrent save that picked the same
+-- slug fail with 23505, so the route retries with the next suffix instead of
+-- creating two pages with one URL.
+--
+-- Existing duplicates keep the slug on their oldest row; the others get
+-- their ID appended. The slug history trigger records those renames, so
+-- their old URLs redirect.
+
+update public.products as product
+set slug = product.slug || '-' || product.products_id
+where exists (
+  select 1 from public.products as other
+  where other.slug = product.slug and other.products_id < product.products_id
+);
+
+update public.categories as category
+set slug = category.slug || '-' || category.categories_id
+where exists (
+  select 1 from public.categories as other
+  where other.slug = category.slug and other.categories_id < category.categories_id
+);
+
+update public.subcategories as subcategory
+set slug = subcategory.slug || '-' || subcategory.id
+where exists (
+  select 1 from public.subcategories as other
+  where other.category_id = subcategory.category_id
+    and other.slug = subcategory.slug
+    and other.id < subcategory.id
+);
+
+update public.brands as brand
+set slug = brand.slug || '-' || brand.brands_id
+where exists (
+  select 1 from public.brands as other
+  where other.slug = brand.slug and other.brands_id < brand.brands_id
+);
+
+create unique index if not exists products_slug_unique
+  on public.products (slug);
+
+create unique index if not exists categories_slug_unique
+  on public.categories (slug);
+
+create unique index if not exists subcategories_category_slug_unique
+  on public.subcategories (category_id, slug);
+
+create unique index if not exists brands_slug_unique
+  on public.brands (slug);
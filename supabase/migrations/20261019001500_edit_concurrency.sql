@@ -0,0 +1,91 @@
+-- Optimistic concurrency for product, category and brand edits: the update
+-- routes take the `updated_at` the editor loaded and refuse to save over a
+-- newer version, so two editors working on the same item cannot silently
+-- overwrite each other's changes (or each other's variants).
+--
+-- Every write bumps `updated_at`, including the bulk actions and list pages
+-- that do not set it themselves, so any save makes older edit forms stale.
+--
+-- Products are saved by `update_product_graph`, which locks the row for the
+-- check so the comparison and the write see the same version. A stale save
+-- raises serialization_failure (40001). Categories and brands are updated
+-- with `updated_at` in the filter. Either way the route answers with a 409
+-- listing the fields that differ.
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists products_touch_updated_at on public.products;
+create trigger products_touch_updated_at
+  before update on public.products
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists categories_touch_updated_at on public.categories;
+create trigger categories_touch_updated_at
+  before update on public.categories
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists brands_touch_updated_at on public.brands;
+create trigger brands_touch_updated_at
+  before update on public.brands
+  for each row execute function public.touch_updated_at();
+
+drop function if exists public.update_product_graph(jsonb, jsonb);
+
+create or replace function public.update_product_graph(
+  product jsonb,
+  related jsonb,
+  expected_updated_at timestamptz default null
+)
+returns public.products
+language plpgsql
+set search_path = ''
+as $$
+declare
+  target_products_id bigint := (product ->> 'products_id')::bigint;
+  columns text := public.product_graph_columns(product);
+  saved_updated_at timestamptz;
+  updated public.products;
+begin
+  -- Without an expected version (scripts) the save always goes through
+  if expected_updated_at is not null then
+    select products.updated_at into saved_updated_at
+    from public.products
+    where products.products_id = target_products_id
+    for update;
+
+    if found and saved_updated_at is distinct from expected_updated_at then
+      raise exception 'Product % was changed at %', target_products_id, saved_updated_at
+        using errcode = 'serialization_failure';
+    end if;
+  end if;
+
+  if columns is null then
+    select * into updated from public.products where products_id = target_products_id;
+  else
+    execute format(
+      'update public.products set (%1$s) = (select %1$s from jsonb_populate_record(null::public.products, $1)) where products_id = $2 returning *',
+      columns
+    ) using product, target_products_id into updated;
+  end if;
+
+  if updated.products_id is null then
+    raise exception 'Product % not found', target_products_id using errcode = 'no_data_found';
+  end if;
+
+  perform public.sync_product_related(target_products_id, related);
+  return updated;
+end;
+$$;
+
+-- Server only: the API routes call it with the service role
+revoke execute on function public.update_product_graph(jsonb, jsonb, timestamptz) from public, anon, authenticated;
+grant execute on function public.update_product_graph(jsonb, jsonb, timestamptz) to service_role;
@@ -0,0 +1,218 @@
+-- Full snapshots of a product and its related rows, one per successful
+-- create or update through the API, so a broken description or deleted
+-- variants can be compared with and restored from an earlier version (see
+-- the History tab of the product edit page). Restores go through
+-- /api/products/update like any other save and get a revision of their own.
+--
+-- `snapshot` is the product row with its related tables embedded, in the
+-- shape the edit page loads. The product graph functions write it in the
+-- same transaction as the save (see `record_product_revision` below).
+
+create table if not exists public.product_revisions (
+  id bigint generated by default as identity primary key,
+  products_id bigint not null references public.products (products_id) on delete cascade,
+  snapshot jsonb not null,
+  author_id uuid, -- Null for saves without a signed-in admin (scripts)
+  author_email text,
+  restored_from bigint references public.product_revisions (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists product_revisions_products_id_idx
+  on public.product_revisions (products_id, created_at desc);
+
+-- Written by the service role only; admins can read it from the browser.
+alter table public.product_revisions enable row level security;
+
+create policy "Admins can read product revisions"
+  on public.product_revisions
+  for select
+  to authenticated
+  using (exists (select 1 from public.admin_users where admin_users.id = auth.uid()));
+
+-- The product with its related tables embedded, as the edit page loads it.
+-- Null for an unknown product.
+create or replace function public.product_revision_snapshot(target_products_id bigint)
+returns jsonb
+language sql
+stable
+set search_path = ''
+as $$
+  select to_jsonb(product) || jsonb_build_object(
+    'product_features', coalesce((
+      select jsonb_agg(jsonb_build_object('id', feature.id, 'feature_text', feature.feature_text) order by feature.id)
+      from public.product_features as feature
+      where feature.product_id = product.products_id
+    ), '[]'::jsonb),
+    'product_variants', coalesce((
+      select jsonb_agg(to_jsonb(variant) || jsonb_build_object(
+        'variant_attributes', coalesce((
+          select jsonb_agg(jsonb_build_object('id', attribute.id, 'name', attribute.name, 'value', attribute.value) order by attribute.id)
+          from public.variant_attributes as attribute
+          where attribute.variant_id = variant.id
+        ), '[]'::jsonb),
+        'variant_features', coalesce((
+          select jsonb_agg(jsonb_build_object('id', feature.id, 'feature_text', feature.feature_text, 'icon_url', feature.icon_url) order by feature.id)
+          from public.variant_features as feature
+          where feature.variant_id = variant.id
+        ), '[]'::jsonb)
+      ) order by variant.id)
+      from public.product_variants as variant
+      where variant.product_id = product.products_id
+    ), '[]'::jsonb),
+    'product_images', coalesce((
+      select jsonb_agg(jsonb_build_object('id', image.id, 'url', image.url, 'is_primary', image.is_primary, 'sort_order', image.sort_order) order by image.sort_order, image.id)
+      from public.product_images as image
+      where image.product_id = product.products_id
+    ), '[]'::jsonb),
+    'product_testimonial_videos', coalesce((
+      select jsonb_agg(jsonb_build_object('id', video.id, 'video_url', video.video_url, 'title', video.title, 'description', video.description, 'uploader_name', video.uploader_name) order by video.id)
+      from public.product_testimonial_videos as video
+      where video.product_id = product.products_id
+    ), '[]'::jsonb),
+    'customer_testimonials', coalesce((
+      select jsonb_agg(jsonb_build_object('id', testimonial.id, 'customer_name', testimonial.customer_name, 'testimonial_text', testimonial.testimonial_text, 'rating', testimonial.rating, 'customer_image_url', testimonial.customer_image_url) order by testimonial.id)
+      from public.customer_testimonials as testimonial
+      where testimonial.products_id = product.products_id
+    ), '[]'::jsonb),
+    'product_tags', coalesce((
+      select jsonb_agg(jsonb_build_object('tag_text', tag.tag_text) order by tag.id)
+      from public.product_tags as tag
+      where tag.product_id = product.products_id
+    ), '[]'::jsonb),
+    'product_faqs', coalesce((
+      select jsonb_agg(jsonb_build_object('faq_id', faq.faq_id, 'question', faq.question, 'answer', faq.answer) order by faq.faq_id)
+      from public.product_faqs as faq
+      where faq.product_id = product.products_id
+    ), '[]'::jsonb)
+  )
+  from public.products as product
+  where product.products_id = target_products_id;
+$$;
+
+-- Stores the product as saved now as a new revision. `revision` holds the
+-- admin who saved it (`author_id`, `author_email`) and, for a restore, the
+-- revision it restored (`restored_from`); all may be null.
+create or replace function public.record_product_revision(target_products_id bigint, revision jsonb)
+returns bigint
+language plpgsql
+set search_path = ''
+as $$
+declare
+  snapshot jsonb := public.product_revision_snapshot(target_products_id);
+  revision_id bigint;
+begin
+  if snapshot is null then
+    return null;
+  end if;
+
+  insert into public.product_revisions (products_id, snapshot, author_id, author_email, restored_from)
+  values (
+    target_products_id,
+    snapshot,
+    (revision ->> 'author_id')::uuid,
+    revision ->> 'author_email',
+    (revision ->> 'restored_from')::bigint
+  )
+  returning id into revision_id;
+  return revision_id;
+end;
+$$;
+
+-- The graph functions record the revision in the same transaction as the
+-- write, from the rows just written, so a failed save records nothing and
+-- a revision that cannot be stored fails the save.
+
+drop function if exists public.create_product_graph(jsonb, jsonb);
+
+create or replace function public.create_product_graph(
+  product jsonb,
+  related jsonb,
+  revision jsonb default null
+)
+returns public.products
+language plpgsql
+set search_path = ''
+as $$
+declare
+  columns text := public.product_graph_columns(product);
+  created public.products;
+begin
+  execute format(
+    'insert into public.products (%1$s) select %1$s from jsonb_populate_record(null::public.products, $1) returning *',
+    columns
+  ) using product into created;
+
+  perform public.insert_product_related(created.products_id, related);
+  perform public.record_product_revision(created.products_id, revision);
+  return created;
+end;
+$$;
+
+drop function if exists public.update_product_graph(jsonb, jsonb, timestamptz);
+
+create or replace function public.update_product_graph(
+  product jsonb,
+  related jsonb,
+  expected_updated_at timestamptz default null,
+  revision jsonb default null
+)
+returns public.products
+language plpgsql
+set search_path = ''
+as $$
+declare
+  target_products_id bigint := (product ->> 'products_id')::bigint;
+  columns text := public.product_graph_columns(product);
+  saved_updated_at timestamptz;
+  updated public.products;
+begin
+  -- Without an expected version (scripts) the save always goes through
+  if expected_updated_at is not null then
+    select products.updated_at into saved_updated_at
+    from public.products
+    where products.products_id = target_products_id
+    for update;
+
+    if found and saved_updated_at is distinct from expected_updated_at then
+      raise exception 'Product % was changed at %', target_products_id, saved_updated_at
+        using errcode = 'serialization_failure';
+    end if;
+  end if;
+
+  -- Products saved before revisions existed get their current state
+  -- recorded first, so the first tracked update can be undone too
+  if not exists (
+    select 1 from public.product_revisions where products_id = target_products_id
+  ) then
+    perform public.record_product_revision(target_products_id, null);
+  end if;
+
+  if columns is null then
+    select * into updated from public.products where products_id = target_products_id;
+  else
+    execute format(
+      'update public.products set (%1$s) = (select %1$s from jsonb_populate_record(null::public.products, $1)) where products_id = $2 returning *',
+      columns
+    ) using product, target_products_id into updated;
+  end if;
+
+  if updated.products_id is null then
+    raise exception 'Product % not found', target_products_id using errcode = 'no_data_found';
+  end if;
+
+  perform public.sync_product_related(target_products_id, related);
+  perform public.record_product_revision(target_products_id, revision);
+  return updated;
+end;
+$$;
+
+-- Server only: the API routes call them with the service role
+revoke execute on function public.product_revision_snapshot(bigint) from public, anon, authenticated;
+revoke execute on function public.record_product_revision(bigint, jsonb) from public, anon, authenticated;
+revoke execute on function public.create_product_graph(jsonb, jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.update_product_graph(jsonb, jsonb, timestamptz, jsonb) from public, anon, authenticated;
+grant execute on function public.product_revision_snapshot(bigint) to service_role;
+grant execute on function public.record_product_revision(bigint, jsonb) to service_role;
+grant execute on function public.create_product_graph(jsonb, jsonb, jsonb) to service_role;
+grant execute on function public.update_product_graph(jsonb, jsonb, timestamptz, jsonb) to service_role;
@@ -0,0 +1,179 @@
+-- The part of the Supabase project the migrations build on: the roles and
+-- the `auth` helpers Supabase provides, and the catalog tables created
+-- before supabase/migrations existed. Only the columns the admin app reads
+-- or writes are declared.
+
+create role anon nologin;
+create role authenticated nologin;
+create role service_role nologin bypassrls;
+
+create schema auth;
+
+create function auth.uid() returns uuid language sql stable as $$ select null::uuid $$;
+create function auth.role() returns text language sql stable as $$ select 'service_role'::text $$;
+
+create table public.admin_users (
+  id uuid primary key,
+  email text not null,
+  name text,
+  role text not null default 'admin',
+  created_at timestamptz not null default now(),
+  last_login timestamptz
+);
+
+create table public.categories (
+  categories_id bigint generated by default as identity primary key,
+  name text not null,
+  slug text not null,
+  description text,
+  parent_category_id bigint references public.categories (categories_id),
+  image_url text,
+  icon_url text,
+  status text not null default 'active',
+  display_order integer not null default 0,
+  short_banner_url text,
+  long_banner_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.subcategories (
+  id bigint generated by default as identity primary key,
+  category_id bigint not null references public.categories (categories_id) on delete cascade,
+  name text not null,
+  slug text not null,
+  status text not null default 'active',
+  display_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table public.brands (
+  brands_id bigint generated by default as identity primary key,
+  name text not null,
+  slug text not null,
+  description text,
+  image_url text,
+  website text,
+  logo_url text,
+  long_banner_url text,
+  short_banner_url text,
+  status text not null default 'active',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.products (
+  products_id bigint generated by default as identity primary key,
+  name text not null,
+  slug text not null,
+  description text,
+  short_description text,
+  sku text,
+  mark text,
+  category_id bigint references public.categories (categories_id),
+  subcategory_id bigint references public.subcategories (id),
+  brand_id bigint references public.brands (brands_id),
+  price numeric not null default 0,
+  compare_at_price numeric,
+  cost_price numeric,
+  currency_code text not null default 'USD',
+  initial_stock integer,
+  track_inventory boolean not null default true,
+  quantity integer not null default 0,
+  backorderable boolean not null default false,
+  low_stock_threshold numeric not null default 0,
+  reserved_quantity numeric not null default 0,
+  max_stock numeric,
+  weight numeric,
+  weight_unit text default 'kg',
+  dimensions_length numeric,
+  dimensions_width numeric,
+  dimensions_height numeric,
+  dimensions_unit text default 'cm',
+  shipping_required boolean not null default true,
+  shipping_class text,
+  seo_title text,
+  seo_description text,
+  seo_keywords text[],
+  featured_in_collection_slug text,
+  rating_average numeric not null default 0,
+  rating_count integer not null default 0,
+  status text not null default 'draft',
+  is_limited_edition boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.product_images (
+  id bigint generated by default as identity primary key,
+  product_id bigint not null references public.products (products_id) on delete cascade,
+  url text not null,
+  alt text,
+  is_primary boolean not null default false,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table public.product_features (
+  id bigint generated by default as identity primary key,
+  product_id bigint not null references public.products (products_id) on delete cascade,
+  feature_text text not null,
+  icon_url text
+);
+
+create table public.product_tags (
+  id bigint generated by default as identity primary key,
+  product_id bigint not null references public.products (products_id) on delete cascade,
+  tag_text text not null
+);
+
+create table public.product_faqs (
+  faq_id bigint generated by default as identity primary key,
+  product_id bigint not null references public.products (products_id) on delete cascade,
+  question text not null,
+  answer text not null
+);
+
+create table public.product_testimonial_videos (
+  id bigint generated by default as identity primary key,
+  product_id bigint not null references public.products (products_id) on delete cascade,
+  video_url text not null,
+  title text,
+  description text,
+  uploader_name text
+);
+
+create table public.customer_testimonials (
+  id bigint generated by default as identity primary key,
+  products_id bigint references public.products (products_id) on delete cascade,
+  customer_name text not null,
+  testimonial_text text not null,
+  rating numeric,
+  customer_image_url text
+);
+
+create table public.product_variants (
+  id bigint generated by default as identity primary key,
+  product_id bigint not null references public.products (products_id) on delete cascade,
+  name text not null,
+  price numeric,
+  compare_at_price numeric,
+  sku text,
+  quantity integer,
+  image_url text,
+  icon_url text
+);
+
+create table public.variant_attributes (
+  id bigint generated by default as identity primary key,
+  variant_id bigint not null references public.product_variants (id) on delete cascade,
+  name text not null,
+  value text not null
+);
+
+create table public.variant_features (
+  id bigint generated by default as identity primary key,
+  variant_id bigint not null references public.product_variants (id) on delete cascade,
+  feature_text text not null,
+  icon_url text
+);
@@ -0,0 +1,821 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { PGlite, type Transaction } from '@electric-sql/pglite';
+
+// A stand-in Supabase project for the integration tests that need a
+// database: an in-memory Postgres (PGlite) with supabase/migrations applied
+// on top of baseline.sql, served through the part of the PostgREST and auth
+// APIs the admin app uses. The API routes and libraries run unchanged
+// against it, so the database functions, triggers and unique indexes are
+// exercised for real.
+//
+// PGlite is a single connection: statements never run in parallel, but
+// requests still interleave between statements, like two API calls racing
+// each other against a real database.
+//
+// Supported: `select` with embedded resources (by foreign key), aliases and
+// `->`/`->>` paths; the eq, neq, gt, gte, lt, lte, like, ilike, in and is
+// filters (also negated and inside `or`); order, limit, offset and exact
+// counts; insert, upsert, update and delete with `return=representation`;
+// single-object responses; `rpc/<function>`; and `GET /auth/v1/user` for
+// the tokens handed out by `createAdmin`.
+
+const MIGRATIONS_DIR = path.join(__dirname, '../../../supabase/migrations');
+// Needs pg_net and Vault, and only matters for writes outside the API
+const SKIPPED_MIGRATIONS = ['20261019000700_catalog_change_webhook.sql'];
+
+export interface MockDatabase {
+  url: string; // Supabase URL, e.g. http://127.0.0.1:54321
+  db: PGlite;
+  // Runs SQL directly, bypassing the API; returns the rows
+  query<T = Record<string, any>>(sql: string, params?: unknown[]): Promise<T[]>;
+  // Adds an admin user and returns an access token for it
+  createAdmin(email?: string): Promise<string>;
+  // Empties every table and forgets the tokens
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface Relation {
+  table: string;
+  column: string;
+  refTable: string;
+  refColumn: string;
+}
+
+interface Catalog {
+  columns: Map<string, string[]>;
+  primaryKeys: Map<string, string[]>;
+  relations: Relation[];
+}
+
+type SelectItem =
+  | { kind: 'star' }
+  | { kind: 'column'; alias: string; column: string; path: PathStep[] }
+  | {
+      kind: 'embed';
+      alias: string;
+      table: string;
+      inner: boolean;
+      items: SelectItem[];
+    };
+
+interface PathStep {
+  key: string;
+  asText: boolean;
+}
+
+type Condition =
+  | { column: string; operator: string; value: string; negate: boolean }
+  | { group: 'and' | 'or'; conditions: Condition[]; negate: boolean };
+
+type Executor = Pick<PGlite, 'query'> | Transaction;
+
+// An error answered in PostgREST's shape
+class PostgrestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details: string | null = null
+  ) {
+    super(message);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Splits on commas outside parentheses and double quotes
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of input) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// A Postgres array literal, for `= any($n)`
+const arrayLiteral = (values: unknown[]) =>
+  `{${values.map((value) => `"${String(value).replace(/(["\\])/g, '\\$1')}"`).join(',')}}`;
+
+const unquote = (value: string) =>
+  value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+    : value;
+
+function parseColumnPath(spec: string): { column: string; path: PathStep[] } {
+  const [column, ...rest] = spec.split(/(->>|->)/);
+  const path: PathStep[] = [];
+  for (let i = 0; i < rest.length; i += 2) {
+    path.push({ key: rest[i + 1], asText: rest[i] === '->>' });
+  }
+  return { column, path };
+}
+
+function parseSelect(select: string): SelectItem[] {
+  return splitTopLevel(select.replace(/\s+/g, '')).map((item) => {
+    if (item === '*') return { kind: 'star' };
+    const aliasMatch = item.match(/^([A-Za-z0-9_]+):(.*)$/);
+    const alias = aliasMatch?.[1];
+    const spec = aliasMatch ? aliasMatch[2] : item;
+
+    const embed = spec.match(/^([A-Za-z0-9_]+)((?:![A-Za-z0-9_]+)*)\((.*)\)$/);
+    if (embed) {
+      return {
+        kind: 'embed',
+        alias: alias ?? embed[1],
+        table: embed[1],
+        inner: embed[2].split('!').includes('inner'),
+        items: parseSelect(embed[3]),
+      };
+    }
+    const { column, path } = parseColumnPath(spec.replace(/::[a-z]+$/, ''));
+    return {
+      kind: 'column',
+      alias: alias ?? (path.length ? path[path.length - 1].key : column),
+      column,
+      path,
+    };
+  });
+}
+
+// `column.operator.value` (or `column.not.operator.value`) as used in `or`
+function parseLogicItem(item: string): Condition {
+  const group = item.match(/^(not\.)?(and|or)\((.*)\)$/);
+  if (group) {
+    return {
+      group: group[2] as 'and' | 'or',
+      conditions: splitTopLevel(group[3]).map(parseLogicItem),
+      negate: !!group[1],
+    };
+  }
+  const firstDot = item.indexOf('.');
+  return parseOperator(item.slice(0, firstDot), item.slice(firstDot + 1));
+}
+
+// `operator.value` (or `not.operator.value`) of a query string filter
+function parseOperator(column: string, expression: string): Condition {
+  const negate = expression.startsWith('not.');
+  const rest = negate ? expression.slice('not.'.length) : expression;
+  const dot = rest.indexOf('.');
+  return {
+    column,
+    operator: rest.slice(0, dot),
+    value: rest.slice(dot + 1),
+    negate,
+  };
+}
+
+const COMPARISONS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'like',
+  ilike: 'ilike',
+};
+
+function columnSql(spec: string): string {
+  const { column, path } = parseColumnPath(spec);
+  return path.reduce(
+    (sql, step) =>
+      `${sql}${step.asText ? '->>' : '->'}'${step.key.replace(/'/g, "''")}'`,
+    quoteIdent(column)
+  );
+}
+
+function conditionSql(condition: Condition, params: unknown[]): string {
+  let sql: string;
+  if ('group' in condition) {
+    sql = `(${condition.conditions
+      .map((nested) => conditionSql(nested, params))
+      .join(` ${condition.group} `)})`;
+  } else {
+    const column = columnSql(condition.column);
+    const { operator, value } = condition;
+    if (operator === 'is') {
+      const keyword = { null: 'null', true: 'true', false: 'false' }[
+        value.toLowerCase()
+      ];
+      if (!keyword) {
+        throw new PostgrestError(400, 'PGRST100', `Invalid is value: ${value}`);
+      }
+      sql = `${column} is ${keyword}`;
+    } else if (operator === 'in') {
+      const items = splitTopLevel(value.replace(/^\(|\)$/g, '')).map(unquote);
+      params.push(arrayLiteral(items));
+      sql = `${column} = any($${params.length})`;
+    } else if (COMPARISONS[operator]) {
+      params.push(
+        operator.endsWith('like') ? value.replace(/\*/g, '%') : unquote(value)
+      );
+      sql = `${column} ${COMPARISONS[operator]} $${params.length}`;
+    } else {
+      throw new PostgrestError(
+        400,
+        'PGRST100',
+        `Unsupported operator: ${operator}`
+      );
+    }
+  }
+  return condition.negate ? `not (${sql})` : sql;
+}
+
+const RESERVED_PARAMS = new Set([
+  'select',
+  'order',
+  'limit',
+  'offset',
+  'on_conflict',
+  'columns',
+]);
+
+function whereSql(search: URLSearchParams, params: unknown[]): string {
+  const conditions: Condition[] = [];
+  for (const [key, value] of search.entries()) {
+    if (RESERVED_PARAMS.has(key)) continue;
+    if (
+      key === 'or' ||
+      key === 'and' ||
+      key === 'not.or' ||
+      key === 'not.and'
+    ) {
+      conditions.push(parseLogicItem(`${key}${value}`));
+    } else {
+      conditions.push(parseOperator(key, value));
+    }
+  }
+  return conditions.length
+    ? ` where ${conditions.map((c) => conditionSql(c, params)).join(' and ')}`
+    : '';
+}
+
+function orderSql(search: URLSearchParams): string {
+  const order = search.get('order');
+  if (!order) return '';
+  const terms = order.split(',').map((term) => {
+    const [column, ...modifiers] = term.split('.');
+    return [
+      columnSql(column),
+      modifiers.includes('desc') ? 'desc' : 'asc',
+      modifiers.includes('nullsfirst') ? 'nulls first' : '',
+      modifiers.includes('nullslast') ? 'nulls last' : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+  });
+  return ` order by ${terms.join(', ')}`;
+}
+
+function readPath(
+  row: Record<string, any>,
+  item: { column: string; path: PathStep[] }
+) {
+  let value: unknown = row[item.column];
+  for (const step of item.path) {
+    value =
+      value && typeof value === 'object'
+        ? (value as Record<string, unknown>)[step.key]
+        : undefined;
+    if (step.asText && value !== undefined && value !== null) {
+      value = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  }
+  return value ?? null;
+}
+
+async function loadCatalog(db: PGlite): Promise<Catalog> {
+  const columns = new Map<string, string[]>();
+  const { rows: columnRows } = await db.query<{
+    table_name: string;
+    column_name: string;
+  }>(
+    `select table_name, column_name from information_schema.columns
+     where table_schema = 'public' order by table_name, ordinal_position`
+  );
+  columnRows.forEach(({ table_name, column_name }) => {
+    columns.set(table_name, [...(columns.get(table_name) || []), column_name]);
+  });
+
+  const { rows: keyRows } = await db.query<{
+    table_name: string;
+    columns: string[];
+  }>(
+    `select con.conrelid::regclass::text as table_name,
+            array(select attname from pg_attribute
+                  where attrelid = con.conrelid and attnum = any(con.conkey)) as columns
+     from pg_constraint con
+     where con.contype = 'p' and con.connamespace = 'public'::regnamespace`
+  );
+  const primaryKeys = new Map(
+    keyRows.map((row) => [row.table_name, row.columns])
+  );
+
+  const { rows: relations } = await db.query<Relation>(
+    `select con.conrelid::regclass::text as "table",
+            local.attname as "column",
+            con.confrelid::regclass::text as "refTable",
+            referenced.attname as "refColumn"
+     from pg_constraint con
+     join pg_attribute local
+       on local.attrelid = con.conrelid and local.attnum = con.conkey[1]
+     join pg_attribute referenced
+       on referenced.attrelid = con.confrelid and referenced.attnum = con.confkey[1]
+     where con.contype = 'f'
+       and con.connamespace = 'public'::regnamespace
+       and array_length(con.conkey, 1) = 1`
+  );
+  return { columns, primaryKeys, relations };
+}
+
+/**
+ * Starts a mock Supabase project with a fresh in-memory database.
+ *
+ * @returns {Promise<MockDatabase>} The running project; close it when done.
+ */
+export async function startMockDatabase(): Promise<MockDatabase> {
+  const db = new PGlite();
+  await db.exec(readFileSync(path.join(__dirname, 'baseline.sql'), 'utf8'));
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    if (!file.endsWith('.sql') || SKIPPED_MIGRATIONS.includes(file)) continue;
+    await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+  const catalog = await loadCatalog(db);
+  const users = new Map<string, { id: string; email: string }>();
+
+  function tableColumns(table: string): string[] {
+    const columns = catalog.columns.get(table);
+    if (!columns) {
+      throw new PostgrestError(
+        404,
+        '42P01',
+        `relation "public.${table}" does not exist`
+      );
+    }
+    return columns;
+  }
+
+  // Projects full rows of `table` onto the select items, loading embedded
+  // resources with one query per embed and level
+  async function shapeRows(
+    executor: Executor,
+    table: string,
+    rows: Record<string, any>[],
+    items: SelectItem[]
+  ): Promise<Record<string, unknown>[]> {
+    const shaped = rows.map(() => ({}) as Record<string, unknown>);
+    const keep = rows.map(() => true);
+
+    for (const item of items) {
+      if (item.kind === 'star') {
+        tableColumns(table).forEach((column) =>
+          rows.forEach((row, i) => (shaped[i][column] = row[column]))
+        );
+      } else if (item.kind === 'column') {
+        rows.forEach((row, i) => (shaped[i][item.alias] = readPath(row, item)));
+      } else {
+        const toOne = catalog.relations.find(
+          (relation) =>
+            relation.table === table && relation.refTable === item.table
+        );
+        const toMany = catalog.relations.find(
+          (relation) =>
+            relation.table === item.table && relation.refTable === table
+        );
+        const relation = toOne ?? toMany;
+        if (!relation) {
+          throw new PostgrestError(
+            400,
+            'PGRST200',
+            `Could not find a relationship between '${table}' and '${item.table}'`
+          );
+        }
+        const localColumn = toOne ? relation.column : relation.refColumn;
+        const remoteColumn = toOne ? relation.refColumn : relation.column;
+        const keys = Array.from(
+          new Set(
+            rows.map((row) => row[localColumn]).filter((key) => key != null)
+          )
+        );
+        const { rows: related } = keys.length
+          ? await executor.query<{ row: Record<string, any> }>(
+              `select to_json(t) as row from public.${quoteIdent(item.table)} t
+               where ${quoteIdent(remoteColumn)} = any($1)`,
+              [arrayLiteral(keys)]
+            )
+          : { rows: [] };
+        const relatedRows = related.map(({ row }) => row);
+        const relatedShaped = await shapeRows(
+          executor,
+          item.table,
+          relatedRows,
+          item.items
+        );
+        rows.forEach((row, i) => {
+          const matches = relatedShaped.filter(
+            (_, j) =>
+              row[localColumn] != null &&
+              relatedRows[j][remoteColumn] === row[localColumn]
+          );
+          shaped[i][item.alias] = toOne ? (matches[0] ?? null) : matches;
+          if (item.inner && matches.length === 0) keep[i] = false;
+        });
+      }
+    }
+    return shaped.filter((_, i) => keep[i]);
+  }
+
+  async function handleRead(
+    table: string,
+    search: URLSearchParams,
+    prefer: string,
+    head: boolean
+  ) {
+    tableColumns(table);
+    const params: unknown[] = [];
+    const where = whereSql(search, params);
+    const limit = search.get('limit');
+    const offset = Number(search.get('offset') || 0);
+    const { rows } = head
+      ? { rows: [] }
+      : await db.query<{ row: Record<string, any> }>(
+          `select to_json(t) as row from public.${quoteIdent(table)} t${where}${orderSql(search)}` +
+            (limit ? ` limit ${Number(limit)}` : '') +
+            (offset ? ` offset ${offset}` : ''),
+          params
+        );
+    const data = await shapeRows(
+      db,
+      table,
+      rows.map(({ row }) => row),
+      parseSelect(search.get('select') || '*')
+    );
+
+    const headers: Record<string, string> = {};
+    if (/count=(exact|planned|estimated)/.test(prefer)) {
+      const { rows: countRows } = await db.query<{ count: number }>(
+        `select count(*)::int as count from public.${quoteIdent(table)} t${where}`,
+        params
+      );
+      headers['Content-Range'] =
+        data.length > 0
+          ? `${offset}-${offset + data.length - 1}/${countRows[0].count}`
+          : `*/${countRows[0].count}`;
+    }
+    return { data, headers };
+  }
+
+  async function handleWrite(
+    method: string,
+    table: string,
+    search: URLSearchParams,
+    prefer: string,
+    body: unknown,
+    single: boolean
+  ) {
+    const columns = tableColumns(table);
+    const checkColumns = (keys: string[]) => {
+      const unknown = keys.find((key) => !columns.includes(key));
+      if (unknown) {
+        throw new PostgrestError(
+          400,
+          'PGRST204',
+          `Could not find the '${unknown}' column of '${table}' in the schema cache`
+        );
+      }
+    };
+    const target = `public.${quoteIdent(table)}`;
+
+    return db.transaction(async (tx) => {
+      let rows: { row: Record<string, any> }[];
+      if (method === 'POST') {
+        const records = (Array.isArray(body) ? body : [body]) as Record<
+          string,
+          unknown
+        >[];
+        const keys =
+          search.get('columns')?.split(',') ??
+          Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+        checkColumns(keys);
+        const list = keys.map(quoteIdent).join(', ');
+        let conflict = '';
+        if (prefer.includes('resolution=')) {
+          const conflictColumns =
+            search.get('on_conflict')?.split(',') ??
+            catalog.primaryKeys.get(table) ??
+            [];
+          conflict = ` on conflict (${conflictColumns.map(quoteIdent).join(', ')}) ${
+            prefer.includes('resolution=ignore-duplicates')
+              ? 'do nothing'
+              : `do update set ${keys
+                  .map(
+                    (key) => `${quoteIdent(key)} = excluded.${quoteIdent(key)}`
+                  )
+                  .join(', ')}`
+          }`;
+        }
+        ({ rows } = await tx.query<{ row: Record<string, any> }>(
+          `insert into ${target} as t (${list})
+           select ${list} from json_populate_recordset(null::${target}, $1::json)${conflict}
+           returning to_json(t) as row`,
+          [JSON.stringify(records)]
+        ));
+      } else if (method === 'PATCH') {
+        const keys = Object.keys(body as object);
+        checkColumns(keys);
+        const list = keys.map(quoteIdent).join(', ');
+        const params: unknown[] = [JSON.stringify(body)];
+        ({ rows } = await tx.query<{ row: Record<string, any> }>(
+          `update ${target} as t
+           set (${list}) = (select ${list} from json_populate_record(null::${target}, $1::json))
+           ${whereSql(search, params)}
+           returning to_json(t) as row`,
+          params
+        ));
+      } else {
+        const params: unknown[] = [];
+        ({ rows } = await tx.query<{ row: Record<string, any> }>(
+          `delete from ${target} as t${whereSql(search, params)} returning to_json(t) as row`,
+          params
+        ));
+      }
+      // PostgREST rolls back a single-object write that hit several rows
+      if (single && rows.length > 1) throw singleObjectError(rows.length);
+      return rows.map(({ row }) => row);
+    });
+  }
+
+  async function handleRpc(name: string, args: Record<string, unknown>) {
+    const { rows: candidates } = await db.query<{
+      argnames: string[] | null;
+      argtypes: string[];
+      rettype: string;
+      retset: boolean;
+    }>(
+      `select p.proargnames as argnames,
+              array(select format_type(t, null) from unnest(p.proargtypes) as t) as argtypes,
+              format_type(p.prorettype, null) as rettype,
+              p.proretset as retset
+       from pg_proc p
+       where p.pronamespace = 'public'::regnamespace and p.proname = $1`,
+      [name]
+    );
+    const fn = candidates
+      .filter((candidate) =>
+        Object.keys(args).every((key) => candidate.argnames?.includes(key))
+      )
+      .sort((a, b) => a.argtypes.length - b.argtypes.length)[0];
+    if (!fn) {
+      throw new PostgrestError(
+        404,
+        'PGRST202',
+        `Could not find the function public.${name} in the schema cache`
+      );
+    }
+
+    const params: unknown[] = [];
+    const namedArgs = Object.entries(args).map(([key, value]) => {
+      const type = fn.argtypes[fn.argnames!.indexOf(key)];
+      params.push(
+        value === null
+          ? null
+          : typeof value === 'object' || type === 'jsonb' || type === 'json'
+            ? JSON.stringify(value)
+            : String(value)
+      );
+      return `${quoteIdent(key)} => $${params.length}::${type}`;
+    });
+    const call = `public.${quoteIdent(name)}(${namedArgs.join(', ')})`;
+
+    if (fn.rettype === 'void') {
+      await db.query(`select ${call}`, params);
+      return { result: null, returnType: fn.rettype };
+    }
+    const { rows } = await db.query<{ result: unknown }>(
+      fn.retset
+        ? `select coalesce(json_agg(r), '[]'::json) as result from ${call} as r`
+        : `select to_json(${call}) as result`,
+      params
+    );
+    return { result: rows[0].result, returnType: fn.rettype };
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+
+    if (url.pathname === '/auth/v1/user') {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const user = users.get(token);
+      if (!user) {
+        sendJson(res, 401, {
+          code: 401,
+          error_code: 'bad_jwt',
+          msg: 'invalid JWT',
+        });
+        return;
+      }
+      sendJson(res, 200, {
+        id: user.id,
+        aud: 'authenticated',
+        role: 'authenticated',
+        email: user.email,
+        app_metadata: {},
+        user_metadata: {},
+        created_at: new Date(0).toISOString(),
+      });
+      return;
+    }
+
+    const match = url.pathname.match(/^\/rest\/v1\/(rpc\/)?([A-Za-z0-9_]+)$/);
+    if (!match) {
+      sendJson(res, 404, { message: `No route for ${url.pathname}` });
+      return;
+    }
+    const [, isRpc, name] = match;
+    const prefer = String(req.headers.prefer || '');
+    const single = String(req.headers.accept || '').includes(
+      'application/vnd.pgrst.object+json'
+    );
+    const rawBody = await readBody(req);
+    const body = rawBody ? JSON.parse(rawBody) : undefined;
+
+    try {
+      if (isRpc) {
+        const { result, returnType } = await handleRpc(name, body || {});
+        if (result === null) {
+          res.writeHead(204).end();
+          return;
+        }
+        // A function returning table rows is selected from like the table
+        const select = url.searchParams.get('select');
+        if (!select || !catalog.columns.has(returnType)) {
+          sendJson(res, 200, result);
+          return;
+        }
+        const rows = Array.isArray(result) ? result : [result];
+        const data = await shapeRows(db, returnType, rows, parseSelect(select));
+        if (single || !Array.isArray(result)) {
+          if (data.length !== 1) throw singleObjectError(data.length);
+          sendJson(res, 200, data[0]);
+        } else {
+          sendJson(res, 200, data);
+        }
+        return;
+      }
+
+      let data: Record<string, unknown>[];
+      let headers: Record<string, string> = {};
+      if (method === 'GET' || method === 'HEAD') {
+        ({ data, headers } = await handleRead(
+          name,
+          url.searchParams,
+          prefer,
+          method === 'HEAD'
+        ));
+        if (method === 'HEAD') {
+          res.writeHead(200, headers).end();
+          return;
+        }
+      } else {
+        const rows = await handleWrite(
+          method,
+          name,
+          url.searchParams,
+          prefer,
+          body,
+          single
+        );
+        if (!prefer.includes('return=representation')) {
+          res.writeHead(method === 'POST' ? 201 : 204).end();
+          return;
+        }
+        data = await shapeRows(
+          db,
+          name,
+          rows,
+          parseSelect(url.searchParams.get('select') || '*')
+        );
+      }
+
+      if (single) {
+        if (data.length !== 1) throw singleObjectError(data.length);
+        sendJson(res, 200, data[0], headers);
+      } else {
+        sendJson(res, method === 'POST' ? 201 : 200, data, headers);
+      }
+    } catch (error: any) {
+      if (error instanceof PostgrestError) {
+        sendJson(res, error.status, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          hint: null,
+        });
+        return;
+      }
+      // A Postgres error, answered with PostgREST's status for its class
+      const code: string = error.code || 'XX000';
+      sendJson(res, code.startsWith('23') ? 409 : 400, {
+        code,
+        message: error.message,
+        details: error.detail ?? null,
+        hint: error.hint ?? null,
+      });
+    }
+  }
+
+  const sockets = new Set<Socket>();
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      sendJson(res, 500, { message: String(error?.message || error) });
+    });
+  });
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    db,
+    async query<T = Record<string, any>>(sql: string, params: unknown[] = []) {
+      const { rows } = await db.query<T>(sql, params);
+      return rows;
+    },
+    async createAdmin(email = 'admin@example.com') {
+      const id = randomUUID();
+      await db.query(
+        `insert into public.admin_users (id, email) values ($1, $2)`,
+        [id, email]
+      );
+      const token = `token-${randomUUID()}`;
+      users.set(token, { id, email });
+      return token;
+    },
+    async reset() {
+      const tables = Array.from(catalog.columns.keys())
+        .map((table) => `public.${quoteIdent(table)}`)
+        .join(', ');
+      await db.exec(`truncate ${tables} restart identity cascade`);
+      users.clear();
+    },
+    async close() {
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await db.close();
+    },
+  };
+}
+
+function singleObjectError(count: number) {
+  return new PostgrestError(
+    406,
+    'PGRST116',
+    'JSON object requested, multiple (or no) rows returned',
+    `The result contains ${count} rows`
+  );
+}
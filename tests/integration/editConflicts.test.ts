@@ -0,0 +1,174 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+import { postJson } from './routes';
+
+// Saves over a version another editor changed, through the update routes
+// against a database (see tests/integration/database/server.ts). The other
+// editor's save is written straight to the table.
+
+let database: MockDatabase;
+let productRoute: typeof import('../../app/api/products/update/route');
+let categoryRoute: typeof import('../../app/api/categories/update/route');
+let brandRoute: typeof import('../../app/api/brands/update/route');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  productRoute = await import('../../app/api/products/update/route');
+  categoryRoute = await import('../../app/api/categories/update/route');
+  brandRoute = await import('../../app/api/brands/update/route');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+// Inserts a row saved a minute ago and returns its ID and `updated_at` as
+// the edit page loads it
+async function insertSaved(
+  table: string,
+  idColumn: string,
+  values: Record<string, unknown>
+) {
+  const columns = Object.keys(values);
+  const [row] = await database.query<{ id: number; updated_at: string }>(
+    `insert into public.${table} (${columns.join(', ')}, updated_at)
+     values (${columns.map((_, i) => `$${i + 1}`).join(', ')}, now() - interval '1 minute')
+     returning ${idColumn} as id, to_json(updated_at) #>> '{}' as updated_at`,
+    Object.values(values)
+  );
+  return row;
+}
+
+describe('stale saves', () => {
+  test('rejects a stale product save and flags the field both editors changed', async () => {
+    const loaded = { name: 'Desk Lamp', slug: 'desk-lamp', price: 10 };
+    const product = await insertSaved('products', 'products_id', loaded);
+    await database.query(
+      `update public.products set price = 15 where products_id = $1`,
+      [product.id]
+    );
+
+    const { status, body } = await postJson(
+      productRoute.POST,
+      '/api/products/update',
+      {
+        ...loaded,
+        products_id: product.id,
+        price: 12,
+        updated_at: product.updated_at,
+        base: loaded,
+      }
+    );
+
+    assert.equal(status, 409);
+    assert.deepEqual(body.conflict.changes, [
+      { field: 'price', from: 15, to: 12 },
+    ]);
+    assert.deepEqual(body.conflict.theirs, []);
+    assert.notEqual(body.conflict.updated_at, product.updated_at);
+    const [saved] = await database.query<{ price: string }>(
+      `select price::text from public.products where products_id = $1`,
+      [product.id]
+    );
+    assert.equal(saved.price, '15');
+  });
+
+  test('keeps the fields only the other editor changed out of the conflict', async () => {
+    const loaded = {
+      name: 'Lamps',
+      slug: 'lamps',
+      status: 'active',
+      display_order: 1,
+    };
+    const category = await insertSaved('categories', 'categories_id', loaded);
+    await database.query(
+      `update public.categories set display_order = 2 where categories_id = $1`,
+      [category.id]
+    );
+
+    const { status, body } = await postJson(
+      categoryRoute.POST,
+      '/api/categories/update',
+      {
+        ...loaded,
+        categories_id: category.id,
+        status: 'draft',
+        updated_at: category.updated_at,
+        base: loaded,
+      }
+    );
+
+    assert.equal(status, 409);
+    assert.deepEqual(body.conflict.changes, []);
+    assert.deepEqual(body.conflict.theirs, ['display_order']);
+
+    // Saving again as the edit page does keeps both changes
+    const retry = await postJson(categoryRoute.POST, '/api/categories/update', {
+      name: 'Lamps',
+      slug: 'lamps',
+      categories_id: category.id,
+      status: 'draft',
+      updated_at: body.conflict.updated_at,
+    });
+    assert.equal(retry.status, 200, JSON.stringify(retry.body));
+    const [saved] = await database.query<Record<string, unknown>>(
+      `select status, display_order, to_json(updated_at) #>> '{}' as updated_at
+       from public.categories`
+    );
+    assert.deepEqual(saved, {
+      status: 'draft',
+      display_order: 2,
+      updated_at: retry.body.updatedCategory.updated_at,
+    });
+    // The response is the row as written, for the next save to send
+    assert.notEqual(saved.updated_at, body.conflict.updated_at);
+    assert.equal(retry.body.updatedCategory.display_order, 2);
+  });
+
+  test('rejects a stale brand save', async () => {
+    const loaded = {
+      name: 'Lumen',
+      slug: 'lumen',
+      description: 'Lamps',
+      website: 'https://lumen.example.com',
+    };
+    const brand = await insertSaved('brands', 'brands_id', loaded);
+    await database.query(
+      `update public.brands set description = 'Lamps and shades' where brands_id = $1`,
+      [brand.id]
+    );
+
+    const { status, body } = await postJson(
+      brandRoute.POST,
+      '/api/brands/update',
+      {
+        ...loaded,
+        brands_id: brand.id,
+        description: 'Desk lamps',
+        website: 'https://lumen.example.org',
+        updated_at: brand.updated_at,
+        base: loaded,
+      }
+    );
+
+    assert.equal(status, 409);
+    assert.deepEqual(body.conflict.changes, [
+      { field: 'description', from: 'Lamps and shades', to: 'Desk lamps' },
+    ]);
+    assert.deepEqual(body.conflict.theirs, []);
+    const [saved] = await database.query(
+      `select description, website from public.brands`
+    );
+    assert.deepEqual(saved, {
+      description: 'Lamps and shades',
+      website: 'https://lumen.example.com',
+    });
+  });
+});
@@ -0,0 +1,16 @@
+// Environment for the integration tests, imported before any module under
+// test because `lib/supabase.ts` reads it at import time. The database URL
+// points at a closed port: the pipeline falls back to the environment
+// storefront list and to direct delivery when it cannot reach the database,
+// which is exactly the path these tests exercise. Tests that need a
+// database start one (see tests/integration/database/server.ts) and point
+// the URL at it before importing the code under test.
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://127.0.0.1:9';
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'integration-test';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'integration-test';
+process.env.REVALIDATION_SECRET = 'integration-secret';
+process.env.REVALIDATION_BATCH_WINDOW_MS = '0';
+process.env.REVALIDATION_REQUEST_TIMEOUT_MS = '1000';
+process.env.STOREFRONT_HEALTH_CHECK_TIMEOUT_MS = '1000';
+delete process.env.REVALIDATION_SECRET_PREVIOUS;
+delete process.env.REVALIDATION_WARMUP_ENABLED;
@@ -0,0 +1,261 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+import { postJson } from './routes';
+
+// Saves products with their related rows through the create and update
+// routes against a database (see tests/integration/database/server.ts).
+
+let database: MockDatabase;
+let createRoute: typeof import('../../app/api/products/create/route');
+let updateRoute: typeof import('../../app/api/products/update/route');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  createRoute = await import('../../app/api/products/create/route');
+  updateRoute = await import('../../app/api/products/update/route');
+
+  // Fails a write halfway through the graph, after the product row
+  await database.db.exec(`
+    create function public.reject_broken_variant() returns trigger
+    language plpgsql as $$
+    begin
+      if new.name = 'Broken' then
+        raise exception 'Variant rejected';
+      end if;
+      return new;
+    end;
+    $$;
+    create trigger reject_broken_variant
+      before insert or update on public.product_variants
+      for each row execute function public.reject_broken_variant();
+  `);
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+async function createProduct(fields: Record<string, unknown>) {
+  const { status, body } = await postJson(
+    createRoute.POST,
+    '/api/products/create',
+    { name: 'Desk Lamp', price: 10, ...fields }
+  );
+  assert.equal(status, 201, JSON.stringify(body));
+  return body.product.products_id as number;
+}
+
+async function updateProduct(
+  productsId: number,
+  fields: Record<string, unknown>
+) {
+  const [{ updated_at }] = await database.query<{ updated_at: string }>(
+    `select to_json(updated_at) #>> '{}' as updated_at
+     from public.products where products_id = $1`,
+    [productsId]
+  );
+  return postJson(updateRoute.POST, '/api/products/update', {
+    products_id: productsId,
+    updated_at,
+    ...fields,
+  });
+}
+
+async function count(table: string) {
+  const [{ count }] = await database.query<{ count: number }>(
+    `select count(*)::int as count from public.${table}`
+  );
+  return count;
+}
+
+describe('product graph writes', () => {
+  test('creates the product with its related rows', async () => {
+    const productsId = await createProduct({
+      images: [
+        'https://cdn.example.com/a.jpg',
+        'https://cdn.example.com/b.jpg',
+      ],
+      features: [{ feature_text: 'Dimmable' }],
+      tags: ['lighting'],
+      variants: [
+        { name: 'Brass', attributes: [{ name: 'Finish', value: 'Brass' }] },
+      ],
+    });
+
+    const images = await database.query<{ url: string; is_primary: boolean }>(
+      `select url, is_primary from public.product_images
+       where product_id = $1 order by sort_order`,
+      [productsId]
+    );
+    assert.deepEqual(images, [
+      { url: 'https://cdn.example.com/a.jpg', is_primary: true },
+      { url: 'https://cdn.example.com/b.jpg', is_primary: false },
+    ]);
+    assert.equal(await count('product_features'), 1);
+    assert.equal(await count('product_tags'), 1);
+    assert.equal(await count('variant_attributes'), 1);
+  });
+
+  test('creates nothing when a related row fails', async () => {
+    const { status } = await postJson(
+      createRoute.POST,
+      '/api/products/create',
+      {
+        name: 'Desk Lamp',
+        price: 10,
+        images: ['https://cdn.example.com/a.jpg'],
+        features: [{ feature_text: 'Dimmable' }],
+        variants: [{ name: 'Broken' }],
+      }
+    );
+
+    assert.equal(status, 500);
+    assert.equal(await count('products'), 0);
+    assert.equal(await count('product_images'), 0);
+    assert.equal(await count('product_features'), 0);
+  });
+
+  test('leaves the product as it was when an update fails', async () => {
+    const productsId = await createProduct({
+      features: [{ feature_text: 'Dimmable' }],
+    });
+
+    const { status } = await updateProduct(productsId, {
+      price: 20,
+      features: [{ feature_text: 'Cordless' }],
+      variants: [{ name: 'Broken' }],
+    });
+
+    assert.equal(status, 500);
+    const [product] = await database.query<{ price: string }>(
+      `select price::text from public.products where products_id = $1`,
+      [productsId]
+    );
+    assert.equal(product.price, '10');
+    const features = await database.query<{ feature_text: string }>(
+      `select feature_text from public.product_features`
+    );
+    assert.deepEqual(features, [{ feature_text: 'Dimmable' }]);
+  });
+});
+
+describe('product related row sync', () => {
+  test('keeps the IDs of rows that are still listed', async () => {
+    const productsId = await createProduct({
+      features: [{ feature_text: 'Dimmable' }, { feature_text: 'Cordless' }],
+      faqs: [{ question: 'Bulb included?', answer: 'Yes' }],
+      variants: [{ name: 'Small', attributes: [{ name: 'Size', value: 'S' }] }],
+    });
+    const [dimmable, cordless] = await database.query<{ id: number }>(
+      `select id from public.product_features order by id`
+    );
+    const [faq] = await database.query<{ faq_id: number }>(
+      `select faq_id from public.product_faqs`
+    );
+    const [variant] = await database.query<{ id: number }>(
+      `select id from public.product_variants`
+    );
+    const [attribute] = await database.query<{ id: number }>(
+      `select id from public.variant_attributes`
+    );
+
+    const { status } = await updateProduct(productsId, {
+      features: [
+        { id: dimmable.id, feature_text: 'Dimmable to 10%' },
+        { feature_text: 'USB-C' },
+      ],
+      faqs: [{ id: faq.faq_id, question: 'Bulb included?', answer: 'No' }],
+      variants: [
+        {
+          id: variant.id,
+          name: 'Small',
+          attributes: [{ id: attribute.id, name: 'Size', value: 'XS' }],
+        },
+      ],
+    });
+
+    assert.equal(status, 200);
+    const features = await database.query<{ id: number; feature_text: string }>(
+      `select id, feature_text from public.product_features order by id`
+    );
+    assert.equal(features.length, 2);
+    assert.deepEqual(features[0], {
+      id: dimmable.id,
+      feature_text: 'Dimmable to 10%',
+    });
+    assert.equal(features[1].feature_text, 'USB-C');
+    assert.ok(features.every((feature) => feature.id !== cordless.id));
+    assert.deepEqual(
+      await database.query(`select faq_id, answer from public.product_faqs`),
+      [{ faq_id: faq.faq_id, answer: 'No' }]
+    );
+    assert.deepEqual(
+      await database.query(`select id from public.product_variants`),
+      [{ id: variant.id }]
+    );
+    assert.deepEqual(
+      await database.query(`select id, value from public.variant_attributes`),
+      [{ id: attribute.id, value: 'XS' }]
+    );
+  });
+
+  test('stores an image listed twice once and keeps image IDs on reorder', async () => {
+    const lamp = 'https://cdn.example.com/lamp.jpg';
+    const shade = 'https://cdn.example.com/shade.jpg';
+    const productsId = await createProduct({ images: [lamp, shade, lamp] });
+    const before = await database.query<{ id: number; url: string }>(
+      `select id, url from public.product_images order by sort_order`
+    );
+    assert.deepEqual(
+      before.map((image) => image.url),
+      [lamp, shade]
+    );
+
+    const { status } = await updateProduct(productsId, {
+      images: [shade, lamp, shade],
+    });
+
+    assert.equal(status, 200);
+    const images = await database.query<{
+      id: number;
+      url: string;
+      is_primary: boolean;
+    }>(
+      `select id, url, is_primary from public.product_images order by sort_order`
+    );
+    assert.deepEqual(images, [
+      { id: before[1].id, url: shade, is_primary: true },
+      { id: before[0].id, url: lamp, is_primary: false },
+    ]);
+  });
+
+  test('keeps the rows of arrays the update leaves out', async () => {
+    const productsId = await createProduct({
+      images: ['https://cdn.example.com/lamp.jpg'],
+      features: [{ feature_text: 'Dimmable' }],
+      tags: ['lighting'],
+    });
+    const before = await database.query(
+      `select id, feature_text from public.product_features`
+    );
+
+    const { status } = await updateProduct(productsId, { price: 12 });
+
+    assert.equal(status, 200);
+    assert.deepEqual(
+      await database.query(
+        `select id, feature_text from public.product_features`
+      ),
+      before
+    );
+    assert.equal(await count('product_images'), 1);
+    assert.equal(await count('product_tags'), 1);
+  });
+});
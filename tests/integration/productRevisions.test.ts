@@ -0,0 +1,205 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+import { postJson } from './routes';
+
+// Records and restores product revisions through the create and update
+// routes against a database (see tests/integration/database/server.ts).
+
+let database: MockDatabase;
+let createRoute: typeof import('../../app/api/products/create/route');
+let updateRoute: typeof import('../../app/api/products/update/route');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  createRoute = await import('../../app/api/products/create/route');
+  updateRoute = await import('../../app/api/products/update/route');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+interface Revision {
+  id: number;
+  snapshot: Record<string, any>;
+  author_email: string | null;
+  restored_from: number | null;
+}
+
+async function postUpdate(
+  productsId: number,
+  fields: Record<string, unknown>,
+  token?: string
+) {
+  const [{ updated_at }] = await database.query<{ updated_at: string }>(
+    `select to_json(updated_at) #>> '{}' as updated_at
+     from public.products where products_id = $1`,
+    [productsId]
+  );
+  return postJson(
+    updateRoute.POST,
+    '/api/products/update',
+    { products_id: productsId, updated_at, ...fields },
+    token
+  );
+}
+
+async function updateProduct(
+  productsId: number,
+  fields: Record<string, unknown>,
+  token?: string
+) {
+  const response = await postUpdate(productsId, fields, token);
+  assert.equal(response.status, 200, JSON.stringify(response.body));
+}
+
+async function insertProduct() {
+  const [{ products_id }] = await database.query<{ products_id: number }>(
+    `insert into public.products (name, slug, description)
+     values ('Desk Lamp', 'desk-lamp', 'Original')
+     returning products_id`
+  );
+  return products_id;
+}
+
+function revisions() {
+  return database.query<Revision>(
+    `select id, snapshot, author_email, restored_from
+     from public.product_revisions order by id`
+  );
+}
+
+describe('product revisions', () => {
+  test('records a baseline before the first update of an older product', async () => {
+    const token = await database.createAdmin('editor@example.com');
+    const products_id = await insertProduct();
+
+    await updateProduct(products_id, { description: 'Edited' }, token);
+
+    const saved = await revisions();
+    assert.deepEqual(
+      saved.map((revision) => [
+        revision.snapshot.description,
+        revision.author_email,
+      ]),
+      [
+        ['Original', null],
+        ['Edited', 'editor@example.com'],
+      ]
+    );
+  });
+
+  test('restores a revision, rows deleted since included', async () => {
+    const { body } = await postJson(createRoute.POST, '/api/products/create', {
+      name: 'Desk Lamp',
+      price: 10,
+      description: 'Original',
+      features: [{ feature_text: 'Dimmable' }, { feature_text: 'Cordless' }],
+      variants: [{ name: 'Small', attributes: [{ name: 'Size', value: 'S' }] }],
+    });
+    const productsId: number = body.product.products_id;
+    const [dimmable] = await database.query<{ id: number }>(
+      `select id from public.product_features where feature_text = 'Dimmable'`
+    );
+    await updateProduct(productsId, {
+      description: 'Broken',
+      features: [{ id: dimmable.id, feature_text: 'Dimmable' }],
+      variants: [],
+    });
+
+    // Saved back the way the History tab does
+    const [original] = await revisions();
+    const { snapshot } = original;
+    await updateProduct(productsId, {
+      name: snapshot.name,
+      slug: snapshot.slug,
+      description: snapshot.description,
+      features: snapshot.product_features,
+      variants: snapshot.product_variants.map((variant: any) => ({
+        id: variant.id,
+        name: variant.name,
+        attributes: variant.variant_attributes,
+      })),
+      restored_from: original.id,
+    });
+
+    const [product] = await database.query(
+      `select description from public.products`
+    );
+    assert.deepEqual(product, { description: 'Original' });
+    const features = await database.query<{ feature_text: string }>(
+      `select feature_text from public.product_features order by feature_text`
+    );
+    assert.deepEqual(
+      features.map((feature) => feature.feature_text),
+      ['Cordless', 'Dimmable']
+    );
+    assert.deepEqual(
+      await database.query(
+        `select variant.name, attribute.value
+         from public.product_variants variant
+         join public.variant_attributes attribute on attribute.variant_id = variant.id`
+      ),
+      [{ name: 'Small', value: 'S' }]
+    );
+
+    const saved = await revisions();
+    assert.equal(saved.length, 3);
+    assert.equal(saved[2].restored_from, original.id);
+    assert.equal(saved[2].snapshot.description, 'Original');
+  });
+
+  test('records nothing for a save that is refused', async () => {
+    const productsId = await insertProduct();
+    const { status } = await postJson(
+      updateRoute.POST,
+      '/api/products/update',
+      {
+        products_id: productsId,
+        description: 'Edited',
+        updated_at: '2000-01-01T00:00:00+00:00',
+      }
+    );
+
+    assert.equal(status, 409);
+    assert.deepEqual(await revisions(), []);
+  });
+
+  test('fails the save when its revision cannot be recorded', async () => {
+    const productsId = await insertProduct();
+    await database.db.exec(`
+      create function public.reject_revision() returns trigger
+      language plpgsql as $$
+      begin
+        raise exception 'Revision rejected';
+      end;
+      $$;
+      create trigger reject_revision
+        before insert on public.product_revisions
+        for each row execute function public.reject_revision();
+    `);
+    try {
+      const { status } = await postUpdate(productsId, {
+        description: 'Edited',
+      });
+
+      assert.equal(status, 500);
+      assert.deepEqual(
+        await database.query(`select description from public.products`),
+        [{ description: 'Original' }]
+      );
+    } finally {
+      await database.db.exec(`
+        drop trigger reject_revision on public.product_revisions;
+        drop function public.reject_revision();
+      `);
+    }
+  });
+});
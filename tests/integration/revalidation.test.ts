@@ -0,0 +1,321 @@
+import './env';
+import assert from 'node:assert/strict';
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  test,
+} from 'node:test';
+import {
+  startMockStorefront,
+  type MockStorefront,
+} from '../../mock-storefront/server';
+import { revalidateCustomerApp } from '../../lib/revalidateCustomerApp';
+import { handleDatabaseWebhook } from '../../lib/databaseWebhook';
+import { checkStorefrontHealth } from '../../lib/storefrontHealth';
+import { clearStorefrontCache } from '../../lib/storefrontConfig';
+import { storefrontRoutes } from '../../lib/storefrontRoutes';
+
+// Runs the revalidation pipeline against two mock storefronts:
+//
+//   pnpm test:integration
+//
+// See tests/integration/env.ts for the environment it runs in.
+
+const SECRET = process.env.REVALIDATION_SECRET!;
+
+let shopA: MockStorefront;
+let shopB: MockStorefront;
+
+// Configures both mock storefronts through the environment fallback
+function configureStorefronts(
+  overrides: {
+    routeTemplates?: object;
+    revalidationModes?: object;
+    locales?: object;
+  } = {}
+) {
+  process.env.CUSTOMER_APP_BASE_URLS = `${shopA.url},${shopB.url}`;
+  process.env.CUSTOMER_APP_ROUTE_TEMPLATES = JSON.stringify(
+    overrides.routeTemplates ?? {}
+  );
+  process.env.CUSTOMER_APP_REVALIDATION_MODES = JSON.stringify(
+    overrides.revalidationModes ?? {}
+  );
+  process.env.CUSTOMER_APP_LOCALES = JSON.stringify(overrides.locales ?? {});
+  clearStorefrontCache();
+}
+
+before(async () => {
+  shopA = await startMockStorefront({ secrets: [SECRET] });
+  shopB = await startMockStorefront({ secrets: [SECRET] });
+});
+
+after(async () => {
+  await Promise.all([shopA.close(), shopB.close()]);
+});
+
+beforeEach(() => {
+  shopA.reset();
+  shopB.reset();
+  configureStorefronts();
+});
+
+afterEach(() => {
+  process.env.REVALIDATION_SECRET = SECRET;
+  delete process.env.REVALIDATION_SECRET_PREVIOUS;
+});
+
+describe('revalidateCustomerApp', () => {
+  test('sends a signed request with the rendered paths to every storefront', async () => {
+    const result = await revalidateCustomerApp(
+      { routes: [storefrontRoutes.product('blue-shirt')] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(
+      result.targets.map((target) => [target.url, target.status]),
+      [
+        [shopA.url, 200],
+        [shopB.url, 200],
+      ]
+    );
+    for (const shop of [shopA, shopB]) {
+      assert.equal(shop.requests.length, 1);
+      assert.equal(shop.requests[0].verified, true);
+      assert.deepEqual(shop.requests[0].payload?.paths, [
+        '/products/blue-shirt',
+      ]);
+    }
+  });
+
+  test('renders per-storefront templates and honours the revalidation mode', async () => {
+    configureStorefronts({
+      routeTemplates: { [shopA.url]: { product: '/p/:slug' } },
+      revalidationModes: { [shopB.url]: 'tags' },
+    });
+
+    const result = await revalidateCustomerApp(
+      { routes: [storefrontRoutes.product('blue-shirt')], tags: ['products'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(shopA.requests[0].payload?.paths, ['/p/blue-shirt']);
+    assert.equal(shopB.requests[0].payload?.paths, undefined);
+    assert.deepEqual(shopB.requests[0].payload?.tags, ['products']);
+  });
+
+  test('expands paths into the locales of each storefront', async () => {
+    configureStorefronts({
+      locales: {
+        [shopA.url]: [
+          { locale: 'en', prefix: '' },
+          { locale: 'fr', prefix: '/fr' },
+          { locale: 'de', prefix: '/de' },
+        ],
+      },
+    });
+
+    const result = await revalidateCustomerApp(
+      {
+        routes: [
+          storefrontRoutes.home(),
+          { ...storefrontRoutes.product('blue-shirt'), locales: ['en', 'fr'] },
+        ],
+      },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(shopA.requests[0].payload?.paths, [
+      '/',
+      '/fr',
+      '/de',
+      '/products/blue-shirt',
+      '/fr/products/blue-shirt',
+    ]);
+    assert.deepEqual(shopB.requests[0].payload?.paths, [
+      '/',
+      '/products/blue-shirt',
+    ]);
+  });
+
+  test('only sends to the selected targets', async () => {
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true, targets: [shopB.url] }
+    );
+
+    assert.equal(result.ok, true);
+    assert.equal(shopA.requests.length, 0);
+    assert.equal(shopB.requests.length, 1);
+  });
+
+  test('reports a storefront that rejects the signature', async () => {
+    process.env.REVALIDATION_SECRET = 'not-the-storefront-secret';
+
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, false);
+    assert.deepEqual(
+      result.targets.map((target) => target.status),
+      [401, 401]
+    );
+    assert.equal(shopA.requests[0].verified, false);
+    assert.match(shopA.requests[0].reason ?? '', /signature/i);
+  });
+
+  test('accepts requests signed with the previous secret during a rotation', async () => {
+    process.env.REVALIDATION_SECRET = 'next-secret';
+    process.env.REVALIDATION_SECRET_PREVIOUS = SECRET;
+
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, true);
+    assert.equal(shopA.requests[0].verified, true);
+  });
+
+  test('reports a storefront error without failing the other storefront', async () => {
+    shopA.enqueueBehavior({ status: 503, body: { message: 'Down' } });
+
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, false);
+    const [a, b] = result.targets;
+    assert.equal(a.ok, false);
+    assert.equal(a.status, 503);
+    assert.equal(b.ok, true);
+  });
+
+  test('waits for a slow storefront that answers within the timeout', async () => {
+    shopA.enqueueBehavior({ delayMs: 300 });
+
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, true);
+    assert.ok(result.targets[0].latencyMs >= 300);
+  });
+
+  test('times out on a storefront that never answers', async () => {
+    shopA.enqueueBehavior({ hang: true });
+
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, false);
+    const [a, b] = result.targets;
+    assert.equal(a.ok, false);
+    assert.equal(a.status, null);
+    assert.match(a.error ?? '', /timed out/i);
+    assert.equal(b.ok, true);
+  });
+
+  test('reports storefronts without a signing secret instead of failing the call', async () => {
+    delete process.env.REVALIDATION_SECRET;
+
+    const result = await revalidateCustomerApp(
+      { paths: ['/'] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, false);
+    assert.equal(result.error, undefined);
+    assert.deepEqual(
+      result.targets.map((target) => target.url),
+      [shopA.url, shopB.url]
+    );
+    for (const target of result.targets) {
+      assert.match(target.error ?? '', /has no secret of its own/);
+    }
+    assert.equal(shopA.requests.length, 0);
+    assert.equal(shopB.requests.length, 0);
+  });
+
+  test('skips storefronts that have none of the affected pages', async () => {
+    configureStorefronts({ routeTemplates: { [shopB.url]: { brand: null } } });
+
+    const result = await revalidateCustomerApp(
+      { routes: [storefrontRoutes.brand('acme')] },
+      { immediate: true }
+    );
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(
+      result.targets.map((target) => target.url),
+      [shopA.url]
+    );
+    assert.equal(shopB.requests.length, 0);
+  });
+});
+
+describe('handleDatabaseWebhook', () => {
+  test('tags the product of a changed customer testimonial', async () => {
+    configureStorefronts({ revalidationModes: { [shopA.url]: 'tags' } });
+    const testimonial = {
+      id: 7,
+      products_id: 42,
+      customer_name: 'Ada',
+      testimonial_text: 'Great fit',
+    };
+
+    const result = await handleDatabaseWebhook({
+      type: 'UPDATE',
+      table: 'customer_testimonials',
+      schema: 'public',
+      record: { ...testimonial, testimonial_text: 'Great fit, runs small' },
+      old_record: testimonial,
+    });
+
+    assert.equal(result.entity, 'testimonial');
+    assert.equal(result.revalidation?.ok, true);
+    assert.deepEqual(shopA.requests[0].payload?.tags, [
+      'testimonials',
+      'product:42',
+    ]);
+  });
+});
+
+describe('checkStorefrontHealth', () => {
+  test('reports a storefront that accepts the signed ping as healthy', async () => {
+    const health = await checkStorefrontHealth(shopA.url);
+
+    assert.equal(health.status, 'healthy');
+    assert.equal(shopA.requests[0].payload?.healthCheck, true);
+  });
+
+  test('reports a signature mismatch as unauthorized', async () => {
+    process.env.REVALIDATION_SECRET = 'not-the-storefront-secret';
+
+    const health = await checkStorefrontHealth(shopA.url);
+
+    assert.equal(health.status, 'unauthorized');
+    assert.equal(health.status_code, 401);
+  });
+
+  test('reports a failing storefront as unhealthy', async () => {
+    shopA.enqueueBehavior({ status: 500 });
+
+    const health = await checkStorefrontHealth(shopA.url);
+
+    assert.equal(health.status, 'unhealthy');
+    assert.equal(health.status_code, 500);
+  });
+});
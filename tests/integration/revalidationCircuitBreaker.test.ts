@@ -0,0 +1,113 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+
+// Feeds request outcomes into the storefront circuit breakers against a
+// database (see tests/integration/database/server.ts).
+
+const TARGET_URL = 'https://store.example.com';
+
+let database: MockDatabase;
+let breakers: typeof import('../../lib/revalidationCircuitBreaker');
+let outbox: typeof import('../../lib/revalidationOutbox');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  breakers = await import('../../lib/revalidationCircuitBreaker');
+  outbox = await import('../../lib/revalidationOutbox');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+function failure(error: string) {
+  return { url: TARGET_URL, ok: false, status: 503, latencyMs: 10, error };
+}
+
+async function breaker() {
+  const [row] = await database.query<{
+    state: string;
+    consecutive_failures: number;
+    last_error: string | null;
+  }>(
+    `select state, consecutive_failures, last_error
+     from public.revalidation_circuit_breakers where target_url = $1`,
+    [TARGET_URL]
+  );
+  return row;
+}
+
+describe('recordCircuitBreakerResult', () => {
+  test('counts every one of concurrent failures', async () => {
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((attempt) =>
+        breakers.recordCircuitBreakerResult(
+          TARGET_URL,
+          failure(`Attempt ${attempt}`)
+        )
+      )
+    );
+
+    const { state, consecutive_failures } = await breaker();
+    assert.equal(consecutive_failures, 5);
+    assert.equal(state, 'open');
+  });
+
+  test('closes the breaker on a success', async () => {
+    for (const attempt of [1, 2]) {
+      await breakers.recordCircuitBreakerResult(
+        TARGET_URL,
+        failure(`Attempt ${attempt}`)
+      );
+    }
+    assert.deepEqual(await breaker(), {
+      state: 'closed',
+      consecutive_failures: 2,
+      last_error: 'Attempt 2',
+    });
+
+    await breakers.recordCircuitBreakerResult(TARGET_URL, {
+      url: TARGET_URL,
+      ok: true,
+      status: 200,
+      latencyMs: 10,
+      error: null,
+    });
+
+    const { state, consecutive_failures } = await breaker();
+    assert.equal(consecutive_failures, 0);
+    assert.equal(state, 'closed');
+  });
+});
+
+describe('processRevalidationOutbox', () => {
+  test('reports rows an open breaker kept back as postponed', async () => {
+    await database.query(
+      `insert into public.revalidation_circuit_breakers (target_url, state, open_until)
+       values ($1, 'open', now() + interval '1 minute')`,
+      [TARGET_URL]
+    );
+    await database.query(
+      `insert into public.revalidation_outbox (target_url, payload)
+       values ($1, '{"paths": ["/products/a"]}')`,
+      [TARGET_URL]
+    );
+
+    const summary = await outbox.processRevalidationOutbox();
+
+    assert.deepEqual(summary, {
+      processed: 1,
+      delivered: 0,
+      retrying: 0,
+      postponed: 1,
+      deadLettered: 0,
+    });
+  });
+});
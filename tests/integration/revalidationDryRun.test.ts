@@ -0,0 +1,43 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+import { postJson } from './routes';
+
+// Previews saves through the API routes' dry run against a database (see
+// tests/integration/database/server.ts).
+
+let database: MockDatabase;
+let createRoute: typeof import('../../app/api/products/create/route');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  createRoute = await import('../../app/api/products/create/route');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+describe('product create dry run', () => {
+  test('revalidates the new product in its published locales only', async () => {
+    const { status, body } = await postJson(
+      createRoute.POST,
+      '/api/products/create?dryRun=true',
+      { name: 'Desk Lamp', price: 10, published_locales: ['fr'] }
+    );
+
+    assert.equal(status, 200, JSON.stringify(body));
+    assert.equal(body.dryRun, true);
+    const productRoute = body.revalidation.routes.find(
+      (route: { name: string }) => route.name === 'product'
+    );
+    assert.deepEqual(productRoute.locales, ['fr']);
+    assert.deepEqual(await database.query(`select * from public.products`), []);
+  });
+});
@@ -0,0 +1,109 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+
+// Runs the revalidation outbox against a database (see
+// tests/integration/database/server.ts).
+
+const TARGET = 'https://shop.example.com';
+const WINDOW_MS = 60_000;
+
+let database: MockDatabase;
+let outbox: typeof import('../../lib/revalidationOutbox');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  outbox = await import('../../lib/revalidationOutbox');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+function queue(path: string) {
+  return outbox.queueRevalidationBatch(
+    [{ targetUrl: TARGET, payload: { paths: [path] } }],
+    WINDOW_MS,
+    [{ source: `test ${path}` }]
+  );
+}
+
+describe('queueRevalidationBatch', () => {
+  test('merges a save into the open batch of its storefront', async () => {
+    const [first] = await queue('/products/a');
+    const [second] = await queue('/products/b');
+
+    assert.equal(first.opened, true);
+    assert.equal(second.opened, false);
+    assert.equal(second.entry.id, first.entry.id);
+    assert.deepEqual(second.entry.payload, {
+      paths: ['/products/a', '/products/b'],
+    });
+  });
+
+  test('keeps the paths and triggers of saves merging at the same time', async () => {
+    await queue('/products/a');
+    await Promise.all([queue('/products/b'), queue('/products/c')]);
+
+    const rows = await database.query<{ payload: { paths: string[] } }>(
+      `select payload from public.revalidation_outbox where status = 'pending'`
+    );
+    assert.equal(rows.length, 1);
+    assert.deepEqual(rows[0].payload.paths.sort(), [
+      '/products/a',
+      '/products/b',
+      '/products/c',
+    ]);
+
+    const [{ triggers }] = await database.query<{
+      triggers: { source: string }[];
+    }>(`select triggers from public.revalidation_outbox`);
+    assert.deepEqual(triggers.map((trigger) => trigger.source).sort(), [
+      'test /products/a',
+      'test /products/b',
+      'test /products/c',
+    ]);
+  });
+
+  test('opens a new batch once the open one is claimed', async () => {
+    const [first] = await queue('/products/a');
+    await database.query(
+      `update public.revalidation_outbox set coalesce_until = null where id = $1`,
+      [first.entry.id]
+    );
+
+    const [second] = await queue('/products/b');
+    assert.equal(second.opened, true);
+    assert.notEqual(second.entry.id, first.entry.id);
+    assert.deepEqual(second.entry.payload, { paths: ['/products/b'] });
+  });
+});
+
+describe('processRevalidationOutbox', () => {
+  test('leaves a row another run claimed out of its summary', async () => {
+    // Nothing listens there, so the attempt fails and is retried
+    await database.query(
+      `insert into public.revalidation_outbox (target_url, payload)
+       values ('http://127.0.0.1:9', '{"paths": ["/products/a"]}')`
+    );
+
+    const summaries = await Promise.all([
+      outbox.processRevalidationOutbox(),
+      outbox.processRevalidationOutbox(),
+    ]);
+
+    assert.deepEqual(
+      summaries.map(({ processed, retrying }) => [processed, retrying]).sort(),
+      [
+        [0, 0],
+        [1, 1],
+      ]
+    );
+  });
+});
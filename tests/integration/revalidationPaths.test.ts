@@ -0,0 +1,65 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+
+// Loads entity snapshots against a database (see
+// tests/integration/database/server.ts).
+
+let database: MockDatabase;
+let paths: typeof import('../../lib/revalidationPaths');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  paths = await import('../../lib/revalidationPaths');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+describe('getProductSnapshot', () => {
+  test('loads the product with its tags', async () => {
+    const [{ products_id }] = await database.query<{ products_id: number }>(
+      `insert into public.products (name, slug, status)
+       values ('Desk Lamp', 'desk-lamp', 'active')
+       returning products_id`
+    );
+    await database.query(
+      `insert into public.product_tags (product_id, tag_text)
+       values ($1, 'lighting'), ($1, 'desk')`,
+      [products_id]
+    );
+
+    const snapshot = await paths.getProductSnapshot(products_id);
+
+    assert.equal(snapshot?.slug, 'desk-lamp');
+    assert.equal(snapshot?.status, 'active');
+    assert.deepEqual(snapshot?.tags, ['lighting', 'desk']);
+  });
+
+  test('returns null for an unknown product', async () => {
+    assert.equal(await paths.getProductSnapshot(404), null);
+  });
+
+  test('throws when the product cannot be loaded', async () => {
+    await database.query(
+      `alter table public.products rename to products_moved`
+    );
+    try {
+      await assert.rejects(
+        paths.getProductSnapshot(1),
+        /Failed to load product snapshot/
+      );
+    } finally {
+      await database.query(
+        `alter table public.products_moved rename to products`
+      );
+    }
+  });
+});
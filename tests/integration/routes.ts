@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+
+// Calls an API route handler the way the admin app does: a JSON POST,
+// signed in when a token (see MockDatabase.createAdmin) is given.
+export async function postJson<T = any>(
+  handler: (req: NextRequest) => Promise<Response>,
+  path: string,
+  body: unknown,
+  token?: string
+): Promise<{ status: number; body: T }> {
+  const response = await handler(
+    new NextRequest(`http://localhost${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+}
@@ -0,0 +1,156 @@
+import './env';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startMockDatabase, type MockDatabase } from './database/server';
+import { postJson } from './routes';
+
+// Picks slugs through the create and update routes against a database (see
+// tests/integration/database/server.ts), whose unique indexes make
+// concurrent saves of the same name collide.
+
+let database: MockDatabase;
+let productRoute: typeof import('../../app/api/products/create/route');
+let categoryRoute: typeof import('../../app/api/categories/create/route');
+let subcategoryRoute: typeof import('../../app/api/subcategories/create/route');
+let categoryUpdateRoute: typeof import('../../app/api/categories/update/route');
+let productUpdateRoute: typeof import('../../app/api/products/update/route');
+
+before(async () => {
+  database = await startMockDatabase();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = database.url;
+  productRoute = await import('../../app/api/products/create/route');
+  categoryRoute = await import('../../app/api/categories/create/route');
+  subcategoryRoute = await import('../../app/api/subcategories/create/route');
+  categoryUpdateRoute = await import('../../app/api/categories/update/route');
+  productUpdateRoute = await import('../../app/api/products/update/route');
+});
+
+after(async () => {
+  await database.close();
+});
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+async function createCategory(fields: Record<string, unknown>) {
+  return postJson(categoryRoute.POST, '/api/categories/create', fields);
+}
+
+describe('slugs', () => {
+  test('gives concurrent creates of the same name distinct slugs', async () => {
+    const responses = await Promise.all(
+      [1, 2, 3].map(() =>
+        postJson(productRoute.POST, '/api/products/create', {
+          name: 'Desk Lamp',
+          price: 10,
+        })
+      )
+    );
+
+    assert.deepEqual(
+      responses.map((response) => response.status),
+      [201, 201, 201]
+    );
+    const rows = await database.query<{ slug: string }>(
+      `select slug from public.products order by slug`
+    );
+    assert.deepEqual(
+      rows.map((row) => row.slug),
+      ['desk-lamp', 'desk-lamp-1', 'desk-lamp-2']
+    );
+  });
+
+  test('suffixes a name that is a reserved word', async () => {
+    const { status, body } = await createCategory({ name: 'New' });
+
+    assert.equal(status, 201);
+    assert.equal(body.category.slug, 'new-1');
+  });
+
+  test('rejects a custom slug that is a reserved word', async () => {
+    const { status, body } = await createCategory({
+      name: 'Admin Picks',
+      slug: 'admin',
+    });
+
+    assert.equal(status, 400);
+    assert.match(body.error, /reserved/);
+    assert.equal(
+      (await database.query(`select 1 from public.categories`)).length,
+      0
+    );
+  });
+
+  test('keeps subcategory slugs unique within their category', async () => {
+    const token = await database.createAdmin();
+    const [indoor, outdoor] = await Promise.all(
+      ['Indoor', 'Outdoor'].map(async (name) => {
+        const { body } = await createCategory({ name });
+        return body.category.categories_id as number;
+      })
+    );
+    const createSubcategory = (categoryId: number) =>
+      postJson(
+        subcategoryRoute.POST,
+        '/api/subcategories/create',
+        { category_id: categoryId, name: 'Lamps' },
+        token
+      );
+
+    const first = await createSubcategory(indoor);
+    const otherCategory = await createSubcategory(outdoor);
+    const second = await createSubcategory(indoor);
+
+    assert.equal(first.body.subcategory.slug, 'lamps');
+    assert.equal(otherCategory.body.subcategory.slug, 'lamps');
+    assert.equal(second.body.subcategory.slug, 'lamps-1');
+  });
+
+  test('saves an entity whose slug is already a reserved word', async () => {
+    // Saved before reserved words were checked
+    const [category] = await database.query<{ id: number; updated_at: string }>(
+      `insert into public.categories (name, slug) values ('All', 'all')
+       returning categories_id as id, to_json(updated_at) #>> '{}' as updated_at`
+    );
+    const [product] = await database.query<{ id: number; updated_at: string }>(
+      `insert into public.products (name, slug) values ('New', 'new')
+       returning products_id as id, to_json(updated_at) #>> '{}' as updated_at`
+    );
+
+    const categorySave = await postJson(
+      categoryUpdateRoute.POST,
+      '/api/categories/update',
+      {
+        categories_id: category.id,
+        name: 'All',
+        slug: 'all',
+        display_order: 3,
+        updated_at: category.updated_at,
+      }
+    );
+    // A restore sends the slug as it was saved
+    const productSave = await postJson(
+      productUpdateRoute.POST,
+      '/api/products/update',
+      {
+        products_id: product.id,
+        name: 'New',
+        slug: 'new',
+        price: 12,
+        updated_at: product.updated_at,
+      }
+    );
+
+    assert.equal(categorySave.status, 200, JSON.stringify(categorySave.body));
+    assert.equal(productSave.status, 200, JSON.stringify(productSave.body));
+    assert.deepEqual(
+      await database.query(`select slug, display_order from public.categories`),
+      [{ slug: 'all', display_order: 3 }]
+    );
+    assert.deepEqual(
+      await database.query(`select slug, price::text from public.products`),
+      [{ slug: 'new', price: '12' }]
+    );
+  });
+});
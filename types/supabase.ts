@@ -37,7 +37,7 @@ export interface Database {
       };
       products: {
         Row: {
-          id: number;
+          products_id: number;
           name: string;
           slug: string;
           description: string | null;
@@ -66,6 +66,7 @@ export interface Database {
           seo_title: string | null;
           seo_description: string | null;
           seo_keywords: string[] | null;
+          published_locales: string[] | null;
           rating_average: number;
           rating_count: number;
           status: string;
@@ -74,7 +75,7 @@ export interface Database {
           updated_at: string;
         };
         Insert: {
-          id?: number;
+          products_id?: number;
           name: string;
           slug: string;
           description?: string | null;
@@ -103,6 +104,7 @@ export interface Database {
           seo_title?: string | null;
           seo_description?: string | null;
           seo_keywords?: string[] | null;
+          published_locales?: string[] | null;
           rating_average?: number;
           rating_count?: number;
           status?: string;
@@ -111,7 +113,7 @@ export interface Database {
           updated_at?: string;
         };
         Update: {
-          id?: number;
+          products_id?: number;
           name?: string;
           slug?: string;
           description?: string | null;
@@ -140,6 +142,7 @@ export interface Database {
           seo_title?: string | null;
           seo_description?: string | null;
           seo_keywords?: string[] | null;
+          published_locales?: string[] | null;
           rating_average?: number;
           rating_count?: number;
           status?: string;
@@ -294,6 +297,380 @@ export interface Database {
           updated_at?: string;
         };
       };
+      revalidation_outbox: {
+        Row: {
+          id: number;
+          target_url: string;
+          payload: Json;
+          status: 'pending' | 'delivered' | 'dead_letter';
+          attempts: number;
+          max_attempts: number;
+          next_attempt_at: string;
+          coalesce_until: string | null;
+          triggers: Json;
+          last_error: string | null;
+          delivered_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          target_url: string;
+          payload: Json;
+          status?: 'pending' | 'delivered' | 'dead_letter';
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          coalesce_until?: string | null;
+          triggers?: Json;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          target_url?: string;
+          payload?: Json;
+          status?: 'pending' | 'delivered' | 'dead_letter';
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          coalesce_until?: string | null;
+          triggers?: Json;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      revalidation_log: {
+        Row: {
+          id: number;
+          outbox_id: number | null;
+          target_url: string;
+          payload: Json;
+          triggers: Json;
+          attempt: number | null;
+          ok: boolean;
+          status_code: number | null;
+          response_body: string | null;
+          error: string | null;
+          duration_ms: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          outbox_id?: number | null;
+          target_url: string;
+          payload: Json;
+          triggers?: Json;
+          attempt?: number | null;
+          ok: boolean;
+          status_code?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          duration_ms?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          outbox_id?: number | null;
+          target_url?: string;
+          payload?: Json;
+          triggers?: Json;
+          attempt?: number | null;
+          ok?: boolean;
+          status_code?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          duration_ms?: number;
+          created_at?: string;
+        };
+      };
+      revalidation_circuit_breakers: {
+        Row: {
+          target_url: string;
+          state: 'closed' | 'open' | 'half_open';
+          consecutive_failures: number;
+          opened_at: string | null;
+          open_until: string | null;
+          last_error: string | null;
+          last_failure_at: string | null;
+          last_success_at: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          target_url: string;
+          state?: 'closed' | 'open' | 'half_open';
+          consecutive_failures?: number;
+          opened_at?: string | null;
+          open_until?: string | null;
+          last_error?: string | null;
+          last_failure_at?: string | null;
+          last_success_at?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          target_url?: string;
+          state?: 'closed' | 'open' | 'half_open';
+          consecutive_failures?: number;
+          opened_at?: string | null;
+          open_until?: string | null;
+          last_error?: string | null;
+          last_failure_at?: string | null;
+          last_success_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      storefront_health: {
+        Row: {
+          target_url: string;
+          status: 'healthy' | 'unauthorized' | 'unhealthy';
+          status_code: number | null;
+          latency_ms: number;
+          error: string | null;
+          checked_at: string;
+          last_success_at: string | null;
+        };
+        Insert: {
+          target_url: string;
+          status: 'healthy' | 'unauthorized' | 'unhealthy';
+          status_code?: number | null;
+          latency_ms?: number;
+          error?: string | null;
+          checked_at?: string;
+          last_success_at?: string | null;
+        };
+        Update: {
+          target_url?: string;
+          status?: 'healthy' | 'unauthorized' | 'unhealthy';
+          status_code?: number | null;
+          latency_ms?: number;
+          error?: string | null;
+          checked_at?: string;
+          last_success_at?: string | null;
+        };
+      };
+      storefronts: {
+        Row: {
+          id: number;
+          name: string;
+          base_url: string;
+          environment: 'staging' | 'production';
+          secret: string | null;
+          enabled: boolean;
+          revalidation_mode: 'paths' | 'tags' | 'both';
+          route_templates: Json;
+          locales: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          base_url: string;
+          environment?: 'staging' | 'production';
+          secret?: string | null;
+          enabled?: boolean;
+          revalidation_mode?: 'paths' | 'tags' | 'both';
+          route_templates?: Json;
+          locales?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          base_url?: string;
+          environment?: 'staging' | 'production';
+          secret?: string | null;
+          enabled?: boolean;
+          revalidation_mode?: 'paths' | 'tags' | 'both';
+          route_templates?: Json;
+          locales?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      revalidation_warmups: {
+        Row: {
+          id: number;
+          outbox_id: number | null;
+          target_url: string;
+          path: string;
+          status_code: number | null;
+          ttfb_ms: number | null;
+          duration_ms: number;
+          error: string | null;
+          flagged: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          outbox_id?: number | null;
+          target_url: string;
+          path: string;
+          status_code?: number | null;
+          ttfb_ms?: number | null;
+          duration_ms?: number;
+          error?: string | null;
+          flagged?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          outbox_id?: number | null;
+          target_url?: string;
+          path?: string;
+          status_code?: number | null;
+          ttfb_ms?: number | null;
+          duration_ms?: number;
+          error?: string | null;
+          flagged?: boolean;
+          created_at?: string;
+        };
+      };
+      revalidation_jobs: {
+        Row: {
+          id: number;
+          status: 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+          items: Json;
+          targets: string[] | null;
+          total: number;
+          position: number;
+          failed: number;
+          last_error: string | null;
+          locked_until: string | null;
+          created_by: string | null;
+          finished_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          status?: 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+          items?: Json;
+          targets?: string[] | null;
+          total?: number;
+          position?: number;
+          failed?: number;
+          last_error?: string | null;
+          locked_until?: string | null;
+          created_by?: string | null;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          status?: 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+          items?: Json;
+          targets?: string[] | null;
+          total?: number;
+          position?: number;
+          failed?: number;
+          last_error?: string | null;
+          locked_until?: string | null;
+          created_by?: string | null;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      slug_history: {
+        Row: {
+          id: number;
+          entity: 'product' | 'category' | 'subcategory' | 'brand';
+          entity_id: number;
+          old_slug: string;
+          new_slug: string;
+          changed_at: string;
+        };
+        Insert: {
+          id?: number;
+          entity: 'product' | 'category' | 'subcategory' | 'brand';
+          entity_id: number;
+          old_slug: string;
+          new_slug: string;
+          changed_at?: string;
+        };
+        Update: {
+          id?: number;
+          entity?: 'product' | 'category' | 'subcategory' | 'brand';
+          entity_id?: number;
+          old_slug?: string;
+          new_slug?: string;
+          changed_at?: string;
+        };
+      };
+      product_revisions: {
+        Row: {
+          id: number;
+          products_id: number;
+          snapshot: Json;
+          author_id: string | null;
+          author_email: string | null;
+          restored_from: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          products_id: number;
+          snapshot: Json;
+          author_id?: string | null;
+          author_email?: string | null;
+          restored_from?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          products_id?: number;
+          snapshot?: Json;
+          author_id?: string | null;
+          author_email?: string | null;
+          restored_from?: number | null;
+          created_at?: string;
+        };
+      };
+    };
+    Functions: {
+      create_product_graph: {
+        Args: {
+          product: Json;
+          related: Json;
+          revision?: Json | null;
+        };
+        Returns: Database['public']['Tables']['products']['Row'];
+      };
+      update_product_graph: {
+        Args: {
+          product: Json;
+          related: Json;
+          expected_updated_at?: string | null;
+          revision?: Json | null;
+        };
+        Returns: Database['public']['Tables']['products']['Row'];
+      };
+      record_revalidation_breaker_failure: {
+        Args: {
+          target_url: string;
+          failure_threshold: number;
+          cooldown_ms: number;
+          error: string | null;
+        };
+        Returns: {
+          consecutive_failures: number;
+          opened: boolean;
+        }[];
+      };
+      sync_product_related: {
+        Args: {
+          target_products_id: number;
+          related: Json;
+        };
+        Returns: undefined;
+      };
     };
   };
 }